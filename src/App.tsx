@@ -1,25 +1,155 @@
 // src/App.tsx
-import { useState, useCallback, useRef } from 'react';
+import { useState, useCallback, useRef, useEffect, useMemo, MouseEvent } from 'react';
 
 // ============ IMPORTS FROM UTILS ============
 import { normalize } from './utils/normalize';
-import { callGeminiJson } from './utils/api';
+import {
+  UserDictionary,
+  loadDictionary,
+  saveDictionary,
+  addUnique,
+  removeEntry,
+  protectedWords,
+  filterCorrections,
+  wordsPresentIn,
+  parseWordList,
+  serializeWordList
+} from './utils/dictionary';
+import {
+  loadGlossary,
+  saveGlossary,
+  parseGlossaryFile,
+  mergeGlossary,
+  serializeGlossaryCsv,
+  checkTerminology,
+  glossaryEntriesIn,
+  filterByGlossary,
+  filterAlternativesByGlossary
+} from './utils/glossary';
+import { downloadFile, readFileText } from './utils/file';
+import {
+  loadCustomDocTypes,
+  saveCustomDocTypes,
+  createCustomDocType,
+  upsertCustomDocType,
+  parseCustomDocTypes,
+  serializeCustomDocTypes
+} from './utils/docTypes';
+import { apiScheduler, isAbortError } from './utils/scheduler';
+import {
+  PROVIDERS,
+  PROVIDER_IDS,
+  ProviderId,
+  ProviderSettings,
+  loadProviderId,
+  loadProviderSettings,
+  saveProviderSettings
+} from './utils/providers';
+import {
+  splitIntoUnits,
+  mergeMainResults,
+  mergeListResults,
+  offsetPositions,
+  countWords,
+  TextChunk
+} from './utils/chunker';
+import {
+  MainCheckResponse,
+  NumeralIssue,
+  ReadabilityMetrics,
+  SentenceInfo,
+  GlossaryEntry,
+  TerminologyIssue,
+  FindingCategory,
+  ReportFinding,
+  ReviewDecision,
+  AnalysisReport,
+  HistoryEntry,
+  ModalType,
+  StyleMapEntry
+} from './types';
+import { looksLikeBijoy, UNICODE_FONTS } from './utils/bijoy';
+import { detectBanglishSpans, replaceSpans, refineTransliteration } from './utils/phonetic';
+import { classifyParagraphs, dominantStyle, hasStyleMixing, convertStyleLocally } from './utils/styleMap';
+import {
+  getDocumentId,
+  loadHistory,
+  addHistoryEntry,
+  removeHistoryEntry,
+  clearHistory,
+  historyForDocument,
+  newHistoryId
+} from './utils/history';
+import {
+  collectFindings,
+  toDecision,
+  buildReportHtml,
+  buildReportHtmlBody,
+  buildReportMarkdown,
+  buildReportJson
+} from './utils/report';
+import { checkNumerals, detectConvention, amountToBanglaWords } from './utils/numerals';
+import { computeReadability, readabilityLabel } from './utils/readability';
+import { runCachedAnalysis, callAIJsonCached } from './utils/analysis';
+import { clearCache, cacheSize } from './utils/cache';
+import {
+  CheckSnapshot,
+  SnapshotDiff,
+  takeSnapshot,
+  diffSnapshots,
+  carryOver,
+  applyParagraphEdit,
+  rebaseItems
+} from './utils/incremental';
+import { createLiveChecker, LiveParagraph } from './utils/liveCheck';
+import { createCursorSync } from './utils/cursorSync';
+import { rewriteText } from './utils/rewrite';
+import { DiffSegment, diffWords, diffHunks, applyDiff } from './utils/diff';
+import { runLocalSpellCheck, mergeCorrections } from './utils/spellEngine';
+import {
+  validateMainResponse,
+  validateToneResponse,
+  validateStyleResponse,
+  validateContentAnalysis
+} from './utils/schema';
 import {
   getTextFromWord,
   highlightMultipleInWord,
   highlightInWord,
   replaceInWord,
-  clearHighlights
+  clearHighlights,
+  clearHighlightsInParagraphs,
+  getSelectedText,
+  applyHunksToSelection,
+  applyBulkEdits,
+  undoBulkEdits,
+  BulkEdit,
+  BulkUndo,
+  insertAfterSelection,
+  insertHtmlAtEnd,
+  getDocumentParagraphs,
+  selectParagraph,
+  convertBijoyRuns,
+  convertSelectionToBijoy,
+  selectInWord,
+  isApplyModeSupported,
+  ApplyMode
 } from './utils/word';
 
 // ============ IMPORTS FROM PROMPTS ============
-import { buildTonePrompt, getToneName, TONE_OPTIONS } from './prompts/tone';
-import { buildStylePrompt, STYLE_OPTIONS } from './prompts/style';
+import { buildTonePrompt, buildToneRewritePrompt, getToneName, TONE_OPTIONS } from './prompts/tone';
+import { buildStylePrompt, buildStyleRewritePrompt, STYLE_OPTIONS } from './prompts/style';
 import {
   buildMainPrompt,
+  buildLivePrompt,
   DOC_TYPE_CONFIG,
+  BUILT_IN_DOC_TYPES,
+  CustomDocType,
+  resolveDocType,
   getDocTypeLabel,
-  DocType
+  DocType,
+  NumberConvention,
+  DEFAULT_READABILITY
 } from './prompts/core';
 
 // ============ TYPE DEFINITIONS ============
@@ -79,16 +209,67 @@ export interface ContentAnalysis {
   suggestions?: string[];
 }
 
-type SectionKey = 'spelling' | 'tone' | 'style' | 'mixing' | 'punctuation' | 'euphony' | 'content';
+type SectionKey =
+  | 'spelling' | 'terminology' | 'tone' | 'style' | 'mixing' | 'styleMap' | 'punctuation' | 'euphony' | 'numerals'
+  | 'readability' | 'content';
+
+type BulkCategory = 'terminology' | 'spelling' | 'mixing' | 'style' | 'tone' | 'euphony' | 'punctuation' | 'numerals';
+
+const BULK_LABELS: Record<BulkCategory, string> = {
+  terminology: 'পরিভাষা',
+  spelling: 'বানান',
+  mixing: 'মিশ্রণ',
+  style: 'ভাষারীতি',
+  tone: 'টোন',
+  euphony: 'শ্রুতিমধুরতা',
+  punctuation: 'বিরাম চিহ্ন',
+  numerals: 'সংখ্যা'
+};
+
+/** "সবকিছু গ্রহণ" — ওভারল্যাপ হলে এই ক্রমে আগেরটি অগ্রাধিকার পায় */
+const ALL_BULK_CATEGORIES: BulkCategory[] = ['terminology', 'spelling', 'mixing', 'style', 'tone', 'euphony', 'punctuation', 'numerals'];
+
+const MAX_UNDO_BATCHES = 10;
+
+/** ট্রেন্ড গ্রাফের বিন্দু (SVG polyline) — মানগুলো উচ্চতার মধ্যে ছোট-বড় করে বসানো */
+const sparkPoints = (values: number[], width: number, height: number): string => {
+  const max = Math.max(...values);
+  const min = Math.min(...values);
+  const span = max - min || 1;
+  const step = values.length > 1 ? width / (values.length - 1) : 0;
+  return values.map((v, i) => `${(i * step).toFixed(1)},${(height - 2 - ((v - min) / span) * (height - 4)).toFixed(1)}`).join(' ');
+};
+
+/** একসাথে প্রয়োগ করা একটি ব্যাচ — ফেরত আনার edit ও প্যানেল থেকে সরানো সাজেশন */
+interface UndoBatch {
+  label: string;
+  undo: BulkUndo;
+  removed: {
+    corrections: Correction[];
+    tones: ToneSuggestion[];
+    styles: StyleSuggestion[];
+    mixing: StyleMixingCorrection[];
+    punctuation: PunctuationIssue[];
+    euphony: EuphonyImprovement[];
+    numerals: NumeralIssue[];
+    terminology: TerminologyIssue[];
+  };
+  mixingMeta: StyleMixing | null;
+  decisions: ReviewDecision[];
+}
 type ViewFilter = 'all' | 'spelling' | 'punctuation';
 
 // ============ MAIN COMPONENT ============
 function App() {
   // Settings State
-  const [apiKey, setApiKey] = useState(localStorage.getItem('gemini_api_key') || '');
-  const [selectedModel, setSelectedModel] = useState(
-    localStorage.getItem('gemini_model') || 'gemini-2.5-flash'
-  );
+  const [provider, setProvider] = useState<ProviderId>(loadProviderId);
+  const [providerSettings, setProviderSettings] = useState<Record<ProviderId, ProviderSettings>>(loadProviderSettings);
+  const [applyMode, setApplyMode] = useState<ApplyMode>(() => {
+    const stored = (localStorage.getItem('apply_mode') as ApplyMode) || 'replace';
+    return isApplyModeSupported(stored) ? stored : 'replace';
+  });
+  const [localOnly, setLocalOnly] = useState(localStorage.getItem('local_only') === 'true');
+  const [liveCheck, setLiveCheck] = useState(localStorage.getItem('live_check') === 'true');
   const [docType, setDocType] = useState<DocType>(
     (localStorage.getItem('doc_type') as DocType) || 'generic'
   );
@@ -96,12 +277,12 @@ function App() {
   // UI State
   const [isLoading, setIsLoading] = useState(false);
   const [loadingText, setLoadingText] = useState('');
+  const [chunkProgress, setChunkProgress] = useState<{ done: number; total: number } | null>(null);
   const [message, setMessage] = useState<{ text: string; type: 'success' | 'error' } | null>(null);
-  const [activeModal, setActiveModal] = useState<
-    'none' | 'settings' | 'instructions' | 'tone' | 'style' | 'doctype' | 'mainMenu'
-  >('none');
+  const [activeModal, setActiveModal] = useState<ModalType>('none');
 
   const [viewFilter, setViewFilter] = useState<ViewFilter>('all');
+  const [focusedNav, setFocusedNav] = useState<string | null>(null);
   const [collapsedSections, setCollapsedSections] = useState<Record<SectionKey, boolean>>({
     spelling: false,
     tone: false,
@@ -109,6 +290,10 @@ function App() {
     mixing: false,
     punctuation: false,
     euphony: false,
+    numerals: false,
+    terminology: false,
+    styleMap: false,
+    readability: false,
     content: false
   });
 
@@ -116,6 +301,24 @@ function App() {
   const [selectedTone, setSelectedTone] = useState('');
   const [selectedStyle, setSelectedStyle] = useState<'none' | 'sadhu' | 'cholito'>('none');
 
+  // Custom Doc Type State
+  const [customDocTypes, setCustomDocTypes] = useState<CustomDocType[]>(loadCustomDocTypes);
+  const [editingDocType, setEditingDocType] = useState<CustomDocType | null>(null);
+  const docCfg = resolveDocType(docType, customDocTypes);
+
+  // Dictionary State
+  const [dictionary, setDictionary] = useState<UserDictionary>(loadDictionary);
+
+  // Glossary State (প্রতিষ্ঠানের পরিভাষা)
+  const [glossary, setGlossary] = useState<GlossaryEntry[]>(loadGlossary);
+  const [terminologyIssues, setTerminologyIssues] = useState<TerminologyIssue[]>([]);
+
+  // Rewrite State (লক্ষ্য: "style:cholito" / "tone:formal"; accepted: গৃহীত hunk id)
+  const [rewriteTarget, setRewriteTarget] = useState('style:cholito');
+  const [phoneticAi, setPhoneticAi] = useState(false);
+  const [unicodeFont, setUnicodeFont] = useState(localStorage.getItem('unicode_font') || UNICODE_FONTS[0]);
+  const [rewrite, setRewrite] = useState<{ original: string; segments: DiffSegment[]; accepted: number[] } | null>(null);
+
   // Data State
   const [corrections, setCorrections] = useState<Correction[]>([]);
   const [toneSuggestions, setToneSuggestions] = useState<ToneSuggestion[]>([]);
@@ -125,11 +328,41 @@ function App() {
   const [euphonyImprovements, setEuphonyImprovements] = useState<EuphonyImprovement[]>([]);
   const [contentAnalysis, setContentAnalysis] = useState<ContentAnalysis | null>(null);
 
+  // Numeral State (রীতি: ইউজার বদলালে override, নাহলে doc type বা ডকুমেন্ট অনুযায়ী)
+  const [numeralIssues, setNumeralIssues] = useState<NumeralIssue[]>([]);
+  const [numberConventionOverride, setNumberConventionOverride] = useState<NumberConvention | null>(null);
+  const [activeConvention, setActiveConvention] = useState<NumberConvention | null>(null);
+  const [amountInput, setAmountInput] = useState('');
+  const lastTextRef = useRef('');
+
+  // Review State (রিপোর্টের জন্য — কোন সাজেশন গৃহীত/বাতিল)
+  const [decisions, setDecisions] = useState<ReviewDecision[]>([]);
+  const findingsRef = useRef<ReportFinding[]>([]);
+
+  // History State (ডকুমেন্টভিত্তিক আগের পরীক্ষা)
+  const [docId] = useState(getDocumentId);
+  const [history, setHistory] = useState<HistoryEntry[]>(loadHistory);
+  const [viewingHistory, setViewingHistory] = useState<HistoryEntry | null>(null);
+  const pendingHistoryRef = useRef(false);
+
+  // Style Map State (প্যারাগ্রাফভিত্তিক সাধু/চলিত)
+  const [styleMap, setStyleMap] = useState<StyleMapEntry[] | null>(null);
+
   const [stats, setStats] = useState({ totalWords: 0, errorCount: 0, accuracy: 100 });
+  const [readability, setReadability] = useState<ReadabilityMetrics | null>(null);
+
+  // Undo Journal (একসাথে প্রয়োগ করা ব্যাচগুলো, শেষেরটি আগে ফেরত)
+  const [undoStack, setUndoStack] = useState<UndoBatch[]>([]);
 
   // Debounce ref
   const highlightTimeoutRef = useRef<any>(null);
 
+  // শেষ পরীক্ষার প্যারাগ্রাফ স্ন্যাপশট (পরের বার শুধু বদলানো অংশ পরীক্ষার জন্য)
+  const snapshotRef = useRef<CheckSnapshot | null>(null);
+
+  const activeSettings = providerSettings[provider];
+  const aiConfig = { provider, settings: activeSettings };
+
   // ============ HELPERS ============
   const showMessage = useCallback((text: string, type: 'success' | 'error') => {
     setMessage({ text, type });
@@ -138,13 +371,24 @@ function App() {
 
   // Removed unused 'delay' function here
 
+  const updateProviderSettings = useCallback((patch: Partial<ProviderSettings>) => {
+    setProviderSettings(prev => ({ ...prev, [provider]: { ...prev[provider], ...patch } }));
+  }, [provider]);
+
   const saveSettings = useCallback(() => {
-    localStorage.setItem('gemini_api_key', apiKey);
-    localStorage.setItem('gemini_model', selectedModel);
+    const cleaned = { ...providerSettings };
+    for (const id of PROVIDER_IDS) {
+      cleaned[id] = { ...cleaned[id], models: cleaned[id].models.filter(Boolean) };
+    }
+    setProviderSettings(cleaned);
+    saveProviderSettings(provider, cleaned);
     localStorage.setItem('doc_type', docType);
+    localStorage.setItem('local_only', String(localOnly));
+    localStorage.setItem('live_check', String(liveCheck));
+    localStorage.setItem('apply_mode', applyMode);
     showMessage('সেটিংস সংরক্ষিত হয়েছে! ✓', 'success');
     setActiveModal('none');
-  }, [apiKey, selectedModel, docType, showMessage]);
+  }, [provider, providerSettings, docType, localOnly, liveCheck, applyMode, showMessage]);
 
   const toggleSection = useCallback((key: SectionKey) => {
     setCollapsedSections(prev => ({ ...prev, [key]: !prev[key] }));
@@ -161,10 +405,26 @@ function App() {
   }, []);
 
   // ============ REPLACE HANDLER ============
-  const handleReplace = useCallback(async (oldText: string, newText: string, position?: number) => {
-    const success = await replaceInWord(oldText, newText, position);
+  // ============ REVIEW DECISIONS ============
+  const findDecision = (
+    status: ReviewDecision['status'],
+    current: string,
+    category?: FindingCategory,
+    suggestion?: string
+  ): ReviewDecision | null => {
+    const target = normalize(current);
+    const finding = findingsRef.current.find(f => normalize(f.current) === target && (!category || f.category === category));
+    if (!finding) return null;
+    return toDecision(suggestion === undefined ? finding : { ...finding, suggestion }, status);
+  };
+
+  const handleReplace = useCallback(async (oldText: string, newText: string, position?: number, note?: string) => {
+    const success = await replaceInWord(oldText, newText, position, { mode: applyMode, note });
 
     if (success) {
+      const decision = findDecision('accepted', oldText, undefined, newText);
+      if (decision) setDecisions(prev => [...prev, decision]);
+
       const target = normalize(oldText.trim());
       const isNotMatch = (textToCheck: string) => normalize(textToCheck) !== target;
 
@@ -172,6 +432,8 @@ function App() {
       setToneSuggestions(prev => prev.filter(t => isNotMatch(t.current)));
       setStyleSuggestions(prev => prev.filter(s => isNotMatch(s.current)));
       setEuphonyImprovements(prev => prev.filter(e => isNotMatch(e.current)));
+      setNumeralIssues(prev => prev.filter(n => isNotMatch(n.current)));
+      setTerminologyIssues(prev => prev.filter(t => isNotMatch(t.current)));
       setPunctuationIssues(prev => prev.filter(p => isNotMatch(p.currentSentence)));
 
       setLanguageStyleMixing(prev => {
@@ -180,19 +442,159 @@ function App() {
         return filtered.length > 0 ? { ...prev, corrections: filtered } : null;
       });
 
-      showMessage(`সংশোধিত হয়েছে ✓`, 'success');
+      showMessage(applyMode === 'comment' ? 'মন্তব্য যোগ হয়েছে ✓' : `সংশোধিত হয়েছে ✓`, 'success');
     } else {
       showMessage(`শব্দটি ডকুমেন্টে খুঁজে পাওয়া যায়নি।`, 'error');
     }
-  }, [showMessage]);
+  }, [applyMode, showMessage]);
+
+  // ============ BULK ACCEPT & UNDO ============
+  const acceptBulk = useCallback(async (categories: BulkCategory[]) => {
+    const entries: Array<{ category: BulkCategory; item: object; edit: BulkEdit }> = [];
+    const add = (category: BulkCategory, item: object, edit: BulkEdit) => {
+      if (categories.includes(category)) entries.push({ category, item, edit });
+    };
+
+    const mixingItems = languageStyleMixing?.detected && selectedStyle === 'none' ? languageStyleMixing.corrections || [] : [];
+    terminologyIssues.forEach(t => add('terminology', t, { oldText: t.current, newText: t.suggestion, position: t.position, note: t.note }));
+    corrections.forEach(c => c.suggestions[0] && add('spelling', c, { oldText: c.wrong, newText: c.suggestions[0], position: c.position }));
+    mixingItems.forEach(c => add('mixing', c, { oldText: c.current, newText: c.suggestion, position: c.position, note: c.type }));
+    styleSuggestions.forEach(st => add('style', st, { oldText: st.current, newText: st.suggestion, position: st.position, note: st.type }));
+    toneSuggestions.forEach(t => add('tone', t, { oldText: t.current, newText: t.suggestion, position: t.position, note: t.reason }));
+    euphonyImprovements.forEach(e => e.suggestions[0] && add('euphony', e, { oldText: e.current, newText: e.suggestions[0], position: e.position, note: e.reason }));
+    punctuationIssues.forEach(p => add('punctuation', p, {
+      oldText: p.currentSentence,
+      newText: p.correctedSentence,
+      position: p.position,
+      note: `${p.issue} — ${p.explanation}`
+    }));
+    numeralIssues.forEach(n => add('numerals', n, { oldText: n.current, newText: n.suggestion, position: n.position, note: n.reason }));
+
+    if (entries.length === 0) {
+      showMessage('প্রয়োগ করার মতো কোনো সাজেশন নেই', 'error');
+      return;
+    }
+
+    setIsLoading(true);
+    setLoadingText('একসাথে প্রয়োগ করা হচ্ছে...');
+
+    try {
+      const result = await applyBulkEdits(entries.map(e => e.edit), { mode: applyMode });
+      if (!result || result.applied.length === 0) {
+        showMessage('সাজেশনগুলো ডকুমেন্টে খুঁজে পাওয়া যায়নি।', 'error');
+        return;
+      }
+
+      const applied = new Set(result.applied.map(i => entries[i].item));
+      const batchDecisions = result.applied
+        .map(i => findDecision('accepted', entries[i].edit.oldText, entries[i].category, entries[i].edit.newText))
+        .filter((d): d is ReviewDecision => d !== null);
+      setDecisions(prev => [...prev, ...batchDecisions]);
+      const keep = <T extends object>(list: T[]) => list.filter(item => !applied.has(item));
+      const removed = <T,>(category: BulkCategory) =>
+        entries.filter(e => e.category === category && applied.has(e.item)).map(e => e.item as T);
+
+      setCorrections(keep);
+      setToneSuggestions(keep);
+      setStyleSuggestions(keep);
+      setEuphonyImprovements(keep);
+      setPunctuationIssues(keep);
+      setNumeralIssues(keep);
+      setTerminologyIssues(keep);
+      setLanguageStyleMixing(prev => {
+        if (!prev || !prev.corrections) return prev;
+        const rest = keep(prev.corrections);
+        return rest.length > 0 ? { ...prev, corrections: rest } : null;
+      });
+
+      if (result.undo) {
+        const label = categories.length === ALL_BULK_CATEGORIES.length
+          ? 'সবকিছু'
+          : categories.map(c => BULK_LABELS[c]).join(', ');
+        const batch: UndoBatch = {
+          label,
+          undo: result.undo,
+          removed: {
+            corrections: removed<Correction>('spelling'),
+            tones: removed<ToneSuggestion>('tone'),
+            styles: removed<StyleSuggestion>('style'),
+            mixing: removed<StyleMixingCorrection>('mixing'),
+            punctuation: removed<PunctuationIssue>('punctuation'),
+            euphony: removed<EuphonyImprovement>('euphony'),
+            numerals: removed<NumeralIssue>('numerals'),
+            terminology: removed<TerminologyIssue>('terminology')
+          },
+          mixingMeta: languageStyleMixing,
+          decisions: batchDecisions
+        };
+        setUndoStack(prev => [...prev.slice(-(MAX_UNDO_BATCHES - 1)), batch]);
+      }
+
+      const skipped = entries.length - result.applied.length;
+      showMessage(
+        `${result.applied.length}টি পরিবর্তন একসাথে প্রয়োগ হয়েছে ✓${skipped > 0 ? ` (${skipped}টি পাওয়া যায়নি বা অন্যটির সাথে মিলে গেছে)` : ''}`,
+        'success'
+      );
+    } finally {
+      setIsLoading(false);
+      setLoadingText('');
+    }
+  }, [
+    corrections, toneSuggestions, styleSuggestions, punctuationIssues, euphonyImprovements, languageStyleMixing,
+    numeralIssues, terminologyIssues, selectedStyle, applyMode, showMessage
+  ]);
+
+  const undoLastBatch = useCallback(async () => {
+    const batch = undoStack[undoStack.length - 1];
+    if (!batch) return;
+
+    setIsLoading(true);
+    setLoadingText('আগের অবস্থায় ফেরানো হচ্ছে...');
+
+    try {
+      // প্রয়োগের মোড অনুযায়ী: উল্টো edit, রিভিশন বাতিল বা মন্তব্য মোছা
+      const undone = await undoBulkEdits(batch.undo);
+      if (!undone) {
+        showMessage('ফেরত আনা যায়নি — ডকুমেন্ট বদলে গেছে।', 'error');
+        return;
+      }
+
+      const restore = <T extends { position?: number }>(list: T[], items: T[]) =>
+        mergeListResults([{ items: list, wordOffset: 0 }, { items, wordOffset: 0 }]);
+      const { removed } = batch;
+
+      setUndoStack(prev => prev.slice(0, -1));
+      setDecisions(prev => prev.filter(d => !batch.decisions.includes(d)));
+      setCorrections(prev => restore(prev, removed.corrections));
+      setToneSuggestions(prev => restore(prev, removed.tones));
+      setStyleSuggestions(prev => restore(prev, removed.styles));
+      setPunctuationIssues(prev => restore(prev, removed.punctuation));
+      setEuphonyImprovements(prev => restore(prev, removed.euphony));
+      setNumeralIssues(prev => restore(prev, removed.numerals));
+      setTerminologyIssues(prev => restore(prev, removed.terminology));
+      if (removed.mixing.length > 0) {
+        setLanguageStyleMixing(prev => prev
+          ? { ...prev, corrections: restore(prev.corrections || [], removed.mixing) }
+          : batch.mixingMeta && { ...batch.mixingMeta, corrections: removed.mixing });
+      }
+
+      showMessage(`"${batch.label}" — ${undone}টি পরিবর্তন ফেরত আনা হয়েছে ↩️`, 'success');
+    } finally {
+      setIsLoading(false);
+      setLoadingText('');
+    }
+  }, [undoStack, showMessage]);
 
   // ============ DISMISS HANDLER ============
   const dismissSuggestion = useCallback((
-    type: 'spelling' | 'tone' | 'style' | 'mixing' | 'punct' | 'euphony',
+    type: 'spelling' | 'tone' | 'style' | 'mixing' | 'punct' | 'euphony' | 'numeral' | 'terminology',
     textToDismiss: string
   ) => {
     const target = normalize(textToDismiss);
     const isNotMatch = (t: string) => normalize(t) !== target;
+    const category: FindingCategory = type === 'punct' ? 'punctuation' : type === 'numeral' ? 'numerals' : type;
+    const decision = findDecision('dismissed', textToDismiss, category);
+    if (decision) setDecisions(prev => [...prev, decision]);
 
     switch (type) {
       case 'spelling':
@@ -217,65 +619,230 @@ function App() {
       case 'euphony':
         setEuphonyImprovements(prev => prev.filter(e => isNotMatch(e.current)));
         break;
+      case 'numeral':
+        setNumeralIssues(prev => prev.filter(n => isNotMatch(n.current)));
+        break;
+      case 'terminology':
+        setTerminologyIssues(prev => prev.filter(t => isNotMatch(t.current)));
+        break;
     }
   }, []);
 
-  // ============ API LOGIC (OPTIMIZED & PARALLEL) ============
-  
-  // 1. Main Check Helper
-  const performMainCheck = async (text: string) => {
-    const prompt = buildMainPrompt(text, docType);
-    const result = await callGeminiJson(prompt, apiKey, selectedModel, { temperature: 0.1 });
-    if (!result) return null;
+  // ============ DICTIONARY HANDLERS ============
+  const updateDictionary = useCallback((next: UserDictionary) => {
+    setDictionary(next);
+    saveDictionary(next);
+    setCorrections(prev => filterCorrections(prev, next));
+  }, []);
 
-    const spelling = (result.spellingErrors || []).map((e: any) => ({ ...e, position: e.position ?? 0 }));
-    setCorrections(spelling);
-    setPunctuationIssues((result.punctuationIssues || []).map((p: any) => ({ ...p, position: p.position ?? 0 })));
-    setEuphonyImprovements((result.euphonyImprovements || []).map((e: any) => ({ ...e, position: e.position ?? 0 })));
-    
-    let mixing = result.languageStyleMixing || null;
-    if (mixing && mixing.corrections) {
-      mixing.corrections = mixing.corrections.map((c: any) => ({ ...c, position: c.position ?? 0 }));
+  const addToDictionary = useCallback((word: string) => {
+    updateDictionary({ ...dictionary, words: addUnique(dictionary.words, word) });
+    showMessage(`"${word}" অভিধানে যোগ হয়েছে ✓`, 'success');
+  }, [dictionary, updateDictionary, showMessage]);
+
+  const ignoreAlways = useCallback((word: string) => {
+    updateDictionary({ ...dictionary, ignored: addUnique(dictionary.ignored, word) });
+    showMessage(`"${word}" আর দেখানো হবে না`, 'success');
+  }, [dictionary, updateDictionary, showMessage]);
+
+  const importDictionary = useCallback(async (file: File) => {
+    try {
+      const words = parseWordList(await readFileText(file));
+      const merged = addUnique(dictionary.words, ...words);
+      updateDictionary({ ...dictionary, words: merged });
+      showMessage(`${merged.length - dictionary.words.length}টি নতুন শব্দ যোগ হয়েছে ✓`, 'success');
+    } catch (error) {
+      console.error('Dictionary import error:', error);
+      showMessage('ফাইল পড়া যায়নি।', 'error');
     }
-    setLanguageStyleMixing(mixing);
+  }, [dictionary, updateDictionary, showMessage]);
+
+  const exportDictionary = useCallback(() => {
+    downloadFile('bhasha-mitra-dictionary.txt', serializeWordList(dictionary.words));
+  }, [dictionary]);
+
+  // ============ GLOSSARY HANDLERS ============
+  const updateGlossary = useCallback((next: GlossaryEntry[]) => {
+    setGlossary(next);
+    saveGlossary(next);
+    if (lastTextRef.current) setTerminologyIssues(checkTerminology(lastTextRef.current, next));
+  }, []);
+
+  const importGlossary = useCallback(async (file: File) => {
+    try {
+      const entries = parseGlossaryFile(file.name, await readFileText(file));
+      if (entries.length === 0) {
+        showMessage('ফাইলে কোনো বৈধ পরিভাষা পাওয়া যায়নি।', 'error');
+        return;
+      }
+      updateGlossary(mergeGlossary(glossary, entries));
+      showMessage(`${entries.length}টি পরিভাষা ইমপোর্ট হয়েছে ✓`, 'success');
+    } catch (error) {
+      console.error('Glossary import error:', error);
+      showMessage('ফাইল পড়া যায়নি — CSV বা JSON দিন।', 'error');
+    }
+  }, [glossary, updateGlossary, showMessage]);
+
+  const exportGlossary = useCallback(() => {
+    downloadFile('bhasha-mitra-glossary.csv', serializeGlossaryCsv(glossary), 'text/csv');
+  }, [glossary]);
 
-    // Stats
+  // ============ CUSTOM DOC TYPE HANDLERS ============
+  const updateCustomDocTypes = useCallback((next: CustomDocType[]) => {
+    setCustomDocTypes(next);
+    saveCustomDocTypes(next);
+  }, []);
+
+  const openDocTypeEditor = useCallback((item: CustomDocType) => {
+    setEditingDocType(item);
+    setActiveModal('docTypeEditor');
+  }, []);
+
+  const saveEditingDocType = useCallback(() => {
+    if (!editingDocType) return;
+    if (!editingDocType.label.trim() || !editingDocType.roleInstruction.trim()) {
+      showMessage('নাম ও AI নির্দেশনা আবশ্যক', 'error');
+      return;
+    }
+    updateCustomDocTypes(upsertCustomDocType(customDocTypes, editingDocType));
+    setEditingDocType(null);
+    setActiveModal('doctype');
+  }, [editingDocType, customDocTypes, updateCustomDocTypes, showMessage]);
+
+  // টাইপ বদলালে তার ডিফল্ট টোন বেছে নেওয়া (ফাঁকা হলে আগের টোনই থাকে)
+  const selectDocType = useCallback((id: DocType) => {
+    setDocType(id);
+    const { defaultTone } = resolveDocType(id, customDocTypes);
+    if (defaultTone) setSelectedTone(defaultTone);
+  }, [customDocTypes]);
+
+  const deleteCustomDocType = useCallback((id: string) => {
+    updateCustomDocTypes(customDocTypes.filter(t => t.id !== id));
+    if (docType === id) setDocType('generic');
+  }, [customDocTypes, docType, updateCustomDocTypes]);
+
+  const importCustomDocTypes = useCallback(async (file: File) => {
+    try {
+      const imported = parseCustomDocTypes(JSON.parse(await readFileText(file)));
+      updateCustomDocTypes(imported.reduce(upsertCustomDocType, customDocTypes));
+      showMessage(`${imported.length}টি ডকুমেন্ট টাইপ ইমপোর্ট হয়েছে ✓`, 'success');
+    } catch (error) {
+      console.error('Doc type import error:', error);
+      showMessage('JSON ফাইল পড়া যায়নি।', 'error');
+    }
+  }, [customDocTypes, updateCustomDocTypes, showMessage]);
+
+  const exportCustomDocTypes = useCallback(() => {
+    downloadFile('bhasha-mitra-doc-types.json', serializeCustomDocTypes(customDocTypes), 'application/json');
+  }, [customDocTypes]);
+
+  // ============ API LOGIC (OPTIMIZED & PARALLEL) ============
+  
+  // 0. Chunk Runner (প্যারাগ্রাফ-ভিত্তিক ক্যাশ, বাকিগুলো ভাগ করে পাঠানো, প্রগ্রেস সহ)
+  const runChunked = async <T,>(
+    units: TextChunk[],
+    buildPrompt: (chunkText: string) => string,
+    validate: (raw: unknown) => T | null,
+    temperature: number,
+    force: boolean,
+    unitContext?: (chunkText: string) => unknown
+  ) => {
+    return runCachedAnalysis(units, {
+      config: aiConfig,
+      buildPrompt,
+      validate,
+      temperature,
+      unitContext,
+      force,
+      onPlanned: requests => setChunkProgress(prev => prev ? { ...prev, total: prev.total + requests } : prev),
+      onChunkDone: () => setChunkProgress(prev => prev ? { ...prev, done: prev.done + 1 } : prev)
+    });
+  };
+
+  const updateStats = (text: string, errorCount: number) => {
     const words = text.trim().split(/\s+/).filter(Boolean).length;
-    const errorCount = spelling.length;
     setStats({
       totalWords: words,
       errorCount,
       accuracy: words > 0 ? Math.round(((words - errorCount) / words) * 100) : 100
     });
+    setReadability(words > 0 ? computeReadability(text) : null);
+  };
+
+  // 1. Main Check Helper (লোকাল ইঞ্জিনের ফলাফলের সাথে AI ফলাফল একত্র হয়)
+  const performMainCheck = async (
+    text: string,
+    units: TextChunk[],
+    localCorrections: Correction[],
+    force: boolean,
+    kept: MainCheckResponse | null = null
+  ) => {
+    const allowed = protectedWords(dictionary);
+    // চাঙ্কে থাকা অভিধান-শব্দ ও পরিভাষা প্রম্পটে যায়, তাই unit এর ক্যাশ key তেও
+    const promptLists = (chunkText: string) => ({
+      words: wordsPresentIn(chunkText, allowed),
+      terms: glossaryEntriesIn(chunkText, glossary)
+    });
+    const parts = await runChunked(
+      units,
+      chunkText => {
+        const { words, terms } = promptLists(chunkText);
+        return buildMainPrompt(chunkText, docCfg, words, terms);
+      },
+      validateMainResponse,
+      0.1,
+      force,
+      promptLists
+    );
+    if (!kept && parts.every(p => !p.result)) return localCorrections;
+    const result = mergeMainResults([{ result: kept, wordOffset: 0 }, ...parts]);
+
+    // গ্লসারির বিরোধী AI সাজেশন বাদ (ক্যাশ থেকে আসা পুরনো ফলাফলেও)
+    const spelling = filterAlternativesByGlossary(
+      filterCorrections(mergeCorrections(localCorrections, result.spellingErrors), dictionary),
+      c => c.wrong,
+      glossary
+    );
+    const mixing = result.languageStyleMixing;
+    setCorrections(spelling);
+    setPunctuationIssues(result.punctuationIssues);
+    setEuphonyImprovements(filterAlternativesByGlossary(result.euphonyImprovements, e => e.current, glossary));
+    setLanguageStyleMixing(mixing?.corrections ? { ...mixing, corrections: filterByGlossary(mixing.corrections, glossary) } : mixing);
+
+    updateStats(text, spelling.length);
 
     return spelling;
   };
 
   // 2. Tone Check Helper
-  const performToneCheck = async (text: string) => {
-    const prompt = buildTonePrompt(text, selectedTone);
-    const result = await callGeminiJson(prompt, apiKey, selectedModel, { temperature: 0.2 });
-    if (!result) return null;
-
-    const tones = (result.toneConversions || []).map((t: any) => ({ ...t, position: t.position ?? 0 }));
+  const performToneCheck = async (units: TextChunk[], force: boolean, kept: ToneSuggestion[] = []) => {
+    const parts = await runChunked(units, chunkText => buildTonePrompt(chunkText, selectedTone), validateToneResponse, 0.2, force);
+    if (kept.length === 0 && parts.every(p => !p.result)) return null;
+
+    const tones = filterByGlossary(mergeListResults([
+      { items: kept, wordOffset: 0 },
+      ...parts.map(p => ({ items: p.result?.toneConversions, wordOffset: p.wordOffset }))
+    ]), glossary);
     setToneSuggestions(tones);
     return tones;
   };
 
   // 3. Style Check Helper
-  const performStyleCheck = async (text: string) => {
-    const prompt = buildStylePrompt(text, selectedStyle);
-    const result = await callGeminiJson(prompt, apiKey, selectedModel, { temperature: 0.2 });
-    if (!result) return null;
-
-    const styles = (result.styleConversions || []).map((s: any) => ({ ...s, position: s.position ?? 0 }));
+  const performStyleCheck = async (units: TextChunk[], force: boolean, kept: StyleSuggestion[] = []) => {
+    const parts = await runChunked(units, chunkText => buildStylePrompt(chunkText, selectedStyle), validateStyleResponse, 0.2, force);
+    if (kept.length === 0 && parts.every(p => !p.result)) return null;
+
+    const styles = filterByGlossary(mergeListResults([
+      { items: kept, wordOffset: 0 },
+      ...parts.map(p => ({ items: p.result?.styleConversions, wordOffset: p.wordOffset }))
+    ]), glossary);
     setStyleSuggestions(styles);
     return styles;
   };
 
   // 4. Content Analysis Helper
-  const analyzeContentLogic = async (text: string) => {
-    const cfg = DOC_TYPE_CONFIG[docType];
+  const analyzeContentLogic = async (text: string, force: boolean) => {
+    const cfg = docCfg;
     const prompt = `
 Role: ${cfg.roleInstruction}
 Task: Analyze the content structure briefly.
@@ -290,13 +857,189 @@ OUTPUT JSON:
   "suggestions": ["Suggestion 1 in Bangla"]
 }
 `;
-    const result = await callGeminiJson(prompt, apiKey, selectedModel, { temperature: 0.4 });
+    const result = await callAIJsonCached(prompt, {
+      config: aiConfig,
+      validate: validateContentAnalysis,
+      temperature: 0.4,
+      force
+    });
     if (result) setContentAnalysis(result);
   };
 
+  // 4b. Numeral Check (লোকাল — সংখ্যা, তারিখ, মুদ্রা)
+  const runNumeralCheck = (text: string, override: NumberConvention | null = numberConventionOverride) => {
+    const convention = override ?? docCfg.numberConvention ?? detectConvention(text);
+    lastTextRef.current = text;
+    setActiveConvention(convention);
+    setNumeralIssues(checkNumerals(text, convention));
+  };
+
+  // 4c. Terminology Check (লোকাল — গ্লসারির নিষিদ্ধ রূপ)
+  const runTerminologyCheck = (text: string) => {
+    setTerminologyIssues(checkTerminology(text, glossary));
+  };
+
+  // 4d. Style Map (লোকাল — পুরো ডকুমেন্টের প্রতিটি প্যারাগ্রাফ)
+  const refreshStyleMap = async () => {
+    setStyleMap(classifyParagraphs(await getDocumentParagraphs()));
+  };
+
+  // 5. Highlight Items Helper
+  const toHighlightItems = (spelling: Correction[], tones: ToneSuggestion[], styles: StyleSuggestion[]) => {
+    const items: Array<{ text: string; color: string; position?: number }> = [];
+    spelling.forEach(i => items.push({ text: i.wrong, color: '#fee2e2', position: i.position }));
+    tones.forEach(i => items.push({ text: i.current, color: '#fef3c7', position: i.position }));
+    styles.forEach(i => items.push({ text: i.current, color: '#ccfbf1', position: i.position }));
+    return items;
+  };
+
+  // 6. Incremental Check (শুধু নতুন/বদলানো প্যারাগ্রাফ; বাকিগুলোর ফলাফল ও হাইলাইট যেমন আছে)
+  const checkChangedParagraphs = async (text: string, snapshot: CheckSnapshot, diff: SnapshotDiff) => {
+    setIsLoading(true);
+    setLoadingText('পরিবর্তিত অংশ বিশ্লেষণ করা হচ্ছে...');
+    snapshotRef.current = null;
+    setUndoStack([]);
+    setViewingHistory(null);
+    apiScheduler.cancelAll();
+
+    // অপরিবর্তিত প্যারাগ্রাফের বর্তমান ফলাফল (গ্রহণ/বাতিল করা বাদে) নতুন position এ
+    const kept: MainCheckResponse = {
+      spellingErrors: carryOver(corrections, diff, c => c.wrong),
+      punctuationIssues: carryOver(punctuationIssues, diff, p => p.currentSentence),
+      euphonyImprovements: carryOver(euphonyImprovements, diff, e => e.current),
+      languageStyleMixing: languageStyleMixing?.detected
+        ? { ...languageStyleMixing, corrections: carryOver(languageStyleMixing.corrections || [], diff, c => c.current) }
+        : null
+    };
+    const keptTones = carryOver(toneSuggestions, diff, t => t.current);
+    const keptStyles = carryOver(styleSuggestions, diff, s => s.current);
+    const isInChanged = (item: { position?: number }) =>
+      item.position !== undefined && diff.isChanged(item.position);
+
+    const localCorrections = filterCorrections(runLocalSpellCheck(text), dictionary).filter(isInChanged);
+    const initialSpelling = mergeCorrections(localCorrections, kept.spellingErrors);
+    setCorrections(initialSpelling);
+    setPunctuationIssues(kept.punctuationIssues);
+    setEuphonyImprovements(kept.euphonyImprovements);
+    setLanguageStyleMixing(kept.languageStyleMixing);
+    setToneSuggestions(keptTones);
+    setStyleSuggestions(keptStyles);
+    updateStats(text, initialSpelling.length);
+    runNumeralCheck(text);
+    runTerminologyCheck(text);
+    await refreshStyleMap();
+
+    await clearHighlightsInParagraphs(diff.staleTexts);
+    setChunkProgress({ done: 0, total: 0 });
+
+    try {
+      const [spellingResult, toneResult, styleResult] = await Promise.all([
+        performMainCheck(text, diff.changedUnits, localCorrections, false, kept),
+        selectedTone ? performToneCheck(diff.changedUnits, false, keptTones) : Promise.resolve([]),
+        selectedStyle !== 'none' ? performStyleCheck(diff.changedUnits, false, keptStyles) : Promise.resolve([]),
+        analyzeContentLogic(text, false)
+      ]);
+
+      setLoadingText('হাইলাইট করা হচ্ছে...');
+      const highlightItems = toHighlightItems(spellingResult || [], toneResult || [], styleResult || [])
+        .filter(isInChanged);
+      if (highlightItems.length > 0) {
+        await highlightMultipleInWord(highlightItems);
+      }
+
+      snapshotRef.current = snapshot;
+      pendingHistoryRef.current = true;
+    } catch (error: any) {
+      if (isAbortError(error)) return;
+      console.error(error);
+      showMessage(error?.message || 'ত্রুটি হয়েছে।', 'error');
+    } finally {
+      setIsLoading(false);
+      setLoadingText('');
+      setChunkProgress(null);
+    }
+  };
+
+  // 7. Live Check (কার্সারের প্যারাগ্রাফ — শুধু বানান ও বিরামচিহ্ন নতুন করে, বাকিগুলো শুধু সরানো)
+  const checkLiveParagraph = async ({ text, wordOffset }: LiveParagraph) => {
+    const localCorrections = filterCorrections(runLocalSpellCheck(text), dictionary);
+    let aiResult: MainCheckResponse | null = null;
+    if (!localOnly && (!PROVIDERS[provider].requiresKey || activeSettings.apiKey)) {
+      const allowed = wordsPresentIn(text, protectedWords(dictionary));
+      aiResult = await callAIJsonCached(buildLivePrompt(text, docCfg, allowed), {
+        config: aiConfig,
+        validate: validateMainResponse,
+        temperature: 0.1
+      });
+    }
+
+    const spelling = offsetPositions(
+      filterAlternativesByGlossary(
+        filterCorrections(mergeCorrections(localCorrections, aiResult?.spellingErrors || []), dictionary),
+        c => c.wrong,
+        glossary
+      ),
+      wordOffset
+    );
+    const punctuation = offsetPositions(aiResult?.punctuationIssues || [], wordOffset);
+
+    // প্যারাগ্রাফের শব্দ সংখ্যা বদলালে পরের সব position সরে যায়
+    const { edit, snapshot } = applyParagraphEdit(snapshotRef.current, text, wordOffset);
+    snapshotRef.current = snapshot;
+    const inText = (current: string) => normalize(text).includes(normalize(current));
+    const stillInText = <T extends { current: string }>(item: T) => inText(item.current);
+    const end = wordOffset + countWords(text);
+    const inParagraph = (item: { position?: number }) =>
+      item.position !== undefined && item.position >= wordOffset && item.position < end;
+
+    setCorrections(prev => mergeListResults([
+      { items: rebaseItems(prev, edit, c => c.wrong), wordOffset: 0 },
+      { items: spelling, wordOffset: 0 }
+    ]));
+    setPunctuationIssues(prev => aiResult
+      ? mergeListResults([
+        { items: rebaseItems(prev, edit, p => p.currentSentence), wordOffset: 0 },
+        { items: punctuation, wordOffset: 0 }
+      ])
+      : rebaseItems(prev, edit, p => p.currentSentence, p => inText(p.currentSentence)));
+    setEuphonyImprovements(prev => rebaseItems(prev, edit, e => e.current, stillInText));
+    setLanguageStyleMixing(prev => prev?.corrections
+      ? { ...prev, corrections: rebaseItems(prev.corrections, edit, c => c.current, stillInText) }
+      : prev);
+    setNumeralIssues(prev => rebaseItems(prev, edit, n => n.current, stillInText));
+    setTerminologyIssues(prev => rebaseItems(prev, edit, t => t.current, stillInText));
+
+    const tones = rebaseItems(toneSuggestions, edit, t => t.current, stillInText);
+    const styles = rebaseItems(styleSuggestions, edit, s => s.current, stillInText);
+    setToneSuggestions(tones);
+    setStyleSuggestions(styles);
+
+    await clearHighlightsInParagraphs([text]);
+    const highlightItems = toHighlightItems(spelling, tones.filter(inParagraph), styles.filter(inParagraph));
+    if (highlightItems.length > 0) {
+      await highlightMultipleInWord(highlightItems);
+    }
+  };
+
+  // লাইভ মোড — ইভেন্ট হ্যান্ডলার সবসময় সর্বশেষ state দেখে
+  const liveHandlerRef = useRef(checkLiveParagraph);
+  liveHandlerRef.current = checkLiveParagraph;
+  const isLoadingRef = useRef(isLoading);
+  isLoadingRef.current = isLoading;
+
+  useEffect(() => {
+    if (!liveCheck) return;
+    const checker = createLiveChecker({
+      onParagraph: paragraph => liveHandlerRef.current(paragraph),
+      isBusy: () => isLoadingRef.current
+    });
+    checker.start();
+    return () => checker.stop();
+  }, [liveCheck]);
+
   // ============ MAIN EXECUTION FUNCTION ============
-  const checkSpelling = useCallback(async () => {
-    if (!apiKey) {
+  const checkSpelling = useCallback(async (force: boolean = false) => {
+    if (!localOnly && PROVIDERS[provider].requiresKey && !activeSettings.apiKey) {
       showMessage('অনুগ্রহ করে প্রথমে API Key দিন', 'error');
       setActiveModal('settings');
       return;
@@ -307,44 +1050,90 @@ OUTPUT JSON:
       showMessage('টেক্সট নির্বাচন করুন বা কার্সার রাখুন', 'error');
       return;
     }
+    if (looksLikeBijoy(text)) {
+      showMessage('লেখাটি বিজয় (SutonnyMJ) এনকোডিং এ মনে হচ্ছে — আগে মেনু থেকে ইউনিকোডে রূপান্তর করুন', 'error');
+      setActiveModal('bijoy');
+      return;
+    }
+
+    // আগের পরীক্ষার সাথে মিলিয়ে দেখা — সেটিংস একই থাকলে শুধু বদলানো প্যারাগ্রাফ
+    const units = splitIntoUnits(text);
+    const scope = JSON.stringify([docCfg, selectedTone, selectedStyle, provider, activeSettings.model, dictionary, glossary]);
+    const snapshot = takeSnapshot(units, scope);
+    const previous = snapshotRef.current;
+    const diff = !force && !localOnly && previous && previous.scope === scope
+      ? diffSnapshots(previous, snapshot)
+      : null;
+
+    if (diff) {
+      if (diff.staleTexts.length === 0) {
+        showMessage('আগের পরীক্ষার পর কোনো পরিবর্তন হয়নি ✓', 'success');
+        return;
+      }
+      await checkChangedParagraphs(text, snapshot, diff);
+      return;
+    }
 
     setIsLoading(true);
     setLoadingText('বিশ্লেষণ করা হচ্ছে...'); 
 
     // Reset UI
+    snapshotRef.current = null;
+    setUndoStack([]);
+    setViewingHistory(null);
     setCorrections([]);
     setToneSuggestions([]);
     setStyleSuggestions([]);
     setLanguageStyleMixing(null);
     setPunctuationIssues([]);
     setEuphonyImprovements([]);
+    setNumeralIssues([]);
+    setTerminologyIssues([]);
+    setDecisions([]);
+    setStyleMap(null);
     setContentAnalysis(null);
     setStats({ totalWords: 0, errorCount: 0, accuracy: 100 });
+    setReadability(null);
     await clearHighlights();
 
+    // আগের চেকের চলমান রিকোয়েস্ট বাতিল
+    apiScheduler.cancelAll();
+
+    // অফলাইন নিয়মভিত্তিক পরীক্ষা — সাথে সাথে দেখানো হয়
+    const localCorrections = filterCorrections(runLocalSpellCheck(text), dictionary);
+    setCorrections(localCorrections);
+    updateStats(text, localCorrections.length);
+    runNumeralCheck(text);
+    runTerminologyCheck(text);
+    await refreshStyleMap();
+
+    if (localOnly) {
+      if (localCorrections.length > 0) {
+        await highlightMultipleInWord(localCorrections.map(c => ({ text: c.wrong, color: '#fee2e2', position: c.position })));
+      }
+      pendingHistoryRef.current = true;
+      setIsLoading(false);
+      setLoadingText('');
+      return;
+    }
+
+    setChunkProgress({ done: 0, total: 0 });
+
     try {
-      // Parallel Execution with Staggered Start (Rate Limit Safe)
+      // Parallel Execution (shared scheduler handles concurrency & rate limits)
       const tasks: Promise<any>[] = [];
 
-      // 1. Main Check (Starts immediately)
-      tasks.push(performMainCheck(text));
+      // 1. Main Check
+      tasks.push(performMainCheck(text, units, localCorrections, force));
 
-      // 2. Tone Check (Starts after 200ms)
-      if (selectedTone) {
-        tasks.push(new Promise(resolve => setTimeout(resolve, 200)).then(() => performToneCheck(text)));
-      } else {
-        tasks.push(Promise.resolve([]));
-      }
+      // 2. Tone Check
+      tasks.push(selectedTone ? performToneCheck(units, force) : Promise.resolve([]));
 
-      // 3. Style Check (Starts after 400ms)
-      if (selectedStyle !== 'none') {
-        tasks.push(new Promise(resolve => setTimeout(resolve, 400)).then(() => performStyleCheck(text)));
-      } else {
-        tasks.push(Promise.resolve([]));
-      }
+      // 3. Style Check
+      tasks.push(selectedStyle !== 'none' ? performStyleCheck(units, force) : Promise.resolve([]));
 
-      // 4. Content Analysis (Starts after 600ms)
-      tasks.push(new Promise(resolve => setTimeout(resolve, 600)).then(() => analyzeContentLogic(text)));
+      // 4. Content Analysis
+      tasks.push(analyzeContentLogic(text, force));
 
       // Wait for all results
       const results = await Promise.all(tasks);
@@ -356,24 +1145,327 @@ OUTPUT JSON:
       // Batch Highlight
       setLoadingText('হাইলাইট করা হচ্ছে...');
       
-      const highlightItems: Array<{ text: string; color: string; position?: number }> = [];
-      
-      spellingResult.forEach((i: Correction) => highlightItems.push({ text: i.wrong, color: '#fee2e2', position: i.position }));
-      toneResult.forEach((i: ToneSuggestion) => highlightItems.push({ text: i.current, color: '#fef3c7', position: i.position }));
-      styleResult.forEach((i: StyleSuggestion) => highlightItems.push({ text: i.current, color: '#ccfbf1', position: i.position }));
+      const highlightItems = toHighlightItems(spellingResult, toneResult, styleResult);
 
       if (highlightItems.length > 0) {
         await highlightMultipleInWord(highlightItems);
       }
 
+      snapshotRef.current = snapshot;
+      pendingHistoryRef.current = true;
     } catch (error: any) {
+      if (isAbortError(error)) return;
       console.error(error);
       showMessage(error?.message || 'ত্রুটি হয়েছে।', 'error');
     } finally {
       setIsLoading(false);
       setLoadingText('');
+      setChunkProgress(null);
+    }
+  }, [
+    provider, activeSettings, localOnly, dictionary, glossary, docCfg, selectedTone, selectedStyle, showMessage,
+    corrections, toneSuggestions, styleSuggestions, punctuationIssues, euphonyImprovements, languageStyleMixing,
+    numberConventionOverride
+  ]);
+
+  // ============ REWRITE HANDLERS ============
+  const startRewrite = useCallback(async (target: string = rewriteTarget) => {
+    const [kind, value] = target.split(':');
+    // বাংলিশ রূপান্তর লোকাল — AI শুধু ঐচ্ছিক যাচাইয়ে
+    const useAi = kind !== 'phonetic' || phoneticAi;
+
+    if (useAi && localOnly) {
+      showMessage('অফলাইন মোডে রূপান্তর করা যায় না', 'error');
+      return;
+    }
+    if (useAi && PROVIDERS[provider].requiresKey && !activeSettings.apiKey) {
+      showMessage('অনুগ্রহ করে প্রথমে API Key দিন', 'error');
+      setActiveModal('settings');
+      return;
+    }
+
+    const original = await getSelectedText();
+    if (!original.trim()) {
+      showMessage('রূপান্তরের জন্য প্রথমে টেক্সট সিলেক্ট করুন', 'error');
+      return;
+    }
+
+    const spans = kind === 'phonetic' ? detectBanglishSpans(original) : [];
+    if (kind === 'phonetic' && spans.length === 0) {
+      showMessage('সিলেকশনে রোমান হরফে লেখা বাংলা পাওয়া যায়নি', 'error');
+      return;
+    }
+
+    const buildPrompt = kind === 'tone'
+      ? (chunkText: string) => buildToneRewritePrompt(chunkText, value)
+      : (chunkText: string) => buildStyleRewritePrompt(chunkText, value);
+
+    setIsLoading(true);
+    setLoadingText('রূপান্তর করা হচ্ছে...');
+    setRewrite(null);
+
+    try {
+      const rewritten = kind === 'phonetic'
+        ? replaceSpans(original, useAi ? await refineTransliteration(spans, aiConfig) : spans)
+        : await rewriteText(original, buildPrompt, aiConfig);
+      const segments = diffWords(original, rewritten);
+      const hunks = diffHunks(segments);
+      if (hunks.length === 0) {
+        showMessage('কোনো পরিবর্তনের প্রয়োজন নেই ✓', 'success');
+        return;
+      }
+      setRewrite({ original, segments, accepted: hunks.map(h => h.id) });
+    } catch (error: any) {
+      if (isAbortError(error)) return;
+      console.error(error);
+      showMessage(error?.message || 'ত্রুটি হয়েছে।', 'error');
+    } finally {
+      setIsLoading(false);
+      setLoadingText('');
+    }
+  }, [provider, activeSettings, localOnly, rewriteTarget, phoneticAi, showMessage]);
+
+  const toggleHunk = useCallback((id: number) => {
+    setRewrite(prev => prev && {
+      ...prev,
+      accepted: prev.accepted.includes(id) ? prev.accepted.filter(a => a !== id) : [...prev.accepted, id]
+    });
+  }, []);
+
+  const setAllHunks = useCallback((accept: boolean) => {
+    setRewrite(prev => prev && { ...prev, accepted: accept ? diffHunks(prev.segments).map(h => h.id) : [] });
+  }, []);
+
+  const applyRewrite = useCallback(async () => {
+    if (!rewrite) return;
+    const hunks = diffHunks(rewrite.segments).filter(h => rewrite.accepted.includes(h.id));
+    if (hunks.length === 0) {
+      showMessage('কোনো পরিবর্তন গৃহীত হয়নি', 'error');
+      return;
+    }
+
+    const success = await applyHunksToSelection(
+      rewrite.original,
+      hunks,
+      applyDiff(rewrite.segments, rewrite.accepted),
+      { mode: applyMode }
+    );
+
+    if (success) {
+      snapshotRef.current = null;
+      setRewrite(null);
+      setActiveModal('none');
+      showMessage(`${hunks.length}টি পরিবর্তন প্রয়োগ হয়েছে ✓`, 'success');
+      if (styleMap) setStyleMap(classifyParagraphs(await getDocumentParagraphs()));
+    } else {
+      showMessage('সিলেকশন বদলে গেছে — আবার সিলেক্ট করে রূপান্তর করুন', 'error');
+    }
+  }, [rewrite, applyMode, styleMap, showMessage]);
+
+  const hasSuggestions = corrections.length + toneSuggestions.length + styleSuggestions.length + punctuationIssues.length +
+    euphonyImprovements.length + numeralIssues.length + terminologyIssues.length +
+    (languageStyleMixing?.corrections?.length ?? 0) > 0;
+
+  // ============ STYLE MAP HANDLERS ============
+  const mapTarget = selectedStyle !== 'none' ? selectedStyle : styleMap ? dominantStyle(styleMap) : null;
+  const STYLE_LABELS = { sadhu: 'সাধু', cholito: 'চলিত', mixed: 'মিশ্র', neutral: 'নিরপেক্ষ' };
+
+  const jumpToParagraph = async (entry: StyleMapEntry) => {
+    const text = await selectParagraph(entry.index, entry.text);
+    if (text === null) {
+      showMessage('ডকুমেন্ট বদলে গেছে — মানচিত্র নতুন করে তৈরি হলো', 'error');
+      await refreshStyleMap();
+    }
+    return text;
+  };
+
+  // প্যারাগ্রাফ সিলেক্ট করে রূপান্তর মডাল — AI থাকলে পুরো রূপান্তর, না থাকলে তালিকার শব্দগুলো লোকালি
+  const convertParagraph = async (entry: StyleMapEntry, target: 'sadhu' | 'cholito') => {
+    const original = await jumpToParagraph(entry);
+    if (original === null) return;
+
+    const rewriteKey = `style:${target}`;
+    setRewriteTarget(rewriteKey);
+    setRewrite(null);
+    setActiveModal('rewrite');
+
+    if (!localOnly && (!PROVIDERS[provider].requiresKey || activeSettings.apiKey)) {
+      await startRewrite(rewriteKey);
+      return;
+    }
+
+    const segments = diffWords(original, convertStyleLocally(original, target));
+    const hunks = diffHunks(segments);
+    if (hunks.length === 0) {
+      setActiveModal('none');
+      showMessage('লোকাল তালিকায় রূপান্তরের মতো শব্দ নেই — AI চালু করে চেষ্টা করুন', 'error');
+      return;
+    }
+    setRewrite({ original, segments, accepted: hunks.map(h => h.id) });
+  };
+
+  // ============ REPORT ============
+  const findings = useMemo(() => collectFindings({
+    corrections,
+    terminology: terminologyIssues,
+    tones: toneSuggestions,
+    styles: styleSuggestions,
+    mixing: languageStyleMixing?.detected && selectedStyle === 'none' ? languageStyleMixing.corrections || [] : [],
+    punctuation: punctuationIssues,
+    euphony: euphonyImprovements,
+    numerals: numeralIssues
+  }, lastTextRef.current), [
+    corrections, terminologyIssues, toneSuggestions, styleSuggestions, languageStyleMixing, selectedStyle,
+    punctuationIssues, euphonyImprovements, numeralIssues
+  ]);
+  findingsRef.current = findings;
+
+  const buildReport = (): AnalysisReport => ({
+    generatedAt: Date.now(),
+    docType: getDocTypeLabel(docType, customDocTypes),
+    tone: selectedTone ? getToneName(selectedTone) : '',
+    style: STYLE_OPTIONS.find(o => o.id === selectedStyle && o.id !== 'none')?.title ?? '',
+    provider: localOnly ? '' : PROVIDERS[provider].label,
+    model: localOnly ? '' : activeSettings.model,
+    stats,
+    readability,
+    contentAnalysis,
+    findings,
+    decisions
+  });
+
+  const exportReport = (format: 'html' | 'md' | 'json') => {
+    const report = buildReport();
+    const stamp = new Date(report.generatedAt).toISOString().slice(0, 10);
+    if (format === 'html') downloadFile(`bhasha-mitra-report-${stamp}.html`, buildReportHtml(report), 'text/html');
+    else if (format === 'md') downloadFile(`bhasha-mitra-report-${stamp}.md`, buildReportMarkdown(report), 'text/markdown');
+    else downloadFile(`bhasha-mitra-report-${stamp}.json`, buildReportJson(report), 'application/json');
+  };
+
+  const insertReport = async () => {
+    const success = await insertHtmlAtEnd(buildReportHtmlBody(buildReport()));
+    showMessage(success ? 'রিপোর্ট ডকুমেন্টের শেষে যোগ হয়েছে ✓' : 'রিপোর্ট যোগ করা যায়নি।', success ? 'success' : 'error');
+    if (success) setActiveModal('none');
+  };
+
+  // ============ HISTORY ============
+  // পরীক্ষা শেষ হলে (সব state আপডেটের পরে) ইতিহাসে সংরক্ষণ
+  useEffect(() => {
+    if (isLoading || !pendingHistoryRef.current) return;
+    pendingHistoryRef.current = false;
+    if (stats.totalWords === 0) return;
+
+    const entry: HistoryEntry = {
+      id: newHistoryId(),
+      docId,
+      title: lastTextRef.current.trim().split(/\r?\n|\r/)[0].slice(0, 60),
+      timestamp: Date.now(),
+      docType: getDocTypeLabel(docType, customDocTypes),
+      tone: selectedTone ? getToneName(selectedTone) : '',
+      style: STYLE_OPTIONS.find(o => o.id === selectedStyle && o.id !== 'none')?.title ?? '',
+      model: localOnly ? '' : activeSettings.model,
+      stats,
+      readability,
+      results: {
+        corrections,
+        toneSuggestions,
+        styleSuggestions,
+        languageStyleMixing,
+        punctuationIssues,
+        euphonyImprovements,
+        numeralIssues,
+        terminologyIssues,
+        contentAnalysis
+      }
+    };
+    setHistory(addHistoryEntry(entry));
+  }, [isLoading]);
+
+  const restoreHistoryEntry = async (entry: HistoryEntry) => {
+    const r = entry.results;
+    snapshotRef.current = null;
+    setUndoStack([]);
+    setDecisions([]);
+    setCorrections(r.corrections);
+    setToneSuggestions(r.toneSuggestions);
+    setStyleSuggestions(r.styleSuggestions);
+    setLanguageStyleMixing(r.languageStyleMixing);
+    setPunctuationIssues(r.punctuationIssues);
+    setEuphonyImprovements(r.euphonyImprovements);
+    setNumeralIssues(r.numeralIssues);
+    setTerminologyIssues(r.terminologyIssues);
+    setContentAnalysis(r.contentAnalysis);
+    setStats(entry.stats);
+    setReadability(entry.readability);
+    setViewingHistory(entry);
+    setActiveModal('none');
+    await clearHighlights();
+  };
+
+  const documentHistory = historyForDocument(history, docId);
+
+  // ============ READABILITY ============
+  const thresholds = docCfg.readability ?? DEFAULT_READABILITY;
+
+  // লম্বা বাক্য পুরোটা খোঁজা যায় না (Word search ২৫৫ অক্ষর) — প্রথম কয়েকটি শব্দ ও অবস্থান দিয়ে হাইলাইট
+  const highlightSentence = (sentence: SentenceInfo) =>
+    handleHighlight(sentence.text.split(/\s+/).slice(0, 6).join(' '), '#fde68a', sentence.position);
+
+  const percent = (n: number) => `${Math.round(n * 100)}%`;
+
+  // ============ NUMERAL HANDLERS ============
+  const changeConvention = (patch: Partial<NumberConvention>) => {
+    if (!activeConvention) return;
+    const next = { ...activeConvention, ...patch };
+    setNumberConventionOverride(next);
+    if (lastTextRef.current) runNumeralCheck(lastTextRef.current, next);
+  };
+
+  const insertAmountWords = async () => {
+    const words = amountToBanglaWords(amountInput);
+    if (!words) {
+      showMessage('সঠিক অঙ্ক লিখুন (যেমন ১,২৫,০০০.৫০)', 'error');
+      return;
+    }
+    const success = await insertAfterSelection(` (${words})`);
+    showMessage(success ? 'কথায় লেখা যোগ হয়েছে ✓' : 'ডকুমেন্টে যোগ করা যায়নি।', success ? 'success' : 'error');
+  };
+
+  // ============ BIJOY ⇄ UNICODE ============
+  const convertBijoyDocument = async () => {
+    localStorage.setItem('unicode_font', unicodeFont);
+    setIsLoading(true);
+    setLoadingText('বিজয় লেখা খোঁজা হচ্ছে...');
+    const count = await convertBijoyRuns(unicodeFont);
+    setIsLoading(false);
+    setLoadingText('');
+    if (count === null) showMessage('রূপান্তর করা যায়নি।', 'error');
+    else if (count === 0) showMessage('ডকুমেন্টে বিজয় ফন্টের (SutonnyMJ …) লেখা পাওয়া যায়নি', 'error');
+    else {
+      showMessage(`${count}টি শব্দ ইউনিকোডে রূপান্তর হয়েছে ✓`, 'success');
+      setActiveModal('none');
     }
-  }, [apiKey, selectedModel, docType, selectedTone, selectedStyle, showMessage]);
+  };
+
+  const convertToBijoy = async () => {
+    setIsLoading(true);
+    setLoadingText('বিজয়ে রূপান্তর হচ্ছে...');
+    const count = await convertSelectionToBijoy();
+    setIsLoading(false);
+    setLoadingText('');
+    if (count === null) showMessage('রূপান্তর করা যায়নি।', 'error');
+    else if (count === 0) showMessage('সিলেকশনে ইউনিকোড বাংলা পাওয়া যায়নি', 'error');
+    else showMessage(`${count}টি শব্দ বিজয়ে (SutonnyMJ) রূপান্তর হয়েছে ✓`, 'success');
+  };
+
+  const amountFromSelection = async () => {
+    const selected = (await getSelectedText()).trim();
+    if (!selected) {
+      showMessage('অঙ্কটি সিলেক্ট করুন', 'error');
+      return;
+    }
+    setAmountInput(selected);
+  };
 
   const shouldShowSection = (key: SectionKey) => {
     if (viewFilter === 'all') return true;
@@ -382,6 +1474,122 @@ OUTPUT JSON:
     return true;
   };
 
+  // ============ KEYBOARD NAVIGATION ============
+  // সাজেশনের পরিচয় — কার্ড আর findings দুটোতেই একই key
+  const navKey = (category: FindingCategory, current: string, position?: number) =>
+    `${category}|${normalize(current)}|${position ?? ''}`;
+
+  // ডকুমেন্টের ক্রমে (position অনুযায়ী), শুধু দৃশ্যমান সেকশনের
+  const navItems = findings.filter(f => shouldShowSection(f.category));
+  const focusedIndex = navItems.findIndex(f => navKey(f.category, f.current, f.position) === focusedNav);
+
+  const goToFinding = (index: number) => {
+    const f = navItems[index];
+    if (!f) return;
+    setFocusedNav(navKey(f.category, f.current, f.position));
+    setCollapsedSections(prev => (prev[f.category] ? { ...prev, [f.category]: false } : prev));
+    selectInWord(f.current, f.position);
+  };
+
+  const goToNext = () => goToFinding(focusedIndex < 0 ? 0 : Math.min(focusedIndex + 1, navItems.length - 1));
+  const goToPrev = () => goToFinding(focusedIndex < 0 ? navItems.length - 1 : Math.max(focusedIndex - 1, 0));
+
+  const DISMISS_TYPES: Record<FindingCategory, Parameters<typeof dismissSuggestion>[0]> = {
+    spelling: 'spelling', terminology: 'terminology', tone: 'tone', style: 'style',
+    mixing: 'mixing', punctuation: 'punct', euphony: 'euphony', numerals: 'numeral'
+  };
+
+  // গ্রহণ/বাতিলের পর পরের সাজেশনে (শেষটি হলে আগেরটিতে)
+  const focusNeighbour = (index: number) => {
+    const next = navItems[index + 1] ?? navItems[index - 1];
+    setFocusedNav(next ? navKey(next.category, next.current, next.position) : null);
+    if (next) selectInWord(next.current, next.position);
+  };
+
+  const acceptFocused = async () => {
+    const f = navItems[focusedIndex];
+    if (!f || !f.suggestion) return;
+    await handleReplace(f.current, f.suggestion, f.position, f.category === 'spelling' ? undefined : f.explanation);
+    focusNeighbour(focusedIndex);
+  };
+
+  const dismissFocused = () => {
+    const f = navItems[focusedIndex];
+    if (!f) return;
+    dismissSuggestion(DISMISS_TYPES[f.category], f.current);
+    focusNeighbour(focusedIndex);
+  };
+
+  // কার্ডে ক্লিক — Word এ ঠিক সেই রেঞ্জ সিলেক্ট (কার্ডের বাটনে ক্লিক নয়)
+  const navProps = (className: string, category: FindingCategory, current: string, position?: number) => {
+    const key = navKey(category, current, position);
+    return {
+      className: key === focusedNav ? `${className} focused` : className,
+      'data-nav': key,
+      onClick: (e: MouseEvent) => {
+        if ((e.target as HTMLElement).closest('button')) return;
+        setFocusedNav(key);
+        selectInWord(current, position);
+      }
+    };
+  };
+
+  // keydown লিসেনার সবসময় সর্বশেষ হ্যান্ডলার দেখে
+  const navHandlersRef = useRef({ goToNext, goToPrev, acceptFocused, dismissFocused });
+  navHandlersRef.current = { goToNext, goToPrev, acceptFocused, dismissFocused };
+  const navEnabledRef = useRef(false);
+  navEnabledRef.current = activeModal === 'none' && navItems.length > 0;
+
+  useEffect(() => {
+    const onKeyDown = (e: KeyboardEvent) => {
+      if (!navEnabledRef.current || e.ctrlKey || e.metaKey || e.altKey) return;
+      const target = e.target as HTMLElement;
+      if (target.isContentEditable || ['INPUT', 'TEXTAREA', 'SELECT', 'BUTTON'].includes(target.tagName)) return;
+
+      const handlers = navHandlersRef.current;
+      const actions: Record<string, () => void> = {
+        ArrowDown: handlers.goToNext, j: handlers.goToNext,
+        ArrowUp: handlers.goToPrev, k: handlers.goToPrev,
+        Enter: handlers.acceptFocused, a: handlers.acceptFocused,
+        Delete: handlers.dismissFocused, Backspace: handlers.dismissFocused, d: handlers.dismissFocused,
+        Escape: () => setFocusedNav(null)
+      };
+      const action = actions[e.key];
+      if (!action) return;
+      e.preventDefault();
+      action();
+    };
+    window.addEventListener('keydown', onKeyDown);
+    return () => window.removeEventListener('keydown', onKeyDown);
+  }, []);
+
+  // ফোকাস করা কার্ড প্যানেলে দৃশ্যমান রাখা
+  useEffect(() => {
+    if (!focusedNav) return;
+    document.querySelector(`[data-nav="${CSS.escape(focusedNav)}"]`)?.scrollIntoView({ block: 'nearest', behavior: 'smooth' });
+  }, [focusedNav]);
+
+  // Word এ কার্সার সরলে তার নিচের সাজেশন ফোকাস (Word সিলেকশন না বদলে)
+  const navItemsRef = useRef(navItems);
+  navItemsRef.current = navItems;
+  const hasNavItems = navItems.length > 0;
+
+  useEffect(() => {
+    if (!hasNavItems) return;
+    const sync = createCursorSync({
+      onCursor: wordIndex => {
+        const f = navItemsRef.current.find(item =>
+          item.position !== undefined &&
+          wordIndex >= item.position &&
+          wordIndex < item.position + Math.max(countWords(item.current), 1)
+        );
+        if (f) setFocusedNav(navKey(f.category, f.current, f.position));
+      }
+    });
+    sync.start();
+    return () => sync.stop();
+  }, [hasNavItems]);
+
   // ============ UI RENDER ============
   return (
     <div className="app-container">
@@ -398,9 +1606,11 @@ OUTPUT JSON:
 
         <div className="toolbar">
           <div className="toolbar-top">
-            <button onClick={checkSpelling} disabled={isLoading} className="btn-check">
+            <button onClick={() => checkSpelling()} disabled={isLoading} className="btn-check">
               {isLoading ? '⏳ অপেক্ষা করুন...' : '🔍 পরীক্ষা করুন'}
             </button>
+            <button onClick={() => checkSpelling(true)} disabled={isLoading} className="btn-recheck" title="পুরো টেক্সট নতুন করে পরীক্ষা (ক্যাশ উপেক্ষা করে)">🔄</button>
+            {liveCheck && <span className="live-badge" title="টাইপ করার সময় কার্সারের প্যারাগ্রাফ পরীক্ষা হচ্ছে">● লাইভ</span>}
           </div>
           <div className="toolbar-bottom">
             <div className="view-filter">
@@ -427,7 +1637,7 @@ OUTPUT JSON:
           )}
           {docType && (
             <span className="selection-tag doc-type-tag">
-              📂 {getDocTypeLabel(docType)} <button onClick={() => setDocType('generic')}>✕</button>
+              📂 {getDocTypeLabel(docType, customDocTypes)} <button onClick={() => setDocType('generic')}>✕</button>
             </span>
           )}
         </div>
@@ -439,11 +1649,25 @@ OUTPUT JSON:
           <div className="loading-box">
             <div className="loader"></div>
             <p>{loadingText}</p>
+            <button className="cancel-btn" onClick={() => apiScheduler.cancelAll()}>⏹ বাতিল</button>
+            {chunkProgress && chunkProgress.total > 1 && (
+              <div className="chunk-progress">
+                <div className="chunk-progress-bar" style={{ width: `${Math.round((chunkProgress.done / chunkProgress.total) * 100)}%` }} />
+                <span>{chunkProgress.done}/{chunkProgress.total} অংশ</span>
+              </div>
+            )}
           </div>
         )}
 
         {message && <div className={`message-box ${message.type}`}>{message.text}</div>}
 
+        {viewingHistory && (
+          <div className="history-banner">
+            🕘 {new Date(viewingHistory.timestamp).toLocaleString('bn-BD')} এর ফলাফল — ডকুমেন্ট এরপর বদলে থাকতে পারে
+            <button onClick={() => checkSpelling(true)} disabled={isLoading}>নতুন করে পরীক্ষা</button>
+          </div>
+        )}
+
         {!isLoading && stats.totalWords === 0 && !message && (
           <div className="empty-state">
             <div style={{ fontSize: '40px', marginBottom: '12px' }}>✨</div>
@@ -460,6 +1684,111 @@ OUTPUT JSON:
           </div>
         )}
 
+        {/* Readability Dashboard */}
+        {readability && readability.wordCount > 0 && shouldShowSection('readability') && (
+          <>
+            <div className="section-header">
+              <h3>📊 পাঠযোগ্যতা</h3>
+              <span className={`section-badge readability-badge ${readability.readabilityScore < thresholds.minReadability ? 'warn' : 'ok'}`}>
+                {readability.readabilityScore}
+              </span>
+              <button className="collapse-btn" onClick={() => toggleSection('readability')}>{collapsedSections.readability ? '➕' : '➖'}</button>
+            </div>
+            {!collapsedSections.readability && (
+              <div className="readability-panel">
+                <div className="metric-grid">
+                  <div className={`metric ${readability.readabilityScore < thresholds.minReadability ? 'warn' : ''}`}>
+                    <div className="val">{readability.readabilityScore}</div>
+                    <div className="lbl">স্কোর · {readabilityLabel(readability.readabilityScore)}</div>
+                  </div>
+                  <div className="metric">
+                    <div className="val">{readability.sentenceCount}</div>
+                    <div className="lbl">বাক্য</div>
+                  </div>
+                  <div className={`metric ${readability.avgSentenceWords > thresholds.maxAvgSentenceWords ? 'warn' : ''}`}>
+                    <div className="val">{readability.avgSentenceWords}</div>
+                    <div className="lbl">গড় বাক্য (শব্দ)</div>
+                  </div>
+                  <div className={`metric ${readability.lexicalDiversity < thresholds.minLexicalDiversity ? 'warn' : ''}`}>
+                    <div className="val">{percent(readability.lexicalDiversity)}</div>
+                    <div className="lbl">শব্দবৈচিত্র্য</div>
+                  </div>
+                  <div className={`metric ${readability.passiveShare > thresholds.maxPassiveShare ? 'warn' : ''}`}>
+                    <div className="val">{percent(readability.passiveShare)}</div>
+                    <div className="lbl">কর্মবাচ্য</div>
+                  </div>
+                  <div className="metric">
+                    <div className="val">{percent(readability.compoundVerbShare)}</div>
+                    <div className="lbl">যৌগিক ক্রিয়া</div>
+                  </div>
+                </div>
+
+                <div className="metric-note">
+                  {getDocTypeLabel(docType, customDocTypes)} অনুযায়ী: গড় বাক্য ≤ {thresholds.maxAvgSentenceWords} শব্দ,
+                  স্কোর ≥ {thresholds.minReadability}, কর্মবাচ্য ≤ {percent(thresholds.maxPassiveShare)}
+                </div>
+
+                {readability.longestSentences.length > 0 && (
+                  <>
+                    <div className="metric-title">📏 দীর্ঘতম বাক্য</div>
+                    {readability.longestSentences.map((sentence, i) => (
+                      <div
+                        key={i}
+                        className={`long-sentence ${sentence.words > thresholds.longSentenceWords ? 'warn' : ''}`}
+                        onMouseEnter={() => highlightSentence(sentence)}
+                        onClick={() => highlightSentence(sentence)}
+                      >
+                        <span className="long-sentence-count">{sentence.words} শব্দ</span>
+                        {sentence.text.length > 120 ? `${sentence.text.slice(0, 120)}…` : sentence.text}
+                      </div>
+                    ))}
+                  </>
+                )}
+
+                {readability.paragraphWords.length > 1 && (
+                  <>
+                    <div className="metric-title">📑 প্যারাগ্রাফের দৈর্ঘ্য</div>
+                    <div className="paragraph-bars">
+                      {readability.paragraphWords.map((words, i) => (
+                        <div
+                          key={i}
+                          className={`paragraph-bar ${words > thresholds.maxParagraphWords ? 'warn' : ''}`}
+                          style={{ height: `${Math.max(8, Math.min(100, (words / thresholds.maxParagraphWords) * 100))}%` }}
+                          title={`প্যারাগ্রাফ ${i + 1}: ${words} শব্দ`}
+                        />
+                      ))}
+                    </div>
+                  </>
+                )}
+              </div>
+            )}
+          </>
+        )}
+
+        {/* Bulk Accept & Undo */}
+        {(hasSuggestions || undoStack.length > 0) && (
+          <div className="bulk-bar">
+            {hasSuggestions && (
+              <button className="bulk-btn bulk-all" onClick={() => acceptBulk(ALL_BULK_CATEGORIES)} disabled={isLoading}>✅ সবকিছু গ্রহণ</button>
+            )}
+            {undoStack.length > 0 && (
+              <button className="bulk-btn bulk-undo" onClick={undoLastBatch} disabled={isLoading}>
+                ↩️ ফেরত: {undoStack[undoStack.length - 1].label}
+              </button>
+            )}
+          </div>
+        )}
+
+        {/* Keyboard Navigation */}
+        {navItems.length > 0 && (
+          <div className="nav-bar">
+            <button className="bulk-btn" onClick={goToPrev} title="আগের সাজেশন (↑)">◀</button>
+            <span className="nav-count">{focusedIndex >= 0 ? focusedIndex + 1 : '–'}/{navItems.length}</span>
+            <button className="bulk-btn" onClick={goToNext} title="পরের সাজেশন (↓)">▶</button>
+            <span className="nav-hint">⌨️ ↑/↓ সাজেশন · Enter গ্রহণ · Del বাতিল</span>
+          </div>
+        )}
+
         {/* --- SECTIONS --- */}
         
         {/* Content Analysis */}
@@ -492,15 +1821,40 @@ OUTPUT JSON:
             <div className="section-header">
               <h3>📝 বানান ভুল</h3>
               <span className="section-badge" style={{background:'#fee2e2',color:'#dc2626'}}>{corrections.length}</span>
+              <button className="bulk-btn" onClick={() => acceptBulk(['spelling'])} disabled={isLoading} title="সব বানান সংশোধন একসাথে">✓ সব</button>
               <button className="collapse-btn" onClick={() => toggleSection('spelling')}>{collapsedSections.spelling ? '➕' : '➖'}</button>
             </div>
             {!collapsedSections.spelling && corrections.map((c, i) => (
-              <div key={i} className="suggestion-card error-card" onMouseEnter={() => handleHighlight(c.wrong, '#fee2e2', c.position)}>
+              <div key={i} {...navProps('suggestion-card error-card', 'spelling', c.wrong, c.position)} onMouseEnter={() => handleHighlight(c.wrong, '#fee2e2', c.position)}>
                 <button className="dismiss-btn" onClick={() => dismissSuggestion('spelling', c.wrong)}>✕</button>
                 <div className="wrong-word">❌ {c.wrong}</div>
                 {c.suggestions.map((s, j) => (
                   <button key={j} className="suggestion-btn success-btn" onClick={() => handleReplace(c.wrong, s, c.position)}>✓ {s}</button>
                 ))}
+                <div className="card-actions">
+                  <button className="link-btn" onClick={() => addToDictionary(c.wrong)}>📖 অভিধানে যোগ</button>
+                  <button className="link-btn" onClick={() => ignoreAlways(c.wrong)}>🙈 সবসময় উপেক্ষা</button>
+                </div>
+              </div>
+            ))}
+          </>
+        )}
+
+        {/* Terminology */}
+        {terminologyIssues.length > 0 && shouldShowSection('terminology') && (
+          <>
+            <div className="section-header">
+              <h3>📚 পরিভাষা</h3>
+              <span className="section-badge" style={{background:'#ccfbf1',color:'#0f766e'}}>{terminologyIssues.length}</span>
+              <button className="bulk-btn" onClick={() => acceptBulk(['terminology'])} disabled={isLoading} title="সব পরিভাষা একসাথে ঠিক করুন">✓ সব</button>
+              <button className="collapse-btn" onClick={() => toggleSection('terminology')}>{collapsedSections.terminology ? '➕' : '➖'}</button>
+            </div>
+            {!collapsedSections.terminology && terminologyIssues.map((t, i) => (
+              <div key={i} {...navProps('suggestion-card terminology-card', 'terminology', t.current, t.position)} onMouseEnter={() => handleHighlight(t.current, '#ccfbf1', t.position)}>
+                <button className="dismiss-btn" onClick={() => dismissSuggestion('terminology', t.current)}>✕</button>
+                <div className="wrong-word" style={{color:'#0f766e'}}>📚 {t.current}</div>
+                {t.note && <div className="reason">{t.note}</div>}
+                <button className="suggestion-btn terminology-btn" onClick={() => handleReplace(t.current, t.suggestion, t.position, t.note || undefined)}>➜ {t.suggestion}</button>
               </div>
             ))}
           </>
@@ -512,14 +1866,15 @@ OUTPUT JSON:
             <div className="section-header">
               <h3>💬 টোন রূপান্তর</h3>
               <span className="section-badge" style={{background:'#fef3c7',color:'#92400e'}}>{getToneName(selectedTone)}</span>
+              <button className="bulk-btn" onClick={() => acceptBulk(['tone'])} disabled={isLoading} title="সব টোন রূপান্তর একসাথে">✓ সব</button>
               <button className="collapse-btn" onClick={() => toggleSection('tone')}>{collapsedSections.tone ? '➕' : '➖'}</button>
             </div>
             {!collapsedSections.tone && toneSuggestions.map((t, i) => (
-              <div key={i} className="suggestion-card warning-card" onMouseEnter={() => handleHighlight(t.current, '#fef3c7', t.position)}>
+              <div key={i} {...navProps('suggestion-card warning-card', 'tone', t.current, t.position)} onMouseEnter={() => handleHighlight(t.current, '#fef3c7', t.position)}>
                 <button className="dismiss-btn" onClick={() => dismissSuggestion('tone', t.current)}>✕</button>
                 <div className="wrong-word" style={{color:'#b45309'}}>💡 {t.current}</div>
                 <div className="reason">{t.reason}</div>
-                <button className="suggestion-btn warning-btn" onClick={() => handleReplace(t.current, t.suggestion, t.position)}>✨ {t.suggestion}</button>
+                <button className="suggestion-btn warning-btn" onClick={() => handleReplace(t.current, t.suggestion, t.position, t.reason)}>✨ {t.suggestion}</button>
               </div>
             ))}
           </>
@@ -530,13 +1885,14 @@ OUTPUT JSON:
           <>
             <div className="section-header">
               <h3>📝 ভাষারীতি</h3>
+              <button className="bulk-btn" onClick={() => acceptBulk(['style'])} disabled={isLoading} title="সব ভাষারীতি রূপান্তর একসাথে">✓ সব</button>
               <button className="collapse-btn" onClick={() => toggleSection('style')}>{collapsedSections.style ? '➕' : '➖'}</button>
             </div>
             {!collapsedSections.style && styleSuggestions.map((s, i) => (
-              <div key={i} className="suggestion-card info-card" onMouseEnter={() => handleHighlight(s.current, '#ccfbf1', s.position)}>
+              <div key={i} {...navProps('suggestion-card info-card', 'style', s.current, s.position)} onMouseEnter={() => handleHighlight(s.current, '#ccfbf1', s.position)}>
                 <button className="dismiss-btn" onClick={() => dismissSuggestion('style', s.current)}>✕</button>
                 <div style={{fontWeight:600,marginBottom:4}}>🔄 {s.current}</div>
-                <button className="suggestion-btn info-btn" onClick={() => handleReplace(s.current, s.suggestion, s.position)}>➜ {s.suggestion}</button>
+                <button className="suggestion-btn info-btn" onClick={() => handleReplace(s.current, s.suggestion, s.position, s.type)}>➜ {s.suggestion}</button>
               </div>
             ))}
           </>
@@ -547,18 +1903,63 @@ OUTPUT JSON:
           <>
             <div className="section-header">
               <h3>🔄 মিশ্রণ সনাক্ত</h3>
+              <button className="bulk-btn" onClick={() => acceptBulk(['mixing'])} disabled={isLoading} title="সব মিশ্রণ সংশোধন একসাথে">✓ সব</button>
               <button className="collapse-btn" onClick={() => toggleSection('mixing')}>{collapsedSections.mixing ? '➕' : '➖'}</button>
             </div>
             {!collapsedSections.mixing && languageStyleMixing.corrections?.map((c, i) => (
-              <div key={i} className="suggestion-card purple-card-light" onMouseEnter={() => handleHighlight(c.current, '#e9d5ff', c.position)}>
+              <div key={i} {...navProps('suggestion-card purple-card-light', 'mixing', c.current, c.position)} onMouseEnter={() => handleHighlight(c.current, '#e9d5ff', c.position)}>
                 <button className="dismiss-btn" onClick={() => dismissSuggestion('mixing', c.current)}>✕</button>
                 <div style={{fontWeight:600,marginBottom:4}}>🔄 {c.current}</div>
-                <button className="suggestion-btn purple-btn" onClick={() => handleReplace(c.current, c.suggestion, c.position)}>➜ {c.suggestion}</button>
+                <button className="suggestion-btn purple-btn" onClick={() => handleReplace(c.current, c.suggestion, c.position, c.type)}>➜ {c.suggestion}</button>
               </div>
             ))}
           </>
         )}
 
+        {/* Style Map (per paragraph) */}
+        {styleMap && hasStyleMixing(styleMap) && shouldShowSection('styleMap') && (
+          <>
+            <div className="section-header">
+              <h3>🗺️ সাধু-চলিত মানচিত্র</h3>
+              {mapTarget && <span className="section-badge" style={{background:'#ede9fe',color:'#5b21b6'}}>প্রধান: {STYLE_LABELS[mapTarget]}</span>}
+              <button className="bulk-btn" onClick={refreshStyleMap} disabled={isLoading} title="মানচিত্র নতুন করে তৈরি">↻</button>
+              <button className="collapse-btn" onClick={() => toggleSection('styleMap')}>{collapsedSections.styleMap ? '➕' : '➖'}</button>
+            </div>
+            {!collapsedSections.styleMap && (
+              <>
+                <div className="style-map-strip">
+                  {styleMap.map(e => (
+                    <button
+                      key={e.index}
+                      className={`style-cell ${e.label}`}
+                      onClick={() => jumpToParagraph(e)}
+                      title={`${STYLE_LABELS[e.label]} (সাধু ${e.sadhu}, চলিত ${e.cholito}) — ${e.preview}`}
+                    />
+                  ))}
+                </div>
+                {styleMap
+                  .filter(e => e.label === 'mixed' || (mapTarget && e.label !== 'neutral' && e.label !== mapTarget))
+                  .map(e => (
+                    <div key={e.index} className="suggestion-card purple-card-light style-map-item">
+                      <div style={{fontWeight:600,marginBottom:4}}>
+                        <span className={`style-dot ${e.label}`} /> {STYLE_LABELS[e.label]} · সাধু {e.sadhu}, চলিত {e.cholito}
+                      </div>
+                      <div className="reason">{e.preview}</div>
+                      <div className="style-map-actions">
+                        <button className="link-btn" onClick={() => jumpToParagraph(e)}>যান</button>
+                        {mapTarget && (
+                          <button className="suggestion-btn purple-btn" onClick={() => convertParagraph(e, mapTarget)} disabled={isLoading}>
+                            ➜ {STYLE_LABELS[mapTarget]} রূপে
+                          </button>
+                        )}
+                      </div>
+                    </div>
+                  ))}
+              </>
+            )}
+          </>
+        )}
+
         {/* Punctuation */}
         {punctuationIssues.length > 0 && shouldShowSection('punctuation') && (
           <>
@@ -567,11 +1968,11 @@ OUTPUT JSON:
               <button className="collapse-btn" onClick={() => toggleSection('punctuation')}>{collapsedSections.punctuation ? '➕' : '➖'}</button>
             </div>
             {!collapsedSections.punctuation && punctuationIssues.map((p, i) => (
-              <div key={i} className="suggestion-card orange-card" onMouseEnter={() => handleHighlight(p.currentSentence, '#ffedd5')}>
+              <div key={i} {...navProps('suggestion-card orange-card', 'punctuation', p.currentSentence, p.position)} onMouseEnter={() => handleHighlight(p.currentSentence, '#ffedd5')}>
                 <button className="dismiss-btn" onClick={() => dismissSuggestion('punct', p.currentSentence)}>✕</button>
                 <div className="wrong-word" style={{color:'#ea580c'}}>⚠️ {p.issue}</div>
                 <div className="reason">{p.explanation}</div>
-                <button className="suggestion-btn orange-btn" onClick={() => handleReplace(p.currentSentence, p.correctedSentence)}>✓ {p.correctedSentence}</button>
+                <button className="suggestion-btn orange-btn" onClick={() => handleReplace(p.currentSentence, p.correctedSentence, p.position, `${p.issue} — ${p.explanation}`)}>✓ {p.correctedSentence}</button>
               </div>
             ))}
           </>
@@ -585,18 +1986,60 @@ OUTPUT JSON:
               <button className="collapse-btn" onClick={() => toggleSection('euphony')}>{collapsedSections.euphony ? '➕' : '➖'}</button>
             </div>
             {!collapsedSections.euphony && euphonyImprovements.map((e, i) => (
-              <div key={i} className="suggestion-card" style={{borderLeft:'4px solid #db2777'}} onMouseEnter={() => handleHighlight(e.current, '#fce7f3', e.position)}>
+              <div key={i} {...navProps('suggestion-card', 'euphony', e.current, e.position)} style={{borderLeft:'4px solid #db2777'}} onMouseEnter={() => handleHighlight(e.current, '#fce7f3', e.position)}>
                 <button className="dismiss-btn" onClick={() => dismissSuggestion('euphony', e.current)}>✕</button>
                 <div className="wrong-word" style={{color:'#db2777'}}>🎵 {e.current}</div>
                 <div className="reason">{e.reason}</div>
                 {e.suggestions.map((s, j) => (
-                  <button key={j} className="suggestion-btn" style={{background:'#fce7f3',color:'#9f1239'}} onClick={() => handleReplace(e.current, s, e.position)}>♪ {s}</button>
+                  <button key={j} className="suggestion-btn" style={{background:'#fce7f3',color:'#9f1239'}} onClick={() => handleReplace(e.current, s, e.position, e.reason)}>♪ {s}</button>
                 ))}
               </div>
             ))}
           </>
         )}
 
+        {/* Numerals, Dates & Currency */}
+        {numeralIssues.length > 0 && activeConvention && shouldShowSection('numerals') && (
+          <>
+            <div className="section-header">
+              <h3>🔢 সংখ্যা, তারিখ ও মুদ্রা</h3>
+              <span className="section-badge" style={{background:'#e0f2fe',color:'#0369a1'}}>{numeralIssues.length}</span>
+              <button className="bulk-btn" onClick={() => acceptBulk(['numerals'])} disabled={isLoading} title="রীতি অনুযায়ী সব একসাথে ঠিক করুন">✓ সব</button>
+              <button className="collapse-btn" onClick={() => toggleSection('numerals')}>{collapsedSections.numerals ? '➕' : '➖'}</button>
+            </div>
+            {!collapsedSections.numerals && (
+              <>
+                <div className="convention-row">
+                  <select value={activeConvention.digits} onChange={e => changeConvention({ digits: e.target.value as NumberConvention['digits'] })}>
+                    <option value="bangla">০-৯ বাংলা অঙ্ক</option>
+                    <option value="latin">0-9 ইংরেজি অঙ্ক</option>
+                  </select>
+                  <select value={activeConvention.date} onChange={e => changeConvention({ date: e.target.value as NumberConvention['date'] })}>
+                    <option value="long">১২ মার্চ ২০২৪</option>
+                    <option value="numeric">১২/০৩/২০২৪</option>
+                  </select>
+                  <select value={activeConvention.currency} onChange={e => changeConvention({ currency: e.target.value as NumberConvention['currency'] })}>
+                    <option value="taka">৫০০ টাকা</option>
+                    <option value="symbol">৳৫০০</option>
+                    <option value="tk">Tk 500</option>
+                  </select>
+                </div>
+                {numeralIssues.map((n, i) => (
+                  <div key={i} {...navProps('suggestion-card numeral-card', 'numerals', n.current, n.position)} onMouseEnter={() => handleHighlight(n.current, '#e0f2fe', n.position)}>
+                    <button className="dismiss-btn" onClick={() => dismissSuggestion('numeral', n.current)}>✕</button>
+                    <div className="wrong-word" style={{color:'#0369a1'}}>🔢 {n.current}</div>
+                    <div className="reason">{n.reason}</div>
+                    <button className="suggestion-btn numeral-btn" onClick={() => handleReplace(n.current, n.suggestion, n.position, n.reason)}>➜ {n.suggestion}</button>
+                    {n.kind === 'currency' && amountToBanglaWords(n.current) && (
+                      <div className="reason amount-words">কথায়: {amountToBanglaWords(n.current)}</div>
+                    )}
+                  </div>
+                ))}
+              </>
+            )}
+          </>
+        )}
+
       </div>
       
       {/* Footer */}
@@ -614,7 +2057,15 @@ OUTPUT JSON:
             <div className="modal-body">
               <div className="option-item" onClick={() => setActiveModal('tone')}><div className="opt-icon">🗣️</div><div><div className="opt-title">টোন</div><div className="opt-desc">{selectedTone ? getToneName(selectedTone) : 'সেট নেই'}</div></div></div>
               <div className="option-item" onClick={() => setActiveModal('style')}><div className="opt-icon">📝</div><div><div className="opt-title">ভাষারীতি</div><div className="opt-desc">{selectedStyle === 'none' ? 'স্বয়ংক্রিয়' : selectedStyle}</div></div></div>
-              <div className="option-item" onClick={() => setActiveModal('doctype')}><div className="opt-icon">📂</div><div><div className="opt-title">ডকুমেন্ট টাইপ</div><div className="opt-desc">{getDocTypeLabel(docType)}</div></div></div>
+              <div className="option-item" onClick={() => setActiveModal('doctype')}><div className="opt-icon">📂</div><div><div className="opt-title">ডকুমেন্ট টাইপ</div><div className="opt-desc">{getDocTypeLabel(docType, customDocTypes)}</div></div></div>
+              <div className="option-item" onClick={() => setActiveModal('rewrite')}><div className="opt-icon">🔁</div><div><div className="opt-title">সিলেকশন রূপান্তর</div><div className="opt-desc">পুরো লেখা সাধু/চলিত বা অন্য টোনে</div></div></div>
+              <div className="option-item" onClick={() => { setRewriteTarget('phonetic:avro'); setRewrite(null); setActiveModal('rewrite'); }}><div className="opt-icon">🔤</div><div><div className="opt-title">বাংলিশ → বাংলা</div><div className="opt-desc">রোমান হরফে লেখা বাংলা (ami bhalo achi) বাংলা লিপিতে</div></div></div>
+              <div className="option-item" onClick={() => setActiveModal('bijoy')}><div className="opt-icon">🔠</div><div><div className="opt-title">বিজয় ⇄ ইউনিকোড</div><div className="opt-desc">SutonnyMJ লেখা ইউনিকোডে, প্রিন্টের জন্য উল্টোটাও</div></div></div>
+              <div className="option-item" onClick={() => setActiveModal('numberWords')}><div className="opt-icon">🔢</div><div><div className="opt-title">টাকার অঙ্ক কথায়</div><div className="opt-desc">চেক ও দলিলের জন্য</div></div></div>
+              <div className="option-item" onClick={() => setActiveModal('history')}><div className="opt-icon">🕘</div><div><div className="opt-title">পরীক্ষার ইতিহাস</div><div className="opt-desc">এই ডকুমেন্টের {documentHistory.length}টি পরীক্ষা</div></div></div>
+              <div className="option-item" onClick={() => setActiveModal('report')}><div className="opt-icon">📄</div><div><div className="opt-title">রিপোর্ট এক্সপোর্ট</div><div className="opt-desc">HTML, Markdown বা JSON</div></div></div>
+              <div className="option-item" onClick={() => setActiveModal('glossary')}><div className="opt-icon">📚</div><div><div className="opt-title">পরিভাষা গ্লসারি</div><div className="opt-desc">{glossary.length}টি পছন্দের শব্দ</div></div></div>
+              <div className="option-item" onClick={() => setActiveModal('dictionary')}><div className="opt-icon">📖</div><div><div className="opt-title">অভিধান</div><div className="opt-desc">{dictionary.words.length}টি শব্দ, {dictionary.ignored.length}টি উপেক্ষিত</div></div></div>
               <div className="option-item" onClick={() => setActiveModal('settings')}><div className="opt-icon">⚙️</div><div><div className="opt-title">সেটিংস</div></div></div>
               <div className="option-item" onClick={() => setActiveModal('instructions')}><div className="opt-icon">❓</div><div><div className="opt-title">নির্দেশিকা</div></div></div>
             </div>
@@ -628,20 +2079,293 @@ OUTPUT JSON:
           <div className="modal-content" onClick={e => e.stopPropagation()}>
             <div className="modal-header settings-header"><h3>⚙️ সেটিংস</h3><button onClick={() => setActiveModal('none')}>✕</button></div>
             <div className="modal-body">
-              <label>🔑 Google Gemini API Key</label>
-              <input type="password" value={apiKey} onChange={e => setApiKey(e.target.value)} placeholder="API Key" />
+              <label className="checkbox-label">
+                <input type="checkbox" checked={localOnly} onChange={e => setLocalOnly(e.target.checked)} />
+                📴 শুধু অফলাইন বানান পরীক্ষা (AI ছাড়া)
+              </label>
+              <label className="checkbox-label">
+                <input type="checkbox" checked={liveCheck} onChange={e => setLiveCheck(e.target.checked)} />
+                ⌨️ টাইপ করার সময় পরীক্ষা (লাইভ — শুধু বানান ও বিরামচিহ্ন)
+              </label>
+              <label>✍️ সাজেশন প্রয়োগের ধরন</label>
+              <select value={applyMode} onChange={e => setApplyMode(e.target.value as ApplyMode)}>
+                <option value="replace">সরাসরি প্রতিস্থাপন</option>
+                {isApplyModeSupported('track') && <option value="track">Track Changes সহ প্রতিস্থাপন</option>}
+                {isApplyModeSupported('comment') && <option value="comment">শুধু মন্তব্য (Comment) যোগ</option>}
+              </select>
+              <label>🧠 AI প্রোভাইডার</label>
+              <select value={provider} onChange={e => setProvider(e.target.value as ProviderId)}>
+                {PROVIDER_IDS.map(id => <option key={id} value={id}>{PROVIDERS[id].label}</option>)}
+              </select>
+              <p className="opt-desc">{PROVIDERS[provider].description}</p>
+              {provider !== 'mock' && (
+                <>
+                  <label>🌐 Base URL</label>
+                  <input type="text" value={activeSettings.baseUrl} onChange={e => updateProviderSettings({ baseUrl: e.target.value })} placeholder={PROVIDERS[provider].defaults.baseUrl} />
+                  <label>🔑 API Key{PROVIDERS[provider].requiresKey ? '' : ' (ঐচ্ছিক)'}</label>
+                  <input type="password" value={activeSettings.apiKey} onChange={e => updateProviderSettings({ apiKey: e.target.value })} placeholder="API Key" />
+                  <label>📋 মডেল তালিকা (কমা দিয়ে আলাদা)</label>
+                  <input
+                    type="text"
+                    value={activeSettings.models.join(', ')}
+                    onChange={e => updateProviderSettings({ models: e.target.value.split(',').map(m => m.trim()) })}
+                  />
+                </>
+              )}
               <label>🤖 AI Model</label>
-              <select value={selectedModel} onChange={e => setSelectedModel(e.target.value)}>
-                <option value="gemini-2.5-flash">Gemini 2.5 Flash</option>
-                <option value="gemini-2.5-flash-lite">Gemini 2.5 Flash Lite</option>
-                <option value="gemini-2.0-flash">Gemini 2.0 Flash</option>
+              <select value={activeSettings.model} onChange={e => updateProviderSettings({ model: e.target.value })}>
+                {!activeSettings.models.includes(activeSettings.model) && <option value={activeSettings.model}>{activeSettings.model}</option>}
+                {activeSettings.models.filter(Boolean).map(m => <option key={m} value={m}>{m}</option>)}
               </select>
+              <button className="link-btn cache-clear-btn" onClick={() => { clearCache(); showMessage('ক্যাশ মুছে ফেলা হয়েছে ✓', 'success'); }}>
+                🗑️ ফলাফল ক্যাশ মুছুন ({cacheSize()}টি এন্ট্রি)
+              </button>
+              <button className="link-btn cache-clear-btn" onClick={() => { clearHistory(); setHistory([]); showMessage('ইতিহাস মুছে ফেলা হয়েছে ✓', 'success'); }}>
+                🗑️ পরীক্ষার ইতিহাস মুছুন ({history.length}টি এন্ট্রি)
+              </button>
               <button onClick={saveSettings} className="btn-primary-full">✓ সংরক্ষণ</button>
             </div>
           </div>
         </div>
       )}
 
+      {/* Rewrite Modal */}
+      {activeModal === 'rewrite' && (
+        <div className="modal-overlay" onClick={() => setActiveModal('none')}>
+          <div className="modal-content" onClick={e => e.stopPropagation()}>
+            <div className="modal-header style-header"><h3>🔁 সিলেকশন রূপান্তর</h3><button onClick={() => setActiveModal('none')}>✕</button></div>
+            <div className="modal-body">
+              <label>🎯 কোন রূপে</label>
+              <select value={rewriteTarget} onChange={e => setRewriteTarget(e.target.value)}>
+                <optgroup label="ভাষারীতি">
+                  {STYLE_OPTIONS.filter(o => o.id !== 'none').map(o => <option key={o.id} value={`style:${o.id}`}>{o.icon} {o.title}</option>)}
+                </optgroup>
+                <optgroup label="টোন">
+                  {TONE_OPTIONS.filter(o => o.id).map(o => <option key={o.id} value={`tone:${o.id}`}>{o.icon} {o.title}</option>)}
+                </optgroup>
+                <optgroup label="লিপি">
+                  <option value="phonetic:avro">🔤 বাংলিশ → বাংলা (ফোনেটিক)</option>
+                </optgroup>
+              </select>
+              {rewriteTarget.startsWith('phonetic') && (
+                <label className="checkbox-label">
+                  <input type="checkbox" checked={phoneticAi} onChange={e => setPhoneticAi(e.target.checked)} />
+                  🤖 অস্পষ্ট শব্দ AI দিয়ে যাচাই (না হলে সম্পূর্ণ লোকাল)
+                </label>
+              )}
+              <button onClick={() => startRewrite()} disabled={isLoading} className="btn-primary-full">
+                {isLoading ? '⏳ রূপান্তর হচ্ছে...' : '🔁 সিলেক্ট করা লেখা রূপান্তর করুন'}
+              </button>
+
+              {rewrite && (
+                <div className="rewrite-result">
+                  <div className="card-actions">
+                    <span className="opt-desc">{rewrite.accepted.length}/{diffHunks(rewrite.segments).length}টি পরিবর্তন গৃহীত</span>
+                    <button className="link-btn" onClick={() => setAllHunks(true)}>সব গ্রহণ</button>
+                    <button className="link-btn" onClick={() => setAllHunks(false)}>সব বাতিল</button>
+                  </div>
+                  <div className="rewrite-diff">
+                    {rewrite.segments.map((seg, i) => seg.type === 'equal' ? (
+                      <span key={i}>{seg.text}</span>
+                    ) : (
+                      <span
+                        key={i}
+                        className={`diff-hunk ${rewrite.accepted.includes(seg.id) ? 'accepted' : 'rejected'}`}
+                        onClick={() => toggleHunk(seg.id)}
+                        title="ক্লিক করে গ্রহণ/বাতিল"
+                      >
+                        {seg.before && <del>{seg.before}</del>}
+                        {seg.after && <ins>{seg.after}</ins>}
+                      </span>
+                    ))}
+                  </div>
+                  <button onClick={applyRewrite} className="btn-primary-full">✓ গৃহীত পরিবর্তন প্রয়োগ</button>
+                </div>
+              )}
+            </div>
+          </div>
+        </div>
+      )}
+
+      {/* Bijoy ⇄ Unicode Modal */}
+      {activeModal === 'bijoy' && (
+        <div className="modal-overlay" onClick={() => setActiveModal('none')}>
+          <div className="modal-content" onClick={e => e.stopPropagation()}>
+            <div className="modal-header instructions-header"><h3>🔠 বিজয় ⇄ ইউনিকোড</h3><button onClick={() => setActiveModal('none')}>✕</button></div>
+            <div className="modal-body">
+              <p className="opt-desc">বিজয় পরিবারের ফন্টে (SutonnyMJ …) লেখা প্রতিটি শব্দ খুঁজে ইউনিকোডে বদলানো হবে। বোল্ড, সাইজ, রং আগের মতো থাকবে, শুধু ফন্ট বদলাবে।</p>
+              <label>🔤 ইউনিকোড ফন্ট</label>
+              <select value={unicodeFont} onChange={e => setUnicodeFont(e.target.value)}>
+                {UNICODE_FONTS.map(f => <option key={f} value={f}>{f}</option>)}
+              </select>
+              <button onClick={convertBijoyDocument} disabled={isLoading} className="btn-primary-full">
+                {isLoading ? '⏳ রূপান্তর হচ্ছে...' : '📄 ডকুমেন্টের বিজয় লেখা ইউনিকোডে'}
+              </button>
+              <label>🖨️ ইউনিকোড → বিজয়</label>
+              <p className="opt-desc">যে প্রিন্টারে এখনো বিজয় লাগে: সিলেক্ট করা ইউনিকোড বাংলা SutonnyMJ ফন্টে।</p>
+              <button onClick={convertToBijoy} disabled={isLoading} className="btn-primary-full">🖨️ সিলেকশন বিজয়ে</button>
+            </div>
+          </div>
+        </div>
+      )}
+
+      {/* Number To Words Modal */}
+      {activeModal === 'numberWords' && (
+        <div className="modal-overlay" onClick={() => setActiveModal('none')}>
+          <div className="modal-content" onClick={e => e.stopPropagation()}>
+            <div className="modal-header instructions-header"><h3>🔢 টাকার অঙ্ক কথায়</h3><button onClick={() => setActiveModal('none')}>✕</button></div>
+            <div className="modal-body">
+              <label>💰 অঙ্ক</label>
+              <input type="text" value={amountInput} onChange={e => setAmountInput(e.target.value)} placeholder="যেমন: ১,২৫,০০০.৫০" />
+              <button className="link-btn" onClick={amountFromSelection}>📋 সিলেকশন থেকে নিন</button>
+              <div className="amount-words-result">
+                {amountInput.trim() ? (amountToBanglaWords(amountInput) ?? 'সঠিক অঙ্ক নয়') : 'কথায় লেখা এখানে দেখা যাবে'}
+              </div>
+              <button onClick={insertAmountWords} className="btn-primary-full">➕ সিলেকশনের পরে যোগ করুন</button>
+            </div>
+          </div>
+        </div>
+      )}
+
+      {/* Dictionary Modal */}
+      {activeModal === 'dictionary' && (
+        <div className="modal-overlay" onClick={() => setActiveModal('none')}>
+          <div className="modal-content" onClick={e => e.stopPropagation()}>
+            <div className="modal-header settings-header"><h3>📖 অভিধান</h3><button onClick={() => setActiveModal('none')}>✕</button></div>
+            <div className="modal-body">
+              <label>📖 অভিধানের শব্দ ({dictionary.words.length})</label>
+              <div className="word-list">
+                {dictionary.words.length === 0 && <span className="opt-desc">কোনো শব্দ নেই</span>}
+                {dictionary.words.map(w => (
+                  <span key={w} className="word-chip">{w} <button onClick={() => updateDictionary({ ...dictionary, words: removeEntry(dictionary.words, w) })}>✕</button></span>
+                ))}
+              </div>
+              <label>🙈 উপেক্ষিত ({dictionary.ignored.length})</label>
+              <div className="word-list">
+                {dictionary.ignored.length === 0 && <span className="opt-desc">কোনো শব্দ নেই</span>}
+                {dictionary.ignored.map(w => (
+                  <span key={w} className="word-chip">{w} <button onClick={() => updateDictionary({ ...dictionary, ignored: removeEntry(dictionary.ignored, w) })}>✕</button></span>
+                ))}
+              </div>
+              <label className="file-btn">
+                📥 ওয়ার্ড-লিস্ট ইমপোর্ট (.txt)
+                <input type="file" accept=".txt,text/plain" onChange={e => { const f = e.target.files?.[0]; if (f) importDictionary(f); e.target.value = ''; }} />
+              </label>
+              <button onClick={exportDictionary} className="btn-primary-full">📤 এক্সপোর্ট</button>
+            </div>
+          </div>
+        </div>
+      )}
+
+      {/* History Modal */}
+      {activeModal === 'history' && (
+        <div className="modal-overlay" onClick={() => setActiveModal('none')}>
+          <div className="modal-content" onClick={e => e.stopPropagation()}>
+            <div className="modal-header instructions-header"><h3>🕘 পরীক্ষার ইতিহাস</h3><button onClick={() => setActiveModal('none')}>✕</button></div>
+            <div className="modal-body">
+              {documentHistory.length === 0 ? (
+                <p className="opt-desc">এই ডকুমেন্টের কোনো আগের পরীক্ষা নেই।</p>
+              ) : (
+                <>
+                  {documentHistory.length > 1 && (
+                    <div className="history-trend">
+                      <div>
+                        <div className="opt-desc">ভুলের সংখ্যা</div>
+                        <svg viewBox="0 0 120 32" preserveAspectRatio="none">
+                          <polyline points={sparkPoints(documentHistory.map(h => h.stats.errorCount), 120, 32)} fill="none" stroke="#dc2626" strokeWidth="2" />
+                        </svg>
+                      </div>
+                      <div>
+                        <div className="opt-desc">পাঠযোগ্যতা</div>
+                        <svg viewBox="0 0 120 32" preserveAspectRatio="none">
+                          <polyline points={sparkPoints(documentHistory.map(h => h.readability?.readabilityScore ?? 0), 120, 32)} fill="none" stroke="#16a34a" strokeWidth="2" />
+                        </svg>
+                      </div>
+                    </div>
+                  )}
+                  <div className="history-list">
+                    {[...documentHistory].reverse().map(h => (
+                      <div key={h.id} className={`history-item ${viewingHistory?.id === h.id ? 'active' : ''}`}>
+                        <div className="history-info" onClick={() => restoreHistoryEntry(h)}>
+                          <div className="opt-title">{new Date(h.timestamp).toLocaleString('bn-BD')}</div>
+                          <div className="opt-desc">
+                            {h.docType}{h.tone && ` · ${h.tone}`}{h.style && ` · ${h.style}`} · {h.model || 'লোকাল'}
+                          </div>
+                          <div className="history-stats">
+                            <span>শব্দ {h.stats.totalWords}</span>
+                            <span style={{color:'#dc2626'}}>ভুল {h.stats.errorCount}</span>
+                            {h.readability && <span style={{color:'#16a34a'}}>স্কোর {h.readability.readabilityScore}</span>}
+                          </div>
+                        </div>
+                        <button onClick={() => setHistory(removeHistoryEntry(h.id))}>✕</button>
+                      </div>
+                    ))}
+                  </div>
+                </>
+              )}
+            </div>
+          </div>
+        </div>
+      )}
+
+      {/* Report Modal */}
+      {activeModal === 'report' && (
+        <div className="modal-overlay" onClick={() => setActiveModal('none')}>
+          <div className="modal-content" onClick={e => e.stopPropagation()}>
+            <div className="modal-header instructions-header"><h3>📄 বিশ্লেষণ রিপোর্ট</h3><button onClick={() => setActiveModal('none')}>✕</button></div>
+            <div className="modal-body">
+              {stats.totalWords === 0 ? (
+                <p className="opt-desc">আগে লেখাটি পরীক্ষা করুন — তারপর রিপোর্ট তৈরি হবে।</p>
+              ) : (
+                <>
+                  <div className="report-summary">
+                    <span>বাকি: <b>{findings.length}</b></span>
+                    <span>গৃহীত: <b>{decisions.filter(d => d.status === 'accepted').length}</b></span>
+                    <span>বাতিল: <b>{decisions.filter(d => d.status === 'dismissed').length}</b></span>
+                  </div>
+                  <div className="report-actions">
+                    <button className="btn-primary-full" onClick={() => exportReport('html')}>🌐 HTML</button>
+                    <button className="btn-primary-full" onClick={() => exportReport('md')}>📝 Markdown</button>
+                    <button className="btn-primary-full" onClick={() => exportReport('json')}>🧾 JSON</button>
+                  </div>
+                  <button className="link-btn" onClick={insertReport}>➕ ডকুমেন্টের শেষে যোগ করুন</button>
+                </>
+              )}
+            </div>
+          </div>
+        </div>
+      )}
+
+      {/* Glossary Modal */}
+      {activeModal === 'glossary' && (
+        <div className="modal-overlay" onClick={() => setActiveModal('none')}>
+          <div className="modal-content" onClick={e => e.stopPropagation()}>
+            <div className="modal-header settings-header"><h3>📚 পরিভাষা গ্লসারি</h3><button onClick={() => setActiveModal('none')}>✕</button></div>
+            <div className="modal-body">
+              <label>✅ পছন্দের শব্দ ← ❌ যে রূপ চলবে না ({glossary.length})</label>
+              <div className="glossary-list">
+                {glossary.length === 0 && <span className="opt-desc">কোনো পরিভাষা নেই — CSV বা JSON ইমপোর্ট করুন</span>}
+                {glossary.map(e => (
+                  <div key={e.term} className="glossary-item">
+                    <div>
+                      <strong>{e.term}</strong> <span className="glossary-variants">← {e.variants.join(', ')}</span>
+                      {e.note && <div className="opt-desc">{e.note}</div>}
+                    </div>
+                    <button onClick={() => updateGlossary(glossary.filter(g => g !== e))}>✕</button>
+                  </div>
+                ))}
+              </div>
+              <div className="opt-desc">CSV কলাম: term, variants (| দিয়ে আলাদা), note</div>
+              <label className="file-btn">
+                📥 ইমপোর্ট (.csv / .json)
+                <input type="file" accept=".csv,.json,text/csv,application/json" onChange={e => { const f = e.target.files?.[0]; if (f) importGlossary(f); e.target.value = ''; }} />
+              </label>
+              <button onClick={exportGlossary} className="btn-primary-full">📤 CSV এক্সপোর্ট</button>
+            </div>
+          </div>
+        </div>
+      )}
+
       {/* Instructions Modal */}
       {activeModal === 'instructions' && (
         <div className="modal-overlay" onClick={() => setActiveModal('none')}>
@@ -690,11 +2414,85 @@ OUTPUT JSON:
           <div className="modal-content" onClick={e => e.stopPropagation()}>
             <div className="modal-header style-header"><h3>📂 ডকুমেন্ট টাইপ</h3><button onClick={() => setActiveModal('none')}>✕</button></div>
             <div className="modal-body">
-              {['generic', 'academic', 'official', 'marketing', 'social'].map((dt: any) => (
-                <div key={dt} className={`option-item ${docType === dt ? 'selected' : ''}`} onClick={() => { setDocType(dt); setActiveModal('none'); }}>
-                  <div className="opt-icon">📂</div><div><div className="opt-title">{getDocTypeLabel(dt)}</div><div className="opt-desc">{DOC_TYPE_CONFIG[dt as DocType].description}</div></div>
+              {BUILT_IN_DOC_TYPES.map(dt => (
+                <div key={dt} className={`option-item ${docType === dt ? 'selected' : ''}`} onClick={() => { selectDocType(dt); setActiveModal('none'); }}>
+                  <div className="opt-icon">📂</div><div className="opt-main"><div className="opt-title">{getDocTypeLabel(dt)}</div><div className="opt-desc">{DOC_TYPE_CONFIG[dt].description}</div></div>
+                  <button className="link-btn" title="ডুপ্লিকেট" onClick={e => { e.stopPropagation(); openDocTypeEditor(createCustomDocType(DOC_TYPE_CONFIG[dt])); }}>⧉</button>
                 </div>
               ))}
+              {customDocTypes.map(ct => (
+                <div key={ct.id} className={`option-item ${docType === ct.id ? 'selected' : ''}`} onClick={() => { selectDocType(ct.id); setActiveModal('none'); }}>
+                  <div className="opt-icon">🗂️</div><div className="opt-main"><div className="opt-title">{ct.label}</div><div className="opt-desc">{ct.description}</div></div>
+                  <button className="link-btn" title="সম্পাদনা" onClick={e => { e.stopPropagation(); openDocTypeEditor({ ...ct }); }}>✏️</button>
+                  <button className="link-btn" title="ডুপ্লিকেট" onClick={e => { e.stopPropagation(); openDocTypeEditor(createCustomDocType(ct)); }}>⧉</button>
+                  <button className="link-btn" title="মুছুন" onClick={e => { e.stopPropagation(); deleteCustomDocType(ct.id); }}>🗑️</button>
+                </div>
+              ))}
+              <button onClick={() => openDocTypeEditor(createCustomDocType())} className="btn-primary-full">➕ নতুন ডকুমেন্ট টাইপ</button>
+              <div className="card-actions">
+                <label className="file-btn">
+                  📥 JSON ইমপোর্ট
+                  <input type="file" accept=".json,application/json" onChange={e => { const f = e.target.files?.[0]; if (f) importCustomDocTypes(f); e.target.value = ''; }} />
+                </label>
+                {customDocTypes.length > 0 && <button className="link-btn" onClick={exportCustomDocTypes}>📤 JSON এক্সপোর্ট</button>}
+              </div>
+            </div>
+          </div>
+        </div>
+      )}
+
+      {/* DocType Editor Modal */}
+      {activeModal === 'docTypeEditor' && editingDocType && (
+        <div className="modal-overlay" onClick={() => setActiveModal('doctype')}>
+          <div className="modal-content" onClick={e => e.stopPropagation()}>
+            <div className="modal-header style-header"><h3>✏️ ডকুমেন্ট টাইপ সম্পাদনা</h3><button onClick={() => setActiveModal('doctype')}>✕</button></div>
+            <div className="modal-body">
+              <label>🏷️ নাম</label>
+              <input type="text" value={editingDocType.label} onChange={e => setEditingDocType({ ...editingDocType, label: e.target.value })} placeholder="যেমন: আইনি নোটিশ" />
+              <label>📝 বিবরণ</label>
+              <input type="text" value={editingDocType.description} onChange={e => setEditingDocType({ ...editingDocType, description: e.target.value })} />
+              <label>💬 ডিফল্ট টোন</label>
+              <select value={editingDocType.defaultTone} onChange={e => setEditingDocType({ ...editingDocType, defaultTone: e.target.value })}>
+                {TONE_OPTIONS.map(opt => <option key={opt.id} value={opt.id}>{opt.title}</option>)}
+              </select>
+              <label>🤖 AI নির্দেশনা (Role Instruction)</label>
+              <textarea rows={3} value={editingDocType.roleInstruction} onChange={e => setEditingDocType({ ...editingDocType, roleInstruction: e.target.value })} placeholder="Act as an editor for Bengali legal notices." />
+              <label>🎯 পরীক্ষার ফোকাস (Check Focus)</label>
+              <textarea rows={3} value={editingDocType.checkFocus} onChange={e => setEditingDocType({ ...editingDocType, checkFocus: e.target.value })} placeholder="Ensure precise legal terminology and formal address." />
+              <label>🔢 সংখ্যা ও তারিখের রীতি</label>
+              <select
+                value={editingDocType.numberConvention?.digits ?? ''}
+                onChange={e => setEditingDocType({
+                  ...editingDocType,
+                  numberConvention: e.target.value
+                    ? { date: 'long', currency: 'taka', ...editingDocType.numberConvention, digits: e.target.value as NumberConvention['digits'] }
+                    : undefined
+                })}
+              >
+                <option value="">ডকুমেন্টে যেটি বেশি</option>
+                <option value="bangla">বাংলা অঙ্ক (০-৯)</option>
+                <option value="latin">ইংরেজি অঙ্ক (0-9)</option>
+              </select>
+              {editingDocType.numberConvention && (
+                <div className="convention-row">
+                  <select
+                    value={editingDocType.numberConvention.date}
+                    onChange={e => setEditingDocType({ ...editingDocType, numberConvention: { ...editingDocType.numberConvention!, date: e.target.value as NumberConvention['date'] } })}
+                  >
+                    <option value="long">১২ মার্চ ২০২৪</option>
+                    <option value="numeric">১২/০৩/২০২৪</option>
+                  </select>
+                  <select
+                    value={editingDocType.numberConvention.currency}
+                    onChange={e => setEditingDocType({ ...editingDocType, numberConvention: { ...editingDocType.numberConvention!, currency: e.target.value as NumberConvention['currency'] } })}
+                  >
+                    <option value="taka">৫০০ টাকা</option>
+                    <option value="symbol">৳৫০০</option>
+                    <option value="tk">Tk 500</option>
+                  </select>
+                </div>
+              )}
+              <button onClick={saveEditingDocType} className="btn-primary-full">✓ সংরক্ষণ</button>
             </div>
           </div>
         </div>
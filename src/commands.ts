@@ -0,0 +1,209 @@
+// src/commands.ts
+// রিবন ও কনটেক্সট মেনুর কমান্ড (ExecuteFunction) — প্যানেল না খুলে, ফলাফল নোটিফিকেশনে
+
+import { normalize } from './utils/normalize';
+import { loadDictionary, protectedWords, filterCorrections, wordsPresentIn } from './utils/dictionary';
+import { loadGlossary, filterAlternativesByGlossary } from './utils/glossary';
+import { loadCustomDocTypes } from './utils/docTypes';
+import { PROVIDERS, loadProviderId, loadProviderSettings, AIConfig } from './utils/providers';
+import { callAIJsonCached } from './utils/analysis';
+import { runLocalSpellCheck, mergeCorrections } from './utils/spellEngine';
+import { validateMainResponse } from './utils/schema';
+import { rewriteText } from './utils/rewrite';
+import { diffWords, diffHunks } from './utils/diff';
+import { convertStyleLocally } from './utils/styleMap';
+import { checkNumerals, detectConvention } from './utils/numerals';
+import { looksLikeBijoy } from './utils/bijoy';
+import {
+  getTextFromWord,
+  getSelectedText,
+  highlightMultipleInWord,
+  clearHighlights,
+  applyHunksToSelection,
+  applyBulkEdits,
+  ApplyMode
+} from './utils/word';
+import { buildLivePrompt, resolveDocType, DocType } from './prompts/core';
+import { buildStyleRewritePrompt } from './prompts/style';
+
+// ============ SETTINGS ============
+// প্যানেলের সংরক্ষিত সেটিংস — একই origin, তাই একই localStorage
+const loadCommandSettings = () => {
+  const provider = loadProviderId();
+  const settings = loadProviderSettings()[provider];
+  const localOnly = localStorage.getItem('local_only') === 'true';
+  const aiConfig: AIConfig = { provider, settings };
+  return {
+    aiConfig,
+    useAi: !localOnly && (!PROVIDERS[provider].requiresKey || Boolean(settings.apiKey)),
+    applyMode: (localStorage.getItem('apply_mode') as ApplyMode) || 'replace',
+    docCfg: resolveDocType((localStorage.getItem('doc_type') as DocType) || 'generic', loadCustomDocTypes())
+  };
+};
+
+// ============ NOTIFICATION ============
+const NOTICE_MS = 3500;
+
+/**
+ * ছোট ডায়ালগে বার্তা — Word এ অ্যাড-ইনের নিজস্ব টোস্ট নেই
+ * - এই পেজটিই ?notice= দিয়ে খোলে, কিছুক্ষণ পর নিজে বন্ধ হয়
+ * - ডায়ালগ খোলা না গেলে (যেমন আরেকটি খোলা) শুধু কনসোলে
+ */
+const notify = (text: string, type: 'success' | 'error' = 'success'): Promise<void> =>
+  new Promise(resolve => {
+    const url = `${location.origin}${location.pathname}?notice=${encodeURIComponent(text)}&type=${type}`;
+    Office.context.ui.displayDialogAsync(url, { height: 15, width: 30, displayInIframe: true }, result => {
+      if (result.status !== Office.AsyncResultStatus.Succeeded) {
+        console.error(`Notice dialog failed (${result.error.message}):`, text);
+        resolve();
+        return;
+      }
+      const dialog = result.value;
+      const close = () => {
+        dialog.close();
+        resolve();
+      };
+      const timer = setTimeout(close, NOTICE_MS);
+      dialog.addEventHandler(Office.EventType.DialogEventReceived, () => {
+        clearTimeout(timer);
+        resolve();
+      });
+    });
+  });
+
+const renderNotice = (params: URLSearchParams) => {
+  const notice = document.getElementById('notice');
+  if (!notice) return;
+  notice.textContent = params.get('notice') ?? '';
+  notice.className = `notice notice-${params.get('type') === 'error' ? 'error' : 'success'}`;
+};
+
+/**
+ * কমান্ড চালানো — ত্রুটি নোটিফিকেশনে, শেষে অবশ্যই event.completed()
+ */
+const runCommand = (action: () => Promise<void>) => async (event: Office.AddinCommands.Event) => {
+  try {
+    await action();
+  } catch (error: unknown) {
+    console.error(error);
+    await notify(error instanceof Error && error.message ? error.message : 'ত্রুটি হয়েছে।', 'error');
+  } finally {
+    event.completed();
+  }
+};
+
+/** সিলেকশন লাগবে এমন কমান্ডের জন্য — না থাকলে বা বিজয় এনকোডিং হলে বার্তা দিয়ে null */
+const requireSelection = async (hint: string): Promise<string | null> => {
+  const selected = await getSelectedText();
+  if (!selected.trim()) {
+    await notify(hint, 'error');
+    return null;
+  }
+  if (looksLikeBijoy(selected)) {
+    await notify('লেখাটি বিজয় (SutonnyMJ) এনকোডিং এ মনে হচ্ছে — আগে প্যানেল থেকে ইউনিকোডে রূপান্তর করুন', 'error');
+    return null;
+  }
+  return selected;
+};
+
+// ============ COMMANDS ============
+
+// দ্রুত বানান পরীক্ষা — লাইভ মোডের মতো হালকা প্রম্পট, ভুলগুলো হাইলাইট
+const quickSpellCheck = async () => {
+  if (!(await requireSelection('বানান পরীক্ষার জন্য প্রথমে টেক্সট সিলেক্ট করুন'))) return;
+  const text = await getTextFromWord(); // সিলেকশন পড়ে position এর ভিত্তিও ঠিক করে
+  const { aiConfig, useAi, docCfg } = loadCommandSettings();
+  const dictionary = loadDictionary();
+
+  const local = runLocalSpellCheck(text);
+  const aiResult = useAi
+    ? await callAIJsonCached(buildLivePrompt(text, docCfg, wordsPresentIn(text, protectedWords(dictionary))), {
+        config: aiConfig,
+        validate: validateMainResponse,
+        temperature: 0.1
+      })
+    : null;
+
+  const corrections = filterAlternativesByGlossary(
+    filterCorrections(mergeCorrections(local, aiResult?.spellingErrors || []), dictionary),
+    c => c.wrong,
+    loadGlossary()
+  );
+  if (corrections.length === 0) {
+    await notify('কোনো বানান ভুল পাওয়া যায়নি ✓');
+    return;
+  }
+
+  await highlightMultipleInWord(corrections.map(c => ({ text: c.wrong, color: '#fee2e2', position: c.position })));
+  const words = [...new Map(corrections.map(c => [normalize(c.wrong), c.wrong.trim()])).values()].slice(0, 3).join(', ');
+  await notify(`${corrections.length}টি সম্ভাব্য বানান ভুল হাইলাইট করা হয়েছে: ${words}${corrections.length > 3 ? ' …' : ''}`);
+};
+
+// সিলেকশন সাধু/চলিতে — AI থাকলে পূর্ণ রূপান্তর, না থাকলে লোকাল তালিকা
+const convertSelectionStyle = (target: 'sadhu' | 'cholito') => async () => {
+  const label = target === 'cholito' ? 'চলিত' : 'সাধু';
+  const original = await requireSelection(`${label} রীতিতে রূপান্তরের জন্য প্রথমে টেক্সট সিলেক্ট করুন`);
+  if (!original) return;
+  const { aiConfig, useAi, applyMode } = loadCommandSettings();
+
+  const rewritten = useAi
+    ? await rewriteText(original, chunkText => buildStyleRewritePrompt(chunkText, target), aiConfig)
+    : convertStyleLocally(original, target);
+  const hunks = diffHunks(diffWords(original, rewritten));
+  if (hunks.length === 0) {
+    await notify(`লেখাটি ইতিমধ্যে ${label} রীতিতে ✓`);
+    return;
+  }
+
+  const success = await applyHunksToSelection(original, hunks, rewritten, { mode: applyMode });
+  await notify(
+    success ? `${hunks.length}টি পরিবর্তন প্রয়োগ হয়েছে (${label}) ✓` : 'সিলেকশন বদলে গেছে — আবার সিলেক্ট করে চেষ্টা করুন',
+    success ? 'success' : 'error'
+  );
+};
+
+const clearAllHighlights = async () => {
+  await clearHighlights();
+  await notify('সব হাইলাইট মুছে ফেলা হয়েছে ✓');
+};
+
+// সংখ্যা, তারিখ ও মুদ্রা — সিলেকশন থাকলে শুধু সেখানে, নাহলে পুরো ডকুমেন্ট
+const fixNumerals = async () => {
+  const text = await getTextFromWord();
+  if (!text.trim()) {
+    await notify('ডকুমেন্টে কোনো টেক্সট নেই', 'error');
+    return;
+  }
+  const { applyMode, docCfg } = loadCommandSettings();
+  const issues = checkNumerals(text, docCfg.numberConvention ?? detectConvention(text));
+  if (issues.length === 0) {
+    await notify('সংখ্যা, তারিখ ও মুদ্রা রীতি অনুযায়ী আছে ✓');
+    return;
+  }
+
+  const result = await applyBulkEdits(
+    issues.map(n => ({ oldText: n.current, newText: n.suggestion, position: n.position, note: n.reason })),
+    { mode: applyMode }
+  );
+  if (!result || result.applied.length === 0) {
+    await notify('সংখ্যাগুলো ডকুমেন্টে খুঁজে পাওয়া যায়নি।', 'error');
+    return;
+  }
+  await notify(`${result.applied.length}টি সংখ্যা/তারিখ/মুদ্রা ঠিক করা হয়েছে ✓`);
+};
+
+// ============ REGISTRATION ============
+Office.onReady(() => {
+  const params = new URLSearchParams(location.search);
+  if (params.has('notice')) {
+    renderNotice(params);
+    return;
+  }
+
+  // manifest.xml এর <FunctionName> এর সাথে মিল থাকতে হবে
+  Office.actions.associate('quickSpellCheck', runCommand(quickSpellCheck));
+  Office.actions.associate('convertToCholito', runCommand(convertSelectionStyle('cholito')));
+  Office.actions.associate('convertToSadhu', runCommand(convertSelectionStyle('sadhu')));
+  Office.actions.associate('clearAllHighlights', runCommand(clearAllHighlights));
+  Office.actions.associate('fixNumerals', runCommand(fixNumerals));
+});
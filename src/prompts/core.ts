@@ -1,27 +1,87 @@
 // src/prompts/core.ts
 
+import { GlossaryEntry } from '../types';
+
+/**
+ * প্রম্পট ভার্সন — প্রম্পট বদলালে বাড়ান, তাহলে পুরনো ক্যাশ আর ব্যবহার হবে না
+ */
+export const PROMPT_VERSION = '1';
+
 /**
  * ডকুমেন্ট টাইপ ডেফিনিশন
+ * - BuiltInDocType: অ্যাপের সাথে আসা টাইপ
+ * - DocType: বিল্ট-ইন অথবা ইউজারের তৈরি টাইপের id ('custom-...')
+ */
+export type BuiltInDocType = 'generic' | 'academic' | 'official' | 'marketing' | 'social';
+// (string & {}) — বিল্ট-ইন নামগুলো plain string এ মিশে যায় না, অটোকমপ্লিট ও তুলনা টাইপ-চেকড থাকে
+export type DocType = BuiltInDocType | (string & {});
+
+/**
+ * সংখ্যা, তারিখ ও মুদ্রা লেখার রীতি
+ * - digits: ০-৯ না 0-9
+ * - date: numeric (১২/০৩/২০২৪) না long (১২ মার্চ ২০২৪)
+ * - currency: taka (৫০০ টাকা), symbol (৳৫০০) না tk (Tk 500)
+ */
+export interface NumberConvention {
+  digits: 'bangla' | 'latin';
+  date: 'numeric' | 'long';
+  currency: 'taka' | 'symbol' | 'tk';
+}
+
+/**
+ * পাঠযোগ্যতার সীমা — এর বাইরে গেলে ড্যাশবোর্ডে সতর্কতা
+ * - longSentenceWords: এর বেশি শব্দের বাক্য "দীর্ঘ"
+ * - maxAvgSentenceWords / maxParagraphWords: গড় বাক্য ও প্যারাগ্রাফের ঊর্ধ্বসীমা
+ * - minReadability: পাঠযোগ্যতা স্কোরের (০-১০০) নিম্নসীমা
+ * - maxPassiveShare: কর্মবাচ্য বাক্যের সর্বোচ্চ অনুপাত (০-১)
+ * - minLexicalDiversity: শব্দবৈচিত্র্যের (০-১) নিম্নসীমা
  */
-export type DocType = 'generic' | 'academic' | 'official' | 'marketing' | 'social';
+export interface ReadabilityThresholds {
+  longSentenceWords: number;
+  maxAvgSentenceWords: number;
+  maxParagraphWords: number;
+  minReadability: number;
+  maxPassiveShare: number;
+  minLexicalDiversity: number;
+}
+
+export const DEFAULT_READABILITY: ReadabilityThresholds = {
+  longSentenceWords: 25,
+  maxAvgSentenceWords: 18,
+  maxParagraphWords: 150,
+  minReadability: 50,
+  maxPassiveShare: 0.25,
+  minLexicalDiversity: 0.5
+};
 
 /**
  * ডকুমেন্ট টাইপ কনফিগ ইন্টারফেস
  * - label/description: UI তে দেখানোর জন্য (বাংলা)
  * - roleInstruction: AI এর জন্য ইনস্ট্রাকশন (ইংরেজি - ফাস্ট প্রসেসিং এর জন্য)
+ * - numberConvention: না থাকলে ডকুমেন্টে যেটি বেশি সেটিই রীতি
+ * - readability: না থাকলে DEFAULT_READABILITY
  */
 export interface DocTypeConfig {
   label: string;
   description: string;
-  defaultTone: string; // UI selection help
+  defaultTone: string; // Picked as the tone when this type is selected
   roleInstruction: string; // AI Instruction (English)
   checkFocus: string; // Specific focus area (English)
+  numberConvention?: NumberConvention;
+  readability?: ReadabilityThresholds;
+}
+
+/**
+ * ইউজারের তৈরি ডকুমেন্ট টাইপ
+ */
+export interface CustomDocType extends DocTypeConfig {
+  id: string;
 }
 
 /**
  * ডকুমেন্ট টাইপ কনফিগারেশন (Hybrid Approach)
  */
-export const DOC_TYPE_CONFIG: { [key in DocType]: DocTypeConfig } = {
+export const DOC_TYPE_CONFIG: { [key in BuiltInDocType]: DocTypeConfig } = {
   generic: {
     label: 'সাধারণ লেখা',
     description: 'যেকোনো সাধারণ লেখা – নিরপেক্ষভাবে বিশ্লেষণ করবে।',
@@ -34,44 +94,114 @@ export const DOC_TYPE_CONFIG: { [key in DocType]: DocTypeConfig } = {
     description: 'গবেষণা পত্র, প্রবন্ধ, থিসিস ইত্যাদি।',
     defaultTone: 'academic',
     roleInstruction: 'Act as an academic editor for Bengali research papers.',
-    checkFocus: 'Ensure formal terminology, objective tone, logical flow, and proper citation format.'
+    checkFocus: 'Ensure formal terminology, objective tone, logical flow, and proper citation format.',
+    numberConvention: { digits: 'bangla', date: 'long', currency: 'taka' },
+    readability: {
+      longSentenceWords: 35,
+      maxAvgSentenceWords: 24,
+      maxParagraphWords: 220,
+      minReadability: 30,
+      maxPassiveShare: 0.4,
+      minLexicalDiversity: 0.55
+    }
   },
   official: {
     label: 'অফিশিয়াল চিঠি',
     description: 'দাপ্তরিক আবেদন, নোটিশ, অফিসিয়াল ইমেইল ইত্যাদি।',
     defaultTone: 'formal',
     roleInstruction: 'Act as an expert in official Bengali correspondence.',
-    checkFocus: 'Ensure politeness, formal address (honorifics), clarity of purpose, and professional closing.'
+    checkFocus: 'Ensure politeness, formal address (honorifics), clarity of purpose, and professional closing.',
+    numberConvention: { digits: 'bangla', date: 'long', currency: 'taka' },
+    readability: {
+      longSentenceWords: 30,
+      maxAvgSentenceWords: 20,
+      maxParagraphWords: 120,
+      minReadability: 40,
+      maxPassiveShare: 0.35,
+      minLexicalDiversity: 0.45
+    }
   },
   marketing: {
     label: 'মার্কেটিং কপি',
     description: 'বিজ্ঞাপন, সেলস পেজ, প্রমোশনাল লেখা ইত্যাদি।',
     defaultTone: 'persuasive',
     roleInstruction: 'Act as a professional Bengali copywriter.',
-    checkFocus: 'Focus on persuasive language, engagement, clear Call-to-Action (CTA), and customer appeal.'
+    checkFocus: 'Focus on persuasive language, engagement, clear Call-to-Action (CTA), and customer appeal.',
+    numberConvention: { digits: 'bangla', date: 'long', currency: 'symbol' },
+    readability: {
+      longSentenceWords: 18,
+      maxAvgSentenceWords: 12,
+      maxParagraphWords: 80,
+      minReadability: 65,
+      maxPassiveShare: 0.15,
+      minLexicalDiversity: 0.5
+    }
   },
   social: {
     label: 'সোশ্যাল মিডিয়া পোস্ট',
     description: 'ফেসবুক, ইনস্টাগ্রাম, টুইটার ইত্যাদির লেখা।',
     defaultTone: 'informal',
     roleInstruction: 'Act as a Bengali social media manager.',
-    checkFocus: 'Focus on engaging tone, friendly language, hashtags capability, and brevity.'
+    checkFocus: 'Focus on engaging tone, friendly language, hashtags capability, and brevity.',
+    readability: {
+      longSentenceWords: 16,
+      maxAvgSentenceWords: 12,
+      maxParagraphWords: 60,
+      minReadability: 70,
+      maxPassiveShare: 0.15,
+      minLexicalDiversity: 0.45
+    }
   }
 };
 
+export const BUILT_IN_DOC_TYPES = Object.keys(DOC_TYPE_CONFIG) as BuiltInDocType[];
+
+export const isBuiltInDocType = (t: DocType): t is BuiltInDocType => t in DOC_TYPE_CONFIG;
+
+/**
+ * id থেকে কনফিগ — বিল্ট-ইন, তারপর কাস্টম; না পেলে সাধারণ লেখা
+ */
+export const resolveDocType = (t: DocType, customTypes: CustomDocType[] = []): DocTypeConfig => {
+  if (isBuiltInDocType(t)) return DOC_TYPE_CONFIG[t];
+  return customTypes.find(c => c.id === t) ?? DOC_TYPE_CONFIG.generic;
+};
+
 /**
  * UI এর জন্য লেবেল ফাংশন
  */
-export const getDocTypeLabel = (t: DocType): string => DOC_TYPE_CONFIG[t].label;
+export const getDocTypeLabel = (t: DocType, customTypes: CustomDocType[] = []): string =>
+  resolveDocType(t, customTypes).label;
 
 /**
  * মেইন প্রম্পট বিল্ডার (Hybrid Strategy)
  * - Instructions: English (For Logic & Speed)
  * - Content: Bangla (User's Text)
  * - Output: JSON with Bangla Values
+ * - docCfg: resolveDocType দিয়ে পাওয়া কনফিগ (বিল্ট-ইন বা কাস্টম)
+ * - protectedWords: ইউজারের অভিধানের শব্দ — এগুলো ভুল হিসেবে ধরা যাবে না
+ * - glossary: প্রতিষ্ঠানের পরিভাষা — AI যেন এর বিরোধী সাজেশন না দেয়
  */
-export const buildMainPrompt = (text: string, docType: DocType): string => {
-  const docCfg = DOC_TYPE_CONFIG[docType];
+export const buildMainPrompt = (
+  text: string,
+  docCfg: DocTypeConfig,
+  protectedWords: string[] = [],
+  glossary: GlossaryEntry[] = []
+): string => {
+  const dictionaryRule = protectedWords.length > 0
+    ? `
+4. **User Dictionary (Never flag):**
+   - These words are correct as written. Do NOT report them in spellingErrors or change them anywhere:
+   - ${protectedWords.join(', ')}
+`
+    : '';
+  const glossaryRule = glossary.length > 0
+    ? `
+${protectedWords.length > 0 ? 5 : 4}. **House Terminology (Mandatory):**
+   - Always use the preferred term. Never suggest a forbidden variant, and never change a preferred term.
+   - Do not report preferred terms as spelling errors.
+${glossary.map(e => `   - "${e.term}" (not: ${e.variants.join(', ')})${e.note ? ` — ${e.note}` : ''}`).join('\n')}
+`
+    : '';
   
   return `
 ${docCfg.roleInstruction}
@@ -98,7 +228,7 @@ INPUT TEXT:
    - Return raw JSON only. 
    - NO Markdown code blocks (like \`\`\`json).
    - Values inside JSON must be in **Bengali**.
-
+${dictionaryRule}${glossaryRule}
 OUTPUT JSON STRUCTURE:
 {
   "spellingErrors": [
@@ -140,4 +270,32 @@ OUTPUT JSON STRUCTURE:
   ]
 }
 `;
-};
\ No newline at end of file
+};
+/**
+ * লাইভ (টাইপ করার সময়) প্রম্পট — শুধু বানান ও বিরামচিহ্ন
+ * - এক প্যারাগ্রাফের জন্য, ছোট উত্তর যাতে দ্রুত আসে
+ */
+export const buildLivePrompt = (text: string, docCfg: DocTypeConfig, protectedWords: string[] = []): string => {
+  const dictionaryRule = protectedWords.length > 0
+    ? `- Never flag these words (user dictionary): ${protectedWords.join(', ')}\n`
+    : '';
+
+  return `
+${docCfg.roleInstruction}
+Quickly check this single Bengali paragraph for definite spelling errors and missing/incorrect sentence-ending punctuation only.
+
+INPUT TEXT:
+"""${text}"""
+
+RULES:
+- "position" is the 0-based word index (split by whitespace).
+- Report only certain errors. Do not touch names or English terms.
+- Return raw JSON only, values in Bengali.
+${dictionaryRule}
+OUTPUT JSON STRUCTURE:
+{
+  "spellingErrors": [{ "wrong": "word", "suggestions": ["correct"], "position": 0 }],
+  "punctuationIssues": [{ "issue": "short", "currentSentence": "sentence", "correctedSentence": "fixed", "explanation": "reason", "position": 0 }]
+}
+`;
+};
@@ -46,6 +46,27 @@ If no changes are needed (text is already in target style), return: { "styleConv
 `;
 };
 
+/**
+ * Style Rewrite Prompt Builder (পুরো টেক্সট রূপান্তর)
+ */
+export const buildStyleRewritePrompt = (text: string, style: string): string => {
+  return `${styleInstructions[style]}
+
+INPUT TEXT:
+"""${text}"""
+
+INSTRUCTIONS:
+1. Rewrite the WHOLE text in the target style (${style}).
+2. Keep the meaning, names, numbers and paragraph breaks unchanged.
+3. Change only verbs, pronouns and words that differ between the styles; leave everything else word for word.
+
+OUTPUT FORMAT (JSON ONLY, No Markdown):
+{
+  "rewrittenText": "full converted text in Bengali"
+}
+`;
+};
+
 /**
  * Style Types
  */
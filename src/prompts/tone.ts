@@ -77,6 +77,27 @@ If no changes are needed, return: { "toneConversions": [] }
 `;
 };
 
+/**
+ * Tone Rewrite Prompt Builder (পুরো টেক্সট রূপান্তর)
+ */
+export const buildToneRewritePrompt = (text: string, tone: string): string => {
+  return `${toneInstructions[tone]}
+
+INPUT TEXT:
+"""${text}"""
+
+INSTRUCTIONS:
+1. Rewrite the WHOLE text in the target tone (${tone}).
+2. Keep the meaning, facts, names, numbers and paragraph breaks unchanged.
+3. Change only what the tone requires; leave everything else word for word.
+
+OUTPUT FORMAT (JSON ONLY, No Markdown):
+{
+  "rewrittenText": "full converted text in Bengali"
+}
+`;
+};
+
 /**
  * UI তে দেখানোর জন্য বাংলা নাম
  */
@@ -0,0 +1,31 @@
+// src/prompts/transliteration.ts
+
+/**
+ * Transliteration Prompt Builder (রোমান হরফের বাংলা → বাংলা লিপি)
+ * - লোকাল Avro রূপান্তর খসড়া হিসেবে যায়; AI শুধু অস্পষ্ট শব্দ ঠিক করে
+ */
+export const buildTransliterationPrompt = (items: Array<{ roman: string; draft: string }>): string => {
+  const list = items.map(i => `- roman: "${i.roman}" | draft: "${i.draft}"`).join('\n');
+
+  return `Role: Expert Bengali Editor.
+Task: The items below are Bengali written in Latin script ("Banglish", e.g. "ami bhalo achi").
+Each item has a phonetic draft produced by an Avro-style transliterator. Drafts are often wrong for
+ambiguous letters (t/T, d/D, s/sh/Sh, j/z, o/O, missing or extra conjuncts, word-final vowels).
+
+ITEMS:
+${list}
+
+INSTRUCTIONS:
+1. Write each item in correct standard Bengali spelling, as a native writer would type it.
+2. Keep the words, their order, punctuation and numbers; do NOT translate, paraphrase or add words.
+3. English words that are commonly used in Bengali (report, meeting, office) should be written phonetically in Bengali script.
+4. **"roman" field**: Must be an EXACT copy of the item's roman text.
+
+OUTPUT FORMAT (JSON ONLY, No Markdown):
+{
+  "transliterations": [
+    { "roman": "exact roman text", "bangla": "বাংলা লেখা" }
+  ]
+}
+`;
+};
@@ -71,7 +71,9 @@ export type SectionKey =
 
 export type ViewFilter = 'all' | 'spelling' | 'punctuation';
 
-export type ModalType = 'none' | 'settings' | 'instructions' | 'tone' | 'style' | 'doctype' | 'mainMenu';
+export type ModalType =
+  | 'none' | 'settings' | 'instructions' | 'tone' | 'style' | 'doctype' | 'docTypeEditor' | 'mainMenu'
+  | 'dictionary' | 'glossary' | 'rewrite' | 'numberWords' | 'report' | 'history' | 'bijoy';
 
 export interface DocTypeConfig {
   label: string;
@@ -90,4 +92,206 @@ export interface Stats {
 export interface Message {
   text: string;
   type: 'success' | 'error';
-}
\ No newline at end of file
+}
+
+/* -------------------------------------------------------------------------- */
+/*                           AI RESPONSES                                     */
+/* -------------------------------------------------------------------------- */
+
+export interface MainCheckResponse {
+  spellingErrors: Correction[];
+  languageStyleMixing: StyleMixing | null;
+  punctuationIssues: PunctuationIssue[];
+  euphonyImprovements: EuphonyImprovement[];
+}
+
+export interface ToneCheckResponse {
+  toneConversions: ToneSuggestion[];
+}
+
+export interface StyleCheckResponse {
+  styleConversions: StyleSuggestion[];
+}
+
+export interface RewriteResponse {
+  rewrittenText: string;
+}
+
+export interface TransliterationResponse {
+  transliterations: Array<{ roman: string; bangla: string }>;
+}
+
+/**
+ * সংখ্যা/তারিখ/মুদ্রার অসঙ্গতি (লোকাল চেকার)
+ */
+export interface NumeralIssue {
+  kind: 'digits' | 'date' | 'currency';
+  current: string;
+  suggestion: string;
+  reason: string;
+  position: number;
+}
+
+/**
+ * পরিভাষা গ্লসারির একটি এন্ট্রি
+ * - term: প্রতিষ্ঠানের পছন্দের রূপ; variants: যে রূপগুলো চলবে না
+ */
+export interface GlossaryEntry {
+  term: string;
+  variants: string[];
+  note: string;
+}
+
+/**
+ * লেখায় পাওয়া নিষিদ্ধ রূপ (লোকাল পরিভাষা চেকার)
+ */
+export interface TerminologyIssue {
+  current: string;
+  suggestion: string;
+  term: string;
+  note: string;
+  position: number;
+}
+
+/**
+ * পাঠযোগ্যতা মেট্রিক্সের একটি বাক্য
+ * - position: প্রথম শব্দের 0-based word index
+ */
+export interface SentenceInfo {
+  text: string;
+  words: number;
+  position: number;
+}
+
+/**
+ * লোকাল পাঠযোগ্যতা মেট্রিক্স (utils/readability)
+ */
+export interface ReadabilityMetrics {
+  sentenceCount: number;
+  wordCount: number;
+  avgSentenceWords: number;
+  longestSentences: SentenceInfo[];
+  sentenceLengths: number[];
+  paragraphWords: number[];
+  lexicalDiversity: number;
+  avgSyllables: number;
+  readabilityScore: number;
+  passiveShare: number;
+  compoundVerbShare: number;
+}
+
+/* -------------------------------------------------------------------------- */
+/*                           ANALYSIS REPORT                                  */
+/* -------------------------------------------------------------------------- */
+
+export type FindingCategory =
+  | 'spelling' | 'terminology' | 'tone' | 'style' | 'mixing' | 'punctuation' | 'euphony' | 'numerals';
+
+/**
+ * যেকোনো ক্যাটাগরির সাজেশন, রিপোর্টের জন্য এক রূপে
+ * - context: যে বাক্যে পাওয়া গেছে
+ */
+export interface ReportFinding {
+  category: FindingCategory;
+  current: string;
+  suggestion: string;
+  explanation: string;
+  context: string;
+  position?: number;
+}
+
+/**
+ * ইউজারের সিদ্ধান্ত — গৃহীত বা বাতিল
+ */
+export interface ReviewDecision extends ReportFinding {
+  status: 'accepted' | 'dismissed';
+  at: number;
+}
+
+export interface AnalysisReport {
+  generatedAt: number;
+  docType: string;
+  tone: string;
+  style: string;
+  provider: string;
+  model: string;
+  stats: Stats;
+  readability: ReadabilityMetrics | null;
+  contentAnalysis: ContentAnalysis | null;
+  findings: ReportFinding[];
+  decisions: ReviewDecision[];
+}
+
+/* -------------------------------------------------------------------------- */
+/*                           SESSION HISTORY                                  */
+/* -------------------------------------------------------------------------- */
+
+/**
+ * একটি পরীক্ষার সব ফলাফল — পুনরায় প্যানেলে খোলার জন্য
+ */
+export interface HistoryResults {
+  corrections: Correction[];
+  toneSuggestions: ToneSuggestion[];
+  styleSuggestions: StyleSuggestion[];
+  languageStyleMixing: StyleMixing | null;
+  punctuationIssues: PunctuationIssue[];
+  euphonyImprovements: EuphonyImprovement[];
+  numeralIssues: NumeralIssue[];
+  terminologyIssues: TerminologyIssue[];
+  contentAnalysis: ContentAnalysis | null;
+}
+
+/**
+ * ইতিহাসের একটি এন্ট্রি
+ * - docId: ডকুমেন্ট সেটিংসে রাখা id (utils/history)
+ * - title: লেখার প্রথম লাইন, তালিকায় দেখানোর জন্য
+ */
+export interface HistoryEntry {
+  id: string;
+  docId: string;
+  title: string;
+  timestamp: number;
+  docType: string;
+  tone: string;
+  style: string;
+  model: string;
+  stats: Stats;
+  readability: ReadabilityMetrics | null;
+  results: HistoryResults;
+}
+
+/* -------------------------------------------------------------------------- */
+/*                           STYLE MAP                                        */
+/* -------------------------------------------------------------------------- */
+
+export type ParagraphStyle = 'sadhu' | 'cholito' | 'mixed' | 'neutral';
+
+/**
+ * ডকুমেন্ট ম্যাপের একটি প্যারাগ্রাফ
+ * - index: Word এর body.paragraphs এ অবস্থান
+ * - sadhu/cholito: পাওয়া চিহ্নের (সর্বনাম/ক্রিয়া) সংখ্যা
+ */
+export interface StyleMapEntry {
+  index: number;
+  text: string;
+  preview: string;
+  sadhu: number;
+  cholito: number;
+  label: ParagraphStyle;
+}
+
+/* -------------------------------------------------------------------------- */
+/*                           PHONETIC (BANGLISH)                              */
+/* -------------------------------------------------------------------------- */
+
+/**
+ * রোমান হরফে লেখা বাংলার একটি অংশ
+ * - start/end: মূল টেক্সটে অক্ষরের অবস্থান
+ * - bangla: রূপান্তরিত লেখা
+ */
+export interface BanglishSpan {
+  text: string;
+  start: number;
+  end: number;
+  bangla: string;
+}
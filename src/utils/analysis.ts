@@ -0,0 +1,118 @@
+/* -------------------------------------------------------------------------- */
+/*                        CACHED, CHUNKED ANALYSIS                            */
+/* -------------------------------------------------------------------------- */
+
+import { callAIJson } from './api';
+import { AIConfig } from './providers';
+import { getCached, setCached, hashString } from './cache';
+import {
+  TextChunk,
+  packUnits,
+  mapWithConcurrency,
+  sliceResultByWords,
+  CHUNK_CONCURRENCY
+} from './chunker';
+import { PROMPT_VERSION } from '../prompts/core';
+
+export interface AnalysisPart<T> {
+  result: T | null;
+  wordOffset: number;
+}
+
+export interface CachedRunOptions<T> {
+  config: AIConfig;
+  buildPrompt: (text: string) => string;
+  validate: (raw: unknown) => T | null;
+  temperature: number;
+  /** unit এর টেক্সট অনুযায়ী প্রম্পটে যা যোগ হয় (অভিধান, পরিভাষা) — unit এর ক্যাশ key তে যায় */
+  unitContext?: (text: string) => unknown;
+  /** true হলে ক্যাশ উপেক্ষা করে নতুন করে পাঠানো (ফলাফল আবার ক্যাশ হয়) */
+  force?: boolean;
+  /** নতুন রিকোয়েস্ট সংখ্যা জানা গেলে একবার, প্রতিটি শেষ হলে একবার */
+  onPlanned?: (requests: number) => void;
+  onChunkDone?: () => void;
+}
+
+/**
+ * ক্যাশ key এর প্রম্পট-অংশ
+ * - খালি টেক্সট দিয়ে বানানো প্রম্পটে doc type, টোন, রীতি থাকে
+ * - অভিধান / পরিভাষা চাঙ্কের টেক্সট অনুযায়ী বাছাই হয়, তাই এখানে নয় — unitContext দেখুন
+ * - সাথে প্রম্পট ভার্সন, প্রোভাইডার, মডেল ও temperature
+ */
+const promptSignature = (
+  config: AIConfig,
+  buildPrompt: (text: string) => string,
+  temperature: number
+): string =>
+  hashString(JSON.stringify([PROMPT_VERSION, config.provider, config.settings.model, temperature, buildPrompt('')]));
+
+export const unitCacheKey = (
+  signature: string,
+  unit: TextChunk,
+  unitContext?: (text: string) => unknown
+): string => {
+  const key = `${signature}:${hashString(unit.text.trim())}`;
+  return unitContext ? `${key}:${hashString(JSON.stringify(unitContext(unit.text)))}` : key;
+};
+
+/**
+ * প্যারাগ্রাফ unit গুলো বিশ্লেষণ — ক্যাশে থাকলে সেখান থেকে, না থাকলে AI তে
+ * - ক্যাশ-মিস unit গুলো একসাথে প্যাক করে পাঠানো হয়
+ * - উত্তর প্যারাগ্রাফ অনুযায়ী ভাগ করে আলাদা আলাদা ক্যাশ হয়
+ * - ফলাফল document order এ, position প্যারাগ্রাফ-ভিত্তিক (wordOffset যোগ করলে গ্লোবাল)
+ */
+export const runCachedAnalysis = async <T>(
+  units: TextChunk[],
+  options: CachedRunOptions<T>
+): Promise<AnalysisPart<T>[]> => {
+  const { config, buildPrompt, validate, temperature, unitContext, force = false } = options;
+  const signature = promptSignature(config, buildPrompt, temperature);
+  const keyOf = (unit: TextChunk) => unitCacheKey(signature, unit, unitContext);
+
+  const parts: AnalysisPart<T>[] = [];
+  const misses: TextChunk[] = [];
+
+  for (const unit of units) {
+    const hit = force ? undefined : getCached<T>(keyOf(unit));
+    if (hit !== undefined) parts.push({ result: hit, wordOffset: unit.wordOffset });
+    else misses.push(unit);
+  }
+
+  const chunks = packUnits(misses);
+  options.onPlanned?.(chunks.length);
+
+  const fresh = await mapWithConcurrency(chunks, CHUNK_CONCURRENCY, async (chunk) => {
+    const raw = await callAIJson(buildPrompt(chunk.text), config, { temperature });
+    const result = raw ? validate(raw) : null;
+    options.onChunkDone?.();
+
+    return chunk.units.map(({ unit, localOffset }, i): AnalysisPart<T> => {
+      const end = chunk.units[i + 1]?.localOffset ?? Infinity;
+      const slice = result ? sliceResultByWords(result, localOffset, end) : null;
+      if (slice) setCached(keyOf(unit), slice);
+      return { result: slice, wordOffset: unit.wordOffset };
+    });
+  });
+
+  return [...parts, ...fresh.flat()].sort((a, b) => a.wordOffset - b.wordOffset);
+};
+
+/**
+ * পুরো টেক্সটের একটিমাত্র কল ক্যাশ সহ (কনটেন্ট বিশ্লেষণ)
+ */
+export const callAIJsonCached = async <T>(
+  prompt: string,
+  options: Omit<CachedRunOptions<T>, 'buildPrompt' | 'unitContext' | 'onPlanned' | 'onChunkDone'>
+): Promise<T | null> => {
+  const { config, validate, temperature, force = false } = options;
+  const key = hashString(JSON.stringify([PROMPT_VERSION, config.provider, config.settings.model, temperature, prompt]));
+
+  if (!force) {
+    const hit = getCached<T>(key);
+    if (hit !== undefined) return hit;
+  }
+
+  const result = validate(await callAIJson(prompt, config, { temperature }));
+  if (result) setCached(key, result);
+  return result;
+};
@@ -1,40 +1,44 @@
 // src/utils/api.ts
 
-import { parseAIResponse, extractTextFromGeminiResponse } from './jsonFixer';
+import { parseAIResponse } from './jsonFixer';
+import { PROVIDERS, AIConfig } from './providers';
+import { apiScheduler, isAbortError } from './scheduler';
 
-interface CallGeminiOptions {
+interface CallAIOptions {
   temperature?: number;
 }
 
 /**
- * Call Gemini API with JSON response mode
+ * Call the selected AI provider with JSON response mode
  * Optimized for speed and strictly typed responses
+ * - Goes through the shared scheduler (queue, retry/backoff, cancellation)
  */
-export const callGeminiJson = async (
+export const callAIJson = async (
   prompt: string,
-  apiKey: string,
-  selectedModel: string,
-  options: CallGeminiOptions = {}
-): Promise<any | null> => {
+  config: AIConfig,
+  options: CallAIOptions = {}
+): Promise<unknown> => {
   const { temperature = 0.2 } = options;
-  
-  const url = `https://generativelanguage.googleapis.com/v1beta/models/${selectedModel}:generateContent?key=${apiKey}`;
+  const provider = PROVIDERS[config.provider];
+  const { settings } = config;
+
+  // লোকাল প্রোভাইডার: নেটওয়ার্ক ছাড়াই উত্তর
+  if (provider.respondLocally) {
+    return parseAIResponse(provider.respondLocally(prompt));
+  }
+
+  if (!provider.buildRequest || !provider.extractText) {
+    throw new Error(`${provider.label} প্রোভাইডারটি সঠিকভাবে কনফিগার করা নেই।`);
+  }
+
+  const { url, init } = provider.buildRequest(prompt, settings, temperature);
 
   let response: Response;
 
   try {
-    response = await fetch(url, {
-      method: 'POST',
-      headers: { 'Content-Type': 'application/json' },
-      body: JSON.stringify({
-        contents: [{ parts: [{ text: prompt }] }],
-        generationConfig: {
-          responseMimeType: 'application/json', // Force JSON mode for speed
-          temperature
-        }
-      })
-    });
+    response = await apiScheduler.fetch(url, init);
   } catch (err: any) {
+    if (isAbortError(err)) throw err;
     console.error('Network error:', err);
     throw new Error('ইন্টারনেট সংযোগে সমস্যা হয়েছে। দয়া করে নেটওয়ার্ক চেক করে আবার চেষ্টা করুন।');
   }
@@ -46,24 +50,24 @@ export const callGeminiJson = async (
     if (status === 401 || status === 403) {
       userMessage = 'API Key বা অনুমতি (permission) সংক্রান্ত সমস্যা হয়েছে। Key সঠিক কিনা চেক করুন।';
     } else if (status === 429) {
-      userMessage = 'খুব দ্রুত রিকোয়েস্ট পাঠানো হচ্ছে। কিছুক্ষণ অপেক্ষা করে আবার চেষ্টা করুন (Rate Limit)।';
+      userMessage = 'খুব দ্রুত রিকোয়েস্ট পাঠানো হচ্ছে। কিছুক্ষণ অপেক্ষা করে আবার চেষ্টা করুন (Rate Limit)।';
     } else if (status === 404) {
-      userMessage = `মডেল (${selectedModel}) খুঁজে পাওয়া যায়নি। সেটিংস থেকে সঠিক মডেল সিলেক্ট করুন।`;
+      userMessage = `মডেল (${settings.model}) খুঁজে পাওয়া যায়নি। সেটিংস থেকে সঠিক মডেল ও URL সিলেক্ট করুন।`;
     } else if (status >= 500) {
-      userMessage = 'Gemini সার্ভারে সাময়িক সমস্যা হচ্ছে। কিছুক্ষণ পর আবার চেষ্টা করুন।';
+      userMessage = `${provider.label} সার্ভারে সাময়িক সমস্যা হচ্ছে। কিছুক্ষণ পর আবার চেষ্টা করুন।`;
     } else {
       userMessage = `সার্ভার ত্রুটি (Status: ${status})।`;
     }
 
     const bodyText = await response.text().catch(() => '');
-    console.error('Gemini API error:', status, bodyText);
+    console.error(`${provider.label} API error:`, status, bodyText);
     throw new Error(userMessage);
   }
 
   const data = await response.json();
-  const raw = extractTextFromGeminiResponse(data);
-  
+  const raw = provider.extractText(data);
+
   if (!raw) return null;
 
   return parseAIResponse(raw);
-};
\ No newline at end of file
+};
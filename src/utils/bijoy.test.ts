@@ -0,0 +1,56 @@
+import { describe, it, expect } from 'vitest';
+import { bijoyToUnicode, unicodeToBijoy, looksLikeBijoy } from './bijoy';
+
+// [বিজয় (SutonnyMJ), ইউনিকোড]
+const WORDS: Array<[string, string]> = [
+  ['Avgvi', 'আমার'],
+  ['‡Kvb', 'কোন'],
+  ['evsjv‡`k', 'বাংলাদেশ'],
+  ['¯^v¯’¨', 'স্বাস্থ্য'],
+  ['Ae¯’v', 'অবস্থা'],
+  ['e¨e¯’v', 'ব্যবস্থা'],
+  ['¯’vb', 'স্থান'],
+  ['cwiw¯’wZ', 'পরিস্থিতি'],
+  ['‡¯^”Qv', 'স্বেচ্ছা'],
+  ['Kg©KZ©v', 'কর্মকর্তা'],
+  ['cÖwZôvb', 'প্রতিষ্ঠান'],
+  ['‰ewkó¨', 'বৈশিষ্ট্য'],
+  ['we¯ÍvwiZ', 'বিস্তারিত'],
+  ['AšÍZ', 'অন্তত'],
+  ['gš¿x', 'মন্ত্রী'],
+  ['¯‹zj', 'স্কুল'],
+  ['m¤ú‡K©', 'সম্পর্কে'],
+  ['Dbœqb', 'উন্নয়ন'],
+  ['iæwU', 'রুটি'],
+  ['iƒc', 'রূপ'],
+  ['AvZ¥v', 'আত্মা'],
+  ['mgm¨v', 'সমস্যা'],
+  ['wkÿv', 'শিক্ষা'],
+  ['‡KŠkj', 'কৌশল'],
+  ['Mø', 'গ্ল']
+];
+
+describe('bijoyToUnicode', () => {
+  it.each(WORDS)('%s → %s', (bijoy, unicode) => {
+    expect(bijoyToUnicode(bijoy)).toBe(unicode.normalize('NFC'));
+  });
+});
+
+describe('unicodeToBijoy', () => {
+  it.each(WORDS)('%s ← %s round-trips', (_, unicode) => {
+    expect(bijoyToUnicode(unicodeToBijoy(unicode))).toBe(unicode.normalize('NFC'));
+  });
+
+  it('uses the half form with the lower glyph for স্থ and ন্ত', () => {
+    expect(unicodeToBijoy('স্থান')).toBe('¯’vb');
+    expect(unicodeToBijoy('অন্তত')).toBe('Aš—Z');
+  });
+});
+
+describe('looksLikeBijoy', () => {
+  it('spots Bijoy text but not English or Unicode Bangla', () => {
+    expect(looksLikeBijoy('Avgvi †`k evsjv‡`k')).toBe(true);
+    expect(looksLikeBijoy('This is plain English text')).toBe(false);
+    expect(looksLikeBijoy('আমার দেশ বাংলাদেশ')).toBe(false);
+  });
+});
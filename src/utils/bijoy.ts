@@ -0,0 +1,176 @@
+/* -------------------------------------------------------------------------- */
+/*                        BIJOY (SutonnyMJ ANSI) ⇄ UNICODE                    */
+/* -------------------------------------------------------------------------- */
+
+/**
+ * বিজয় ফন্ট পরিবার — SutonnyMJ, SulekhaMJ … (নাম MJ দিয়ে শেষ)
+ * - SutonnyOMJ ইউনিকোড ফন্ট, তাই বাদ
+ */
+export const isBijoyFont = (name: string | null | undefined): boolean =>
+  !!name && (/(?<!O)MJ$/i.test(name.trim()) || /bijoy/i.test(name));
+
+/** রূপান্তরের পর যে ইউনিকোড ফন্ট বসবে */
+export const UNICODE_FONTS = ['Nirmala UI', 'SolaimanLipi', 'Kalpurush', 'Nikosh', 'Noto Sans Bengali'];
+export const BIJOY_FONT = 'SutonnyMJ';
+
+const REPH = '\uE000'; // রূপান্তরের মাঝপথে রেফের চিহ্ন — পরে ক্লাস্টারের আগে বসে
+const ZWJ = '\u200D';
+const ZWNJ = '\u200C';
+
+/**
+ * [বিজয় গ্লিফ, ইউনিকোড] — একই ইউনিকোডের একাধিক গ্লিফ থাকলে প্রথমটি উল্টো রূপান্তরে ব্যবহৃত
+ * - ি ে ৈ ও রেফ (©) বিজয়ে দৃশ্যমান ক্রমে থাকে, তাই পরে আলাদাভাবে সাজানো
+ */
+const GLYPHS: Array<[string, string]> = [
+  // বিশেষ জোড়
+  ['i¨', `র${ZWJ}্য`],
+  // স্বরবর্ণ
+  ['A', 'অ'], ['B', 'ই'], ['C', 'ঈ'], ['D', 'উ'], ['E', 'ঊ'], ['F', 'ঋ'], ['G', 'এ'], ['H', 'ঐ'], ['I', 'ও'], ['J', 'ঔ'],
+  // ব্যঞ্জনবর্ণ
+  ['K', 'ক'], ['L', 'খ'], ['M', 'গ'], ['N', 'ঘ'], ['O', 'ঙ'], ['P', 'চ'], ['Q', 'ছ'], ['R', 'জ'], ['S', 'ঝ'], ['T', 'ঞ'],
+  ['U', 'ট'], ['V', 'ঠ'], ['W', 'ড'], ['X', 'ঢ'], ['Y', 'ণ'], ['Z', 'ত'], ['_', 'থ'], ['`', 'দ'], ['a', 'ধ'], ['b', 'ন'],
+  ['c', 'প'], ['d', 'ফ'], ['e', 'ব'], ['f', 'ভ'], ['g', 'ম'], ['h', 'য'], ['i', 'র'], ['j', 'ল'], ['k', 'শ'], ['l', 'ষ'],
+  ['m', 'স'], ['n', 'হ'], ['o', 'ড\u09BC'], ['p', 'ঢ\u09BC'], ['q', 'য\u09BC'], ['r', 'ৎ'], ['s', 'ং'], ['t', 'ঃ'], ['u', 'ঁ'],
+  // কার
+  ['v', 'া'], ['w', 'ি'], ['x', 'ী'], ['y', 'ু'], ['z', 'ু'], ['æ', 'ু'], ['~', 'ূ'], ['ƒ', 'ূ'], ['…', 'ৃ'], ['„', 'ৃ'],
+  ['‡', 'ে'], ['†', 'ে'], ['ˆ', 'ৈ'], ['‰', 'ৈ'], ['Š', 'ৗ'],
+  // ফলা ও হসন্ত
+  ['¨', '্য'], ['©', REPH], ['ª', '্র'], ['«', '্র'], ['Ö', '্র'], ['¡', '্ব'], ['¦', '্ব'], ['^', '্ব'], ['Ÿ', '্ব'],
+  ['¥', '্ম'], ['§', '্ম'], ['¬', '্ল'], ['ø', '্ল'], ['\u00AD', '্ল'], ['œ', '্ন'], ['è', '্ণ'], ['ú', '্প'], ['¢', '্ভ'],
+  ['£', '্ভ্র'], ['—', '্ত'], ['Í', '্ত'], ['‘', '্তু'], ['’', '্থ'], ['‹', '্ক'], ['“', '্ক'], ['Œ', '্ক্র'],
+  ['¿', '্ত্র'], ['&', `্${ZWNJ}`],
+  // অর্ধেক রূপ
+  ['®', 'ষ্'], ['¯', 'স্'], ['”', 'চ্'], ['•', 'ঙ্'], ['˜', 'দ্'], ['™', 'দ্'], ['š', 'ন্'], ['›', 'ন্'], ['¤', 'ম্'],
+  // যুক্তাক্ষর
+  ['°', 'ক্ক'], ['±', 'ক্ট'], ['²', 'ক্ষ্ণ'], ['³', 'ক্ত'], ['´', 'ক্ম'], ['µ', 'ক্র'], ['¶', 'ক্ষ'], ['ÿ', 'ক্ষ'],
+  ['·', 'ক্স'], ['¸', 'গু'], ['»', 'গ্ধ'], ['¼', 'ঙ্ক'], ['½', 'ঙ্গ'], ['¾', 'জ্জ'], ['À', 'জ্ঝ'], ['Á', 'জ্ঞ'],
+  ['Â', 'ঞ্চ'], ['Ã', 'ঞ্ছ'], ['Ä', 'ঞ্জ'], ['Å', 'ঞ্ঝ'], ['Æ', 'ট্ট'], ['Ç', 'ড্ড'], ['È', 'ণ্ট'], ['É', 'ণ্ঠ'],
+  ['Ê', 'ণ্ড'], ['Ë', 'ত্ত'], ['Ì', 'ত্থ'], ['Î', 'ত্র'], ['Ï', 'দ্দ'], ['×', 'দ্ধ'], ['Ø', 'দ্ব'],
+  ['Ù', 'দ্ম'], ['Ú', 'ন্ঠ'], ['Û', 'ন্ড'], ['Ü', 'ন্ধ'], ['Ý', 'ন্স'], ['Þ', 'প্ট'], ['ß', 'প্ত'], ['à', 'প্প'],
+  ['á', 'প্স'], ['â', 'ব্জ'], ['ã', 'ব্দ'], ['ä', 'ব্ধ'], ['å', 'ভ্র'], ['ç', 'ম্ফ'], ['é', 'ল্ক'],
+  ['ê', 'ল্গ'], ['ë', 'ল্ট'], ['ì', 'ল্ড'], ['í', 'ল্প'], ['î', 'ল্ফ'], ['ï', 'শু'], ['ð', 'শ্চ'], ['ñ', 'শ্ছ'],
+  ['ò', 'ষ্ণ'], ['ó', 'ষ্ট'], ['ô', 'ষ্ঠ'], ['õ', 'ষ্ফ'], ['ö', 'স্খ'], ['÷', 'স্ট'], ['ù', 'স্ফ'],
+  ['û', 'হু'], ['ü', 'হৃ'], ['ý', 'হ্ন'], ['þ', 'হ্ম'],
+  // বিরামচিহ্ন ও অঙ্ক
+  ['|', '।'], ['Ò', '“'], ['Ó', '”'], ['Ô', '‘'], ['Õ', '’'], ['Ð', '–'], ['Ñ', '—'],
+  ['0', '০'], ['1', '১'], ['2', '২'], ['3', '৩'], ['4', '৪'], ['5', '৫'], ['6', '৬'], ['7', '৭'], ['8', '৮'], ['9', '৯']
+];
+
+/** লম্বা কী আগে — greedy মিল */
+const byKeyLength = (map: Map<string, string>) => ({
+  map,
+  maxLength: Math.max(...Array.from(map.keys()).map(k => k.length))
+});
+
+const TO_UNICODE = byKeyLength(new Map(GLYPHS));
+/** ব্যঞ্জন + ফলা (ন্ন → bœ) — অর্ধেক রূপের (š) চেয়ে আগে, যদি আলাদা যুক্তাক্ষর গ্লিফ না থাকে */
+const PHALAS = ['্য', '্র', '্ব', '্ম', '্ল', '্ন', '্ণ'];
+const glyphOf = (unicode: string): string => GLYPHS.find(([, g]) => g === unicode)![0];
+const WITH_PHALA = GLYPHS
+  .filter(([b, u]) => /^[K-Zb-n_`a]$/.test(b) && u.length === 1)
+  .flatMap(([b, u]) => PHALAS.map(p => [u + p, b + glyphOf(p)] as [string, string]));
+/** অর্ধেক রূপ + নিচের অংশ (স্থ → ¯’, ন্ত → š—, ম্প → ¤ú) — আলাদা যুক্তাক্ষর গ্লিফ না থাকলে */
+const HALF_FORMS = GLYPHS.filter(([b, u], i) =>
+  b.length === 1 && /^.\u09CD$/.test(u) && GLYPHS.findIndex(([, g]) => g === u) === i);
+const LOWER_PARTS = ['্থ', '্ত', '্তু', '্ত্র', '্ক', '্ক্র', '্প', '্ভ', '্ভ্র'];
+const WITH_HALF = HALF_FORMS.flatMap(([b, u]) =>
+  LOWER_PARTS.map(p => [u + p.slice(1), b + glyphOf(p)] as [string, string]));
+
+const TO_BIJOY = byKeyLength(
+  new Map([
+    ...WITH_PHALA,
+    ...WITH_HALF,
+    ...GLYPHS
+      .filter(([, u]) => u !== REPH)
+      .reverse() // প্রথম গ্লিফ শেষে বসে জিতবে
+      .map(([b, u]) => [u, b] as [string, string]),
+    // বিজয়ে আলাদা গ্লিফ নেই — আ = অ + া, শব্দের শেষের হসন্ত
+    ['আ', 'Av'],
+    ['্', '&']
+  ])
+);
+
+const translate = (text: string, table: { map: Map<string, string>; maxLength: number }): string => {
+  let out = '';
+  let i = 0;
+  while (i < text.length) {
+    let len = Math.min(table.maxLength, text.length - i);
+    for (; len > 0; len--) {
+      const hit = table.map.get(text.slice(i, i + len));
+      if (hit !== undefined) {
+        out += hit;
+        break;
+      }
+    }
+    if (len === 0) {
+      out += text[i];
+      len = 1;
+    }
+    i += len;
+  }
+  return out;
+};
+
+/* ------------------------------ REORDERING -------------------------------- */
+
+const CONSONANT = '[\\u0995-\\u09B9\\u09CE\\u09DC-\\u09DF]\\u09BC?';
+/** যুক্তাক্ষর সহ ব্যঞ্জন ক্লাস্টার — র‍্য এর ZWJ সহ */
+const CLUSTER = `${CONSONANT}(?:\\u200D?\\u09CD${CONSONANT})*`;
+const PRE_KARS = 'িেৈ';
+
+/**
+ * বিজয় → ইউনিকোড
+ * - ি ে ৈ ক্লাস্টারের আগে থেকে পরে (ে + া → ো, ে + ৗ → ৌ)
+ * - রেফ (©) আগের ক্লাস্টারের (ও তার কারের) আগে
+ */
+export const bijoyToUnicode = (text: string): string => {
+  let result = translate(text, TO_UNICODE)
+    .replace(/\u09CD\u09CD/g, '\u09CD') // অর্ধেক রূপ + ফলা (¯^ → স্ব, ¯’ → স্থ) — কার সরানোর আগে
+    .replace(new RegExp(`([${PRE_KARS}])(${CLUSTER})`, 'g'), '$2$1')
+    .replace(new RegExp(`(${CLUSTER})([\\u09BE-\\u09CC\\u09D7]*)${REPH}`, 'g'), 'র্$1$2');
+  // ক্লাস্টার না পেলে রেফ নিজের জায়গায়
+  result = result.replace(new RegExp(REPH, 'g'), 'র্');
+  return result
+    .replace(/অা/g, 'আ')
+    .normalize('NFC');
+};
+
+/**
+ * ইউনিকোড → বিজয় (প্রিন্টারের জন্য)
+ * - ো/ৌ ভেঙে ে + া / ে + ৗ; ি ে ৈ ক্লাস্টারের আগে
+ * - রেফ ক্লাস্টারের পরে (©)
+ */
+export const unicodeToBijoy = (text: string): string => {
+  const visual = text
+    .normalize('NFC')
+    .replace(/\u09DC/g, 'ড\u09BC')
+    .replace(/\u09DD/g, 'ঢ\u09BC')
+    .replace(/\u09DF/g, 'য\u09BC')
+    .replace(/\u09CB/g, '\u09C7\u09BE')
+    .replace(/\u09CC/g, '\u09C7\u09D7')
+    // রেফ: আগে ্ নেই এমন র্ + ক্লাস্টার → ক্লাস্টার + চিহ্ন
+    .replace(new RegExp(`(^|[^\\u09CD])র\\u09CD(?!\\u200D)(${CLUSTER})`, 'g'), `$1$2${REPH}`)
+    .replace(new RegExp(`(${CLUSTER})${REPH}?([${PRE_KARS}])`, 'g'), (_m, cluster: string, kar: string) =>
+      kar + cluster + (_m.includes(REPH) ? REPH : ''));
+
+  return translate(visual, TO_BIJOY).replace(new RegExp(REPH, 'g'), '©');
+};
+
+/* ------------------------------ DETECTION --------------------------------- */
+
+/** বিজয়ের গ্লিফ যা ইংরেজি লেখায় প্রায় আসে না */
+const BIJOY_MARKS = /[\u00A1-\u00FF\u0152\u0153\u0160\u0161\u0178\u02C6\u02DC\u2013-\u2122]/;
+
+/**
+ * লেখাটি কি বিজয় এনকোডিং এ (ফন্ট ছাড়া শুধু টেক্সট দেখে)?
+ * - বাংলা লিপি না থাকলে, আর অন্তত ৩০% শব্দে বিজয়ের চিহ্ন বা শব্দের মাঝে বড় হাতের অক্ষর (Avgvi, ‡Kvb)
+ */
+export const looksLikeBijoy = (text: string): boolean => {
+  if (/[\u0980-\u09FF]/.test(text)) return false;
+  const words = text.match(/\S+/g) ?? [];
+  if (words.length < 3) return false;
+  const marked = words.filter(w =>
+    BIJOY_MARKS.test(w) || (!/^[A-Z]+$/.test(w) && /[A-Za-z`_].*[A-Z]|^[A-Z_`][vwxy]/.test(w))
+  );
+  return marked.length / words.length >= 0.3;
+};
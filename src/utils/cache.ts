@@ -0,0 +1,99 @@
+/* -------------------------------------------------------------------------- */
+/*                        AI RESULT CACHE                                     */
+/* -------------------------------------------------------------------------- */
+
+import { loadJson, saveJson } from './storage';
+
+const CACHE_KEY = 'ai_result_cache';
+
+/** সর্বোচ্চ এন্ট্রি সংখ্যা ও মোট আকার (JSON অক্ষর) — এর বেশি হলে পুরনোগুলো বাদ */
+export const MAX_CACHE_ENTRIES = 400;
+export const MAX_CACHE_CHARS = 1_000_000;
+
+interface CacheEntry {
+  /** JSON স্ট্রিং হিসেবে রাখা মান */
+  value: string;
+  /** শেষ ব্যবহারের সময় (LRU) */
+  usedAt: number;
+}
+
+let entries: Record<string, CacheEntry> | null = null;
+
+const store = (): Record<string, CacheEntry> => {
+  if (!entries) entries = loadJson<Record<string, CacheEntry>>(CACHE_KEY, {});
+  return entries;
+};
+
+/**
+ * 53-bit string hash (cyrb53) — দ্রুত, sync, ক্যাশ key এর জন্য যথেষ্ট
+ */
+export const hashString = (str: string, seed: number = 0): string => {
+  let h1 = 0xdeadbeef ^ seed;
+  let h2 = 0x41c6ce57 ^ seed;
+  for (let i = 0; i < str.length; i++) {
+    const ch = str.charCodeAt(i);
+    h1 = Math.imul(h1 ^ ch, 2654435761);
+    h2 = Math.imul(h2 ^ ch, 1597334677);
+  }
+  h1 = Math.imul(h1 ^ (h1 >>> 16), 2246822507) ^ Math.imul(h2 ^ (h2 >>> 13), 3266489909);
+  h2 = Math.imul(h2 ^ (h2 >>> 16), 2246822507) ^ Math.imul(h1 ^ (h1 >>> 13), 3266489909);
+  return (4294967296 * (2097151 & h2) + (h1 >>> 0)).toString(36);
+};
+
+/**
+ * পুরনো এন্ট্রি বাদ দিয়ে সীমার মধ্যে রাখা (least recently used আগে যায়)
+ */
+const evict = (all: Record<string, CacheEntry>): void => {
+  const keys = Object.keys(all).sort((a, b) => all[a].usedAt - all[b].usedAt);
+  let total = keys.reduce((sum, k) => sum + all[k].value.length, 0);
+  let count = keys.length;
+
+  for (const key of keys) {
+    if (count <= MAX_CACHE_ENTRIES && total <= MAX_CACHE_CHARS) break;
+    total -= all[key].value.length;
+    count--;
+    delete all[key];
+  }
+};
+
+let persistTimer: ReturnType<typeof setTimeout> | null = null;
+
+const persist = (): void => {
+  persistTimer = null;
+  const all = store();
+  evict(all);
+  // জায়গা না থাকলে অর্ধেক ফেলে আবার চেষ্টা
+  while (!saveJson(CACHE_KEY, all) && Object.keys(all).length > 0) {
+    const keys = Object.keys(all).sort((a, b) => all[a].usedAt - all[b].usedAt);
+    keys.slice(0, Math.ceil(keys.length / 2)).forEach(k => delete all[k]);
+  }
+};
+
+export const getCached = <T>(key: string): T | undefined => {
+  const entry = store()[key];
+  if (!entry) return undefined;
+  entry.usedAt = Date.now();
+  try {
+    return JSON.parse(entry.value) as T;
+  } catch {
+    delete store()[key];
+    return undefined;
+  }
+};
+
+/**
+ * ক্যাশে রাখা — একসাথে অনেক এন্ট্রি লেখা হয় বলে স্টোরেজে লেখা একটু পরে, একবারে
+ */
+export const setCached = (key: string, value: unknown): void => {
+  store()[key] = { value: JSON.stringify(value), usedAt: Date.now() };
+  if (!persistTimer) persistTimer = setTimeout(persist, 500);
+};
+
+export const clearCache = (): void => {
+  if (persistTimer) clearTimeout(persistTimer);
+  persistTimer = null;
+  entries = {};
+  localStorage.removeItem(CACHE_KEY);
+};
+
+export const cacheSize = (): number => Object.keys(store()).length;
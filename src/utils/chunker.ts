@@ -0,0 +1,254 @@
+/* -------------------------------------------------------------------------- */
+/*                        CHUNKING & RESULT MERGING                           */
+/* -------------------------------------------------------------------------- */
+
+import { MainCheckResponse, StyleMixingCorrection } from '../types';
+import { createWordIndex } from './position';
+
+/** এক রিকোয়েস্টে সর্বোচ্চ কত অক্ষর পাঠানো হবে */
+export const MAX_CHUNK_CHARS = 4000;
+
+/** একসাথে সর্বোচ্চ কয়টি চাঙ্ক রিকোয়েস্ট চলবে */
+export const CHUNK_CONCURRENCY = 2;
+
+export interface TextChunk {
+  text: string;
+  /** মূল টেক্সটে এই চাঙ্কের প্রথম শব্দের index */
+  wordOffset: number;
+  /** মূল টেক্সটের কোন প্যারাগ্রাফের অংশ (splitIntoUnits দেয়) */
+  paragraph?: number;
+}
+
+interface Span {
+  start: number;
+  end: number;
+}
+
+interface ParagraphSpan extends Span {
+  paragraph: number;
+}
+
+/**
+ * Split a span at the last boundary (matched by `pattern`) before `maxChars`
+ * - Falls back to a hard cut when no boundary exists
+ */
+const splitSpan = (text: string, span: Span, pattern: RegExp, maxChars: number): Span[] => {
+  const pieces: Span[] = [];
+  let start = span.start;
+
+  while (span.end - start > maxChars) {
+    const window = text.slice(start, start + maxChars);
+    let cut = -1;
+    for (const m of window.matchAll(pattern)) {
+      cut = (m.index ?? 0) + m[0].length;
+    }
+    if (cut <= 0) cut = maxChars;
+    pieces.push({ start, end: start + cut });
+    start += cut;
+  }
+
+  pieces.push({ start, end: span.end });
+  return pieces;
+};
+
+/**
+ * Split text into paragraph units under `maxChars`
+ * - One unit per paragraph (blank paragraphs skipped)
+ * - Long paragraphs are cut at sentence ends (। ? !), then at whitespace
+ * - Units are the cache granularity: an edit only invalidates its own paragraph
+ */
+export const splitIntoUnits = (text: string, maxChars: number = MAX_CHUNK_CHARS): TextChunk[] => {
+  // ১. প্যারাগ্রাফ স্প্যান (newline সহ)
+  const paragraphs: Span[] = [];
+  const paraPattern = /[^\n]*\n+|[^\n]+$/g;
+  for (const m of text.matchAll(paraPattern)) {
+    if (!m[0]) continue;
+    const start = m.index ?? 0;
+    paragraphs.push({ start, end: start + m[0].length });
+  }
+
+  // ২. বড় প্যারাগ্রাফ বাক্যে, তারপর শব্দে ভাঙা
+  const pieces: ParagraphSpan[] = [];
+  paragraphs.forEach((para, paragraph) => {
+    if (para.end - para.start <= maxChars) {
+      pieces.push({ ...para, paragraph });
+      return;
+    }
+    for (const sentence of splitSpan(text, para, /[।?!]+\s*/g, maxChars)) {
+      pieces.push(...splitSpan(text, sentence, /\s+/g, maxChars).map(span => ({ ...span, paragraph })));
+    }
+  });
+
+  const wordIndex = createWordIndex(text);
+  return pieces
+    .filter(piece => text.slice(piece.start, piece.end).trim())
+    .map(piece => ({
+      text: text.slice(piece.start, piece.end),
+      wordOffset: wordIndex(piece.start),
+      paragraph: piece.paragraph
+    }));
+};
+
+/**
+ * কয়েকটি unit একসাথে একটি রিকোয়েস্টে
+ * - localOffset: এই চাঙ্কের টেক্সটে unit এর প্রথম শব্দের index
+ */
+export interface PackedChunk {
+  text: string;
+  units: Array<{ unit: TextChunk; localOffset: number }>;
+}
+
+export const countWords = (text: string): number => (text.match(/\S+/g) || []).length;
+
+/**
+ * Pack units (not necessarily contiguous) into request-sized chunks
+ * - Units are joined with a newline, so word counts add up exactly
+ */
+export const packUnits = (units: TextChunk[], maxChars: number = MAX_CHUNK_CHARS): PackedChunk[] => {
+  const chunks: PackedChunk[] = [];
+  let current: PackedChunk | null = null;
+  let words = 0;
+
+  for (const unit of units) {
+    const unitText = unit.text.trim();
+    if (!current || current.text.length + unitText.length + 1 > maxChars) {
+      current = { text: '', units: [] };
+      chunks.push(current);
+      words = 0;
+    }
+    current.units.push({ unit, localOffset: words });
+    current.text += (current.text ? '\n' : '') + unitText;
+    words += countWords(unitText);
+  }
+
+  return chunks;
+};
+
+const isItem = (v: unknown): v is { position?: number } =>
+  typeof v === 'object' && v !== null && !Array.isArray(v);
+
+/**
+ * Cut a validated result down to the items in word range [start, end)
+ * - Walks the whole object: every array of items (objects) is filtered
+ * - Positions are made relative to `start`
+ * - Items without a position go to the first unit only (start 0), still without a position
+ */
+export const sliceResultByWords = <T>(result: T, start: number, end: number): T => {
+  const walkObject = (value: object): Record<string, unknown> => {
+    const out: Record<string, unknown> = {};
+    for (const [key, v] of Object.entries(value)) out[key] = walk(v);
+    return out;
+  };
+  const walk = (value: unknown): unknown => {
+    if (Array.isArray(value)) {
+      if (!value.some(isItem)) return value;
+      return value
+        .filter(isItem)
+        .filter(item => (item.position === undefined ? start === 0 : item.position >= start && item.position < end))
+        .map(item => item.position === undefined ? walkObject(item) : { ...walkObject(item), position: item.position - start });
+    }
+    if (value && typeof value === 'object') return walkObject(value);
+    return value;
+  };
+  return walk(result) as T;
+};
+
+/**
+ * Run `worker` over `items` with at most `limit` in flight
+ * - Results keep the input order
+ * - Stops picking new items after the first failure (e.g. a cancelled check)
+ */
+export const mapWithConcurrency = async <T, R>(
+  items: T[],
+  limit: number,
+  worker: (item: T, index: number) => Promise<R>
+): Promise<R[]> => {
+  const results: R[] = new Array(items.length);
+  let next = 0;
+  let failed = false;
+
+  const runners = Array.from({ length: Math.min(limit, items.length) }, async () => {
+    while (next < items.length && !failed) {
+      const index = next++;
+      try {
+        results[index] = await worker(items[index], index);
+      } catch (err) {
+        failed = true;
+        throw err;
+      }
+    }
+  });
+
+  await Promise.all(runners);
+  return results;
+};
+
+/**
+ * Shift a list of positioned items by a chunk's word offset
+ * - Items without a position stay without one (callers fall back to text search)
+ */
+export const offsetPositions = <T extends { position?: number }>(items: T[], wordOffset: number): T[] =>
+  items.map(item => (item.position === undefined ? item : { ...item, position: item.position + wordOffset }));
+
+const byPosition = (a: { position?: number }, b: { position?: number }): number =>
+  (a.position ?? 0) - (b.position ?? 0);
+
+/**
+ * Merge per-chunk main-prompt results into one result
+ * - Positions are moved back into global word indices, items sorted by position
+ * - Style mixing: detected if any chunk detected it; the most common recommendation wins
+ */
+export const mergeMainResults = (
+  parts: Array<{ result: MainCheckResponse | null; wordOffset: number }>
+): MainCheckResponse => {
+  const merged: MainCheckResponse = {
+    spellingErrors: [],
+    punctuationIssues: [],
+    euphonyImprovements: [],
+    languageStyleMixing: null
+  };
+
+  const styleVotes: Record<string, number> = {};
+  const mixingCorrections: StyleMixingCorrection[] = [];
+  let mixingReason: string | undefined;
+  let mixingDetected = false;
+
+  for (const { result, wordOffset } of parts) {
+    if (!result) continue;
+    merged.spellingErrors.push(...offsetPositions(result.spellingErrors, wordOffset));
+    merged.punctuationIssues.push(...offsetPositions(result.punctuationIssues, wordOffset));
+    merged.euphonyImprovements.push(...offsetPositions(result.euphonyImprovements, wordOffset));
+
+    const mixing = result.languageStyleMixing;
+    if (mixing?.detected) {
+      mixingDetected = true;
+      mixingReason = mixingReason || mixing.reason;
+      if (mixing.recommendedStyle) {
+        styleVotes[mixing.recommendedStyle] = (styleVotes[mixing.recommendedStyle] || 0) + 1;
+      }
+      mixingCorrections.push(...offsetPositions(mixing.corrections || [], wordOffset));
+    }
+  }
+
+  if (mixingDetected) {
+    const recommendedStyle = Object.keys(styleVotes).sort((a, b) => styleVotes[b] - styleVotes[a])[0];
+    merged.languageStyleMixing = {
+      detected: true,
+      recommendedStyle,
+      reason: mixingReason,
+      corrections: mixingCorrections.sort(byPosition)
+    };
+  }
+
+  merged.spellingErrors.sort(byPosition);
+  merged.punctuationIssues.sort(byPosition);
+  merged.euphonyImprovements.sort(byPosition);
+  return merged;
+};
+
+/**
+ * Merge per-chunk positioned lists (tone/style conversions)
+ */
+export const mergeListResults = <T extends { position?: number }>(
+  parts: Array<{ items: T[] | undefined; wordOffset: number }>
+): T[] => parts.flatMap(({ items, wordOffset }) => offsetPositions(items || [], wordOffset)).sort(byPosition);
@@ -0,0 +1,60 @@
+/* -------------------------------------------------------------------------- */
+/*                        CURSOR SYNC (WORD → PANE)                           */
+/* -------------------------------------------------------------------------- */
+
+import { getCursorWordIndex } from './word';
+
+export interface CursorSyncOptions {
+  /** কার্সার থামার কতক্ষণ পর পড়া */
+  debounceMs?: number;
+  /** কার্সারের শব্দের index (শেষ বিশ্লেষিত টেক্সটের সাপেক্ষে) */
+  onCursor: (wordIndex: number) => void;
+}
+
+export interface CursorSync {
+  start: () => void;
+  stop: () => void;
+}
+
+/**
+ * Word এ কার্সার সরলে প্যানেলকে জানানো
+ * - selection-change ইভেন্ট debounce করে, একই শব্দে থাকলে আবার নয়
+ * - প্যানেল লুকানো থাকলে কিছু নয়
+ */
+export const createCursorSync = (options: CursorSyncOptions): CursorSync => {
+  const { debounceMs = 400, onCursor } = options;
+
+  let timer: ReturnType<typeof setTimeout> | null = null;
+  let running = false;
+  let lastIndex: number | null = null;
+
+  const run = async () => {
+    timer = null;
+    if (!running || document.visibilityState === 'hidden') return;
+    const index = await getCursorWordIndex();
+    if (index === null || index < 0 || index === lastIndex) return;
+    lastIndex = index;
+    onCursor(index);
+  };
+
+  const onSelectionChanged = () => {
+    if (timer) clearTimeout(timer);
+    timer = setTimeout(run, debounceMs);
+  };
+
+  return {
+    start: () => {
+      if (running) return;
+      running = true;
+      lastIndex = null;
+      Office.context.document.addHandlerAsync(Office.EventType.DocumentSelectionChanged, onSelectionChanged);
+    },
+    stop: () => {
+      if (!running) return;
+      running = false;
+      if (timer) clearTimeout(timer);
+      timer = null;
+      Office.context.document.removeHandlerAsync(Office.EventType.DocumentSelectionChanged, { handler: onSelectionChanged });
+    }
+  };
+};
@@ -0,0 +1,84 @@
+/* -------------------------------------------------------------------------- */
+/*                        PERSONAL / TEAM DICTIONARY                          */
+/* -------------------------------------------------------------------------- */
+
+import { Correction } from '../types';
+import { normalize } from './normalize';
+import { loadJson, saveJson } from './storage';
+
+/**
+ * ইউজারের অভিধান
+ * - words: "অভিধানে যোগ" — শুদ্ধ শব্দ (নাম, ব্র্যান্ড, পরিভাষা); টিমের সাথে শেয়ার হয়
+ * - ignored: "সবসময় উপেক্ষা" — শুধু এই ডিভাইসে ফ্ল্যাগ বন্ধ
+ */
+export interface UserDictionary {
+  words: string[];
+  ignored: string[];
+}
+
+const DICTIONARY_KEY = 'user_dictionary';
+
+export const loadDictionary = (): UserDictionary => {
+  const stored = loadJson<Partial<UserDictionary>>(DICTIONARY_KEY, {});
+  return {
+    words: Array.isArray(stored.words) ? stored.words : [],
+    ignored: Array.isArray(stored.ignored) ? stored.ignored : []
+  };
+};
+
+export const saveDictionary = (dict: UserDictionary): void => {
+  saveJson(DICTIONARY_KEY, dict);
+};
+
+/**
+ * তালিকায় শব্দ যোগ (ক্যানোনিকাল রূপে ডুপ্লিকেট হলে বাদ)
+ */
+export const addUnique = (list: string[], ...entries: string[]): string[] => {
+  const seen = new Set(list.map(normalize));
+  const result = [...list];
+  for (const entry of entries) {
+    const word = entry.trim();
+    if (!word || seen.has(normalize(word))) continue;
+    seen.add(normalize(word));
+    result.push(word);
+  }
+  return result;
+};
+
+export const removeEntry = (list: string[], entry: string): string[] =>
+  list.filter(w => normalize(w) !== normalize(entry));
+
+/**
+ * অভিধান + উপেক্ষিত — যেগুলো কখনো ফ্ল্যাগ হবে না
+ */
+export const protectedWords = (dict: UserDictionary): string[] => addUnique(dict.words, ...dict.ignored);
+
+/**
+ * অভিধানের শব্দগুলোর Correction বাদ দেওয়া
+ */
+export const filterCorrections = (corrections: Correction[], dict: UserDictionary): Correction[] => {
+  const blocked = new Set(protectedWords(dict).map(normalize));
+  if (blocked.size === 0) return corrections;
+  return corrections.filter(c => !blocked.has(normalize(c.wrong)));
+};
+
+/**
+ * প্রম্পটে পাঠানোর জন্য শুধু টেক্সটে থাকা শব্দগুলো (প্রম্পট ছোট রাখতে)
+ */
+export const wordsPresentIn = (text: string, words: string[]): string[] => {
+  const haystack = normalize(text);
+  return words.filter(w => haystack.includes(normalize(w)));
+};
+
+/**
+ * প্লেইন ওয়ার্ড-লিস্ট ফাইল পার্স করা
+ * - প্রতি লাইনে একটি শব্দ; # দিয়ে শুরু লাইন মন্তব্য
+ */
+export const parseWordList = (content: string): string[] =>
+  content
+    .split(/\r?\n/)
+    .map(line => line.trim())
+    .filter(line => line && !line.startsWith('#'));
+
+export const serializeWordList = (words: string[]): string =>
+  ['# ভাষা মিত্র — অভিধান', ...words].join('\n') + '\n';
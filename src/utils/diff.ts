@@ -0,0 +1,191 @@
+/* -------------------------------------------------------------------------- */
+/*                        WORD-LEVEL DIFF (BANGLA)                            */
+/* -------------------------------------------------------------------------- */
+
+import { canonicalizeBangla } from './normalize';
+
+/**
+ * ডিফের একটি অংশ
+ * - equal: দুই টেক্সটে একই
+ * - change: একটি hunk — before (মূল) → after (নতুন); offset মূল টেক্সটে অক্ষর-অবস্থান
+ */
+export type DiffSegment =
+  | { type: 'equal'; text: string }
+  | { type: 'change'; id: number; before: string; after: string; offset: number };
+
+export type DiffHunk = Extract<DiffSegment, { type: 'change' }>;
+
+/** এর বেশি টোকেন-জোড়া হলে LCS না করে পুরো মাঝের অংশ একটি hunk */
+const MAX_DIFF_CELLS = 4_000_000;
+
+/**
+ * Split into whitespace runs, punctuation marks and word runs
+ * - দাঁড়ি/কমা আলাদা টোকেন, তাই "খাই।" → "খাই" শুধু দাঁড়ির পরিবর্তন দেখায়
+ */
+export const tokenizeWords = (text: string): string[] =>
+  text.match(/\s+|[।॥,;:!?"'‘’“”()\[\]{}\-–—…]|[^\s।॥,;:!?"'‘’“”()\[\]{}\-–—…]+/g) || [];
+
+type Op = { type: 'equal' | 'del' | 'ins'; token: string };
+
+/**
+ * Token-level LCS diff (common prefix/suffix trimmed first)
+ */
+const diffTokens = (a: string[], b: string[]): Op[] => {
+  const ca = a.map(canonicalizeBangla);
+  const cb = b.map(canonicalizeBangla);
+
+  let start = 0;
+  while (start < a.length && start < b.length && ca[start] === cb[start]) start++;
+  let endA = a.length;
+  let endB = b.length;
+  while (endA > start && endB > start && ca[endA - 1] === cb[endB - 1]) {
+    endA--;
+    endB--;
+  }
+
+  const prefix: Op[] = a.slice(0, start).map(token => ({ type: 'equal', token }));
+  const suffix: Op[] = a.slice(endA).map(token => ({ type: 'equal', token }));
+  const n = endA - start;
+  const m = endB - start;
+
+  // খুব বড় হলে মাঝের অংশ পুরোটাই পরিবর্তন
+  if ((n + 1) * (m + 1) > MAX_DIFF_CELLS) {
+    return [
+      ...prefix,
+      ...a.slice(start, endA).map((token): Op => ({ type: 'del', token })),
+      ...b.slice(start, endB).map((token): Op => ({ type: 'ins', token })),
+      ...suffix
+    ];
+  }
+
+  // lcs[i][j] = a[start+i..] ও b[start+j..] এর LCS দৈর্ঘ্য
+  const width = m + 1;
+  const lcs = new Uint32Array((n + 1) * width);
+  for (let i = n - 1; i >= 0; i--) {
+    for (let j = m - 1; j >= 0; j--) {
+      lcs[i * width + j] = ca[start + i] === cb[start + j]
+        ? lcs[(i + 1) * width + j + 1] + 1
+        : Math.max(lcs[(i + 1) * width + j], lcs[i * width + j + 1]);
+    }
+  }
+
+  const middle: Op[] = [];
+  let i = 0;
+  let j = 0;
+  while (i < n && j < m) {
+    if (ca[start + i] === cb[start + j]) {
+      middle.push({ type: 'equal', token: a[start + i] });
+      i++;
+      j++;
+    } else if (lcs[(i + 1) * width + j] >= lcs[i * width + j + 1]) {
+      middle.push({ type: 'del', token: a[start + i++] });
+    } else {
+      middle.push({ type: 'ins', token: b[start + j++] });
+    }
+  }
+  while (i < n) middle.push({ type: 'del', token: a[start + i++] });
+  while (j < m) middle.push({ type: 'ins', token: b[start + j++] });
+
+  return [...prefix, ...middle, ...suffix];
+};
+
+type RawSegment =
+  | { type: 'equal'; tokens: string[] }
+  | { type: 'change'; before: string[]; after: string[] };
+
+const isBlank = (tokens: string[]): boolean => tokens.every(t => !t.trim());
+
+/**
+ * Word-level diff of two Bangla texts, grouped into hunks
+ * - Changes separated only by whitespace form one hunk ("করিয়া ফেলিলাম" → "করে ফেললাম")
+ * - Pure insertions/whitespace-only hunks take in a neighbouring word, so every
+ *   hunk has searchable text in the original
+ */
+export const diffWords = (before: string, after: string): DiffSegment[] => {
+  const ops = diffTokens(tokenizeWords(before), tokenizeWords(after));
+
+  // ১. ক্রমাগত op গুলো গ্রুপ করা
+  const raw: RawSegment[] = [];
+  for (const op of ops) {
+    const last = raw[raw.length - 1];
+    if (op.type === 'equal') {
+      if (last?.type === 'equal') last.tokens.push(op.token);
+      else raw.push({ type: 'equal', tokens: [op.token] });
+      continue;
+    }
+    const change = last?.type === 'change' ? last : null;
+    const target = change ?? { type: 'change' as const, before: [], after: [] };
+    if (!change) raw.push(target);
+    (op.type === 'del' ? target.before : target.after).push(op.token);
+  }
+
+  // ২. শুধু স্পেস দিয়ে আলাদা hunk গুলো জোড়া লাগানো
+  const merged: RawSegment[] = [];
+  for (let k = 0; k < raw.length; k++) {
+    const seg = raw[k];
+    const prev = merged[merged.length - 1];
+    const next = raw[k + 1];
+    if (seg.type === 'equal' && isBlank(seg.tokens) && prev?.type === 'change' && next?.type === 'change') {
+      prev.before.push(...seg.tokens, ...next.before);
+      prev.after.push(...seg.tokens, ...next.after);
+      k++;
+      continue;
+    }
+    merged.push(seg.type === 'equal' ? { type: 'equal', tokens: [...seg.tokens] } : { ...seg });
+  }
+
+  // ৩. খালি/স্পেস-মাত্র hunk এ পাশের শব্দ যোগ
+  merged.forEach((seg, k) => {
+    if (seg.type !== 'change' || !isBlank(seg.before)) return;
+    const prev = merged[k - 1];
+    const next = merged[k + 1];
+    if (prev?.type === 'equal' && !isBlank(prev.tokens)) {
+      const moved: string[] = [];
+      while (prev.tokens.length > 0) {
+        const token = prev.tokens.pop()!;
+        moved.unshift(token);
+        if (token.trim()) break;
+      }
+      seg.before.unshift(...moved);
+      seg.after.unshift(...moved);
+    } else if (next?.type === 'equal' && !isBlank(next.tokens)) {
+      const moved: string[] = [];
+      while (next.tokens.length > 0) {
+        const token = next.tokens.shift()!;
+        moved.push(token);
+        if (token.trim()) break;
+      }
+      seg.before.push(...moved);
+      seg.after.push(...moved);
+    }
+  });
+
+  // ৪. স্ট্রিং ও offset
+  const segments: DiffSegment[] = [];
+  let offset = 0;
+  let id = 0;
+  for (const seg of merged) {
+    if (seg.type === 'equal') {
+      const text = seg.tokens.join('');
+      if (!text) continue;
+      segments.push({ type: 'equal', text });
+      offset += text.length;
+      continue;
+    }
+    const beforeText = seg.before.join('');
+    segments.push({ type: 'change', id: id++, before: beforeText, after: seg.after.join(''), offset });
+    offset += beforeText.length;
+  }
+  return segments;
+};
+
+export const diffHunks = (segments: DiffSegment[]): DiffHunk[] =>
+  segments.filter((s): s is DiffHunk => s.type === 'change');
+
+/**
+ * গৃহীত hunk গুলোতে নতুন টেক্সট, বাকিগুলোতে মূল টেক্সট
+ */
+export const applyDiff = (segments: DiffSegment[], accepted: number[]): string =>
+  segments
+    .map(s => (s.type === 'equal' ? s.text : accepted.includes(s.id) ? s.after : s.before))
+    .join('');
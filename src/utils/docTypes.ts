@@ -0,0 +1,118 @@
+/* -------------------------------------------------------------------------- */
+/*                        CUSTOM DOCUMENT TYPES                               */
+/* -------------------------------------------------------------------------- */
+
+import {
+  CustomDocType,
+  DocTypeConfig,
+  NumberConvention,
+  ReadabilityThresholds,
+  DEFAULT_READABILITY
+} from '../prompts/core';
+import { loadJson, saveJson } from './storage';
+import { isObject, asString, field } from './schema';
+
+const CUSTOM_DOC_TYPES_KEY = 'custom_doc_types';
+
+export const loadCustomDocTypes = (): CustomDocType[] => {
+  const stored = loadJson<unknown>(CUSTOM_DOC_TYPES_KEY, []);
+  return parseCustomDocTypes(stored);
+};
+
+export const saveCustomDocTypes = (types: CustomDocType[]): void => {
+  saveJson(CUSTOM_DOC_TYPES_KEY, types);
+};
+
+export const newCustomDocTypeId = (): string =>
+  `custom-${Date.now().toString(36)}${Math.random().toString(36).slice(2, 6)}`;
+
+/**
+ * নতুন/ডুপ্লিকেট টাইপ তৈরি — base দিলে তার কপি
+ */
+export const createCustomDocType = (base?: DocTypeConfig): CustomDocType => ({
+  id: newCustomDocTypeId(),
+  label: base ? `${base.label} (কপি)` : '',
+  description: base?.description ?? '',
+  defaultTone: base?.defaultTone ?? '',
+  roleInstruction: base?.roleInstruction ?? 'Act as a Bengali language proofreader.',
+  checkFocus: base?.checkFocus ?? '',
+  numberConvention: base?.numberConvention,
+  readability: base?.readability
+});
+
+/**
+ * id মিললে আপডেট, না মিললে যোগ
+ */
+export const upsertCustomDocType = (types: CustomDocType[], item: CustomDocType): CustomDocType[] =>
+  types.some(t => t.id === item.id)
+    ? types.map(t => (t.id === item.id ? item : t))
+    : [...types, item];
+
+const str = (v: unknown): string => asString(v) ?? '';
+
+const oneOf = <T extends string>(v: unknown, options: readonly T[], fallback: T): T =>
+  options.includes(v as T) ? (v as T) : fallback;
+
+/**
+ * সংখ্যার রীতি — না থাকলে undefined (ডকুমেন্ট অনুযায়ী)
+ */
+const parseNumberConvention = (raw: unknown): NumberConvention | undefined => {
+  if (!isObject(raw)) return undefined;
+  return {
+    digits: oneOf(raw.digits, ['bangla', 'latin'] as const, 'bangla'),
+    date: oneOf(raw.date, ['numeric', 'long'] as const, 'long'),
+    currency: oneOf(raw.currency, ['taka', 'symbol', 'tk'] as const, 'taka')
+  };
+};
+
+/**
+ * পাঠযোগ্যতার সীমা — প্রতিটি মান সংখ্যা না হলে ডিফল্ট
+ */
+const parseReadability = (raw: unknown): ReadabilityThresholds | undefined => {
+  if (!isObject(raw)) return undefined;
+  const num = (key: keyof ReadabilityThresholds): number => {
+    const v = raw[key];
+    return typeof v === 'number' && v >= 0 ? v : DEFAULT_READABILITY[key];
+  };
+  return {
+    longSentenceWords: num('longSentenceWords'),
+    maxAvgSentenceWords: num('maxAvgSentenceWords'),
+    maxParagraphWords: num('maxParagraphWords'),
+    minReadability: num('minReadability'),
+    maxPassiveShare: num('maxPassiveShare'),
+    minLexicalDiversity: num('minLexicalDiversity')
+  };
+};
+
+/**
+ * JSON (array বা { docTypes: [...] }) থেকে টাইপ যাচাই করে পড়া
+ * - label ও roleInstruction ছাড়া আইটেম বাদ
+ * - id না থাকলে বা বিল্ট-ইনের সাথে মিললে নতুন id
+ */
+export const parseCustomDocTypes = (data: unknown): CustomDocType[] => {
+  const list = Array.isArray(data) ? data : field(data, 'docTypes');
+  if (!Array.isArray(list)) return [];
+
+  return list
+    .map((raw: unknown): CustomDocType | null => {
+      if (!isObject(raw)) return null;
+      const label = str(raw.label);
+      const roleInstruction = str(raw.roleInstruction);
+      if (!label || !roleInstruction) return null;
+      const id = str(raw.id);
+      return {
+        id: id.startsWith('custom-') ? id : newCustomDocTypeId(),
+        label,
+        description: str(raw.description),
+        defaultTone: str(raw.defaultTone),
+        roleInstruction,
+        checkFocus: str(raw.checkFocus),
+        numberConvention: parseNumberConvention(raw.numberConvention),
+        readability: parseReadability(raw.readability)
+      };
+    })
+    .filter((t): t is CustomDocType => t !== null);
+};
+
+export const serializeCustomDocTypes = (types: CustomDocType[]): string =>
+  JSON.stringify({ docTypes: types }, null, 2);
@@ -0,0 +1,30 @@
+/* -------------------------------------------------------------------------- */
+/*                        FILE IMPORT / EXPORT                                */
+/* -------------------------------------------------------------------------- */
+
+/**
+ * টেক্সট কনটেন্ট ফাইল হিসেবে ডাউনলোড করা
+ */
+export const downloadFile = (fileName: string, content: string, mimeType: string = 'text/plain'): void => {
+  const blob = new Blob([content], { type: `${mimeType};charset=utf-8` });
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = fileName;
+  document.body.appendChild(link);
+  link.click();
+  link.remove();
+  URL.revokeObjectURL(url);
+};
+
+/**
+ * <input type="file"> থেকে বাছাই করা ফাইলের টেক্সট পড়া
+ */
+export const readFileText = (file: File): Promise<string> => {
+  return new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = () => resolve(String(reader.result ?? ''));
+    reader.onerror = () => reject(reader.error);
+    reader.readAsText(file, 'utf-8');
+  });
+};
@@ -0,0 +1,223 @@
+/* -------------------------------------------------------------------------- */
+/*                        TERMINOLOGY GLOSSARY (HOUSE STYLE)                  */
+/* -------------------------------------------------------------------------- */
+
+import { GlossaryEntry, TerminologyIssue } from '../types';
+import { canonicalizeBangla, canonicalizeWithMap, normalize } from './normalize';
+import { createWordIndex } from './position';
+import { loadJson, saveJson } from './storage';
+import { isObject, asString, field } from './schema';
+
+const GLOSSARY_KEY = 'terminology_glossary';
+
+export const loadGlossary = (): GlossaryEntry[] => parseGlossaryJson(loadJson<unknown>(GLOSSARY_KEY, []));
+
+export const saveGlossary = (entries: GlossaryEntry[]): void => {
+  saveJson(GLOSSARY_KEY, entries);
+};
+
+/* ------------------------------ PARSING ----------------------------------- */
+
+const str = (v: unknown): string => asString(v) ?? '';
+
+/** "অন্তর্জাল | আন্তর্জাল" বা array → আলাদা রূপ */
+const splitVariants = (raw: unknown): string[] => {
+  const list = Array.isArray(raw) ? raw.map(str) : str(raw).split(/[|;]/).map(v => v.trim());
+  return list.filter(Boolean);
+};
+
+/**
+ * একটি এন্ট্রি যাচাই
+ * - term ও অন্তত একটি variant লাগবে; term নিজেই variant হলে বাদ
+ */
+const toEntry = (term: string, variants: string[], note: string): GlossaryEntry | null => {
+  const key = normalize(term);
+  const unique = Array.from(new Map(
+    variants.filter(v => v !== term).map(v => [canonicalizeBangla(v), v] as const)
+  ).values());
+  if (!key || unique.length === 0) return null;
+  return { term, variants: unique, note };
+};
+
+/**
+ * JSON (array বা { glossary: [...] }) থেকে এন্ট্রি
+ * - term/preferred, variants/forbidden, note — দুই নামই চলে
+ */
+export const parseGlossaryJson = (data: unknown): GlossaryEntry[] => {
+  const list = Array.isArray(data) ? data : field(data, 'glossary');
+  if (!Array.isArray(list)) return [];
+  return list
+    .map((raw: unknown) => isObject(raw)
+      ? toEntry(
+        str(raw.term ?? raw.preferred),
+        splitVariants(raw.variants ?? raw.forbidden),
+        str(raw.note)
+      )
+      : null)
+    .filter((e): e is GlossaryEntry => e !== null);
+};
+
+/** এক লাইন CSV → ঘর (উদ্ধৃতিচিহ্নের ভেতরের কমা ও "" সহ) */
+const parseCsvLine = (line: string): string[] => {
+  const cells: string[] = [];
+  let cell = '';
+  let quoted = false;
+  for (let i = 0; i < line.length; i++) {
+    const ch = line[i];
+    if (quoted) {
+      if (ch === '"' && line[i + 1] === '"') {
+        cell += '"';
+        i++;
+      } else if (ch === '"') {
+        quoted = false;
+      } else {
+        cell += ch;
+      }
+    } else if (ch === '"') {
+      quoted = true;
+    } else if (ch === ',') {
+      cells.push(cell);
+      cell = '';
+    } else {
+      cell += ch;
+    }
+  }
+  cells.push(cell);
+  return cells.map(c => c.trim());
+};
+
+/**
+ * CSV: term,variants,note — variants "|" বা ";" দিয়ে আলাদা
+ * - প্রথম লাইন হেডার হলে (term/preferred) বাদ; # দিয়ে শুরু লাইন মন্তব্য
+ */
+export const parseGlossaryCsv = (content: string): GlossaryEntry[] =>
+  content
+    .split(/\r?\n/)
+    .filter(line => line.trim() && !line.trim().startsWith('#'))
+    .map(parseCsvLine)
+    .filter((cells, i) => !(i === 0 && /^(term|preferred)$/i.test(cells[0])))
+    .map(([term = '', variants = '', note = '']) => toEntry(term, splitVariants(variants), note))
+    .filter((e): e is GlossaryEntry => e !== null);
+
+/**
+ * ফাইলের নাম/কনটেন্ট দেখে JSON না CSV
+ */
+export const parseGlossaryFile = (fileName: string, content: string): GlossaryEntry[] => {
+  if (/\.json$/i.test(fileName) || /^\s*[[{]/.test(content)) {
+    return parseGlossaryJson(JSON.parse(content));
+  }
+  return parseGlossaryCsv(content);
+};
+
+const csvCell = (v: string): string => (/[",\n]/.test(v) ? `"${v.replace(/"/g, '""')}"` : v);
+
+export const serializeGlossaryCsv = (entries: GlossaryEntry[]): string =>
+  ['term,variants,note', ...entries.map(e => [e.term, e.variants.join(' | '), e.note].map(csvCell).join(','))]
+    .join('\n') + '\n';
+
+/**
+ * term মিললে নতুন variant/নোট একত্র, না মিললে যোগ
+ */
+export const mergeGlossary = (current: GlossaryEntry[], incoming: GlossaryEntry[]): GlossaryEntry[] => {
+  const result = [...current];
+  for (const entry of incoming) {
+    const i = result.findIndex(e => normalize(e.term) === normalize(entry.term));
+    if (i < 0) {
+      result.push(entry);
+      continue;
+    }
+    const merged = toEntry(result[i].term, [...result[i].variants, ...entry.variants], entry.note || result[i].note);
+    if (merged) result[i] = merged;
+  }
+  return result;
+};
+
+/* ------------------------------ SCANNING ---------------------------------- */
+
+/** বিভক্তি/নির্দেশক — "অন্তর্জালের" → "ইন্টারনেটের" */
+const SUFFIX = '(?:টি|টা|গুলো|গুলি|খানা)?(?:ের|এর|র|কে|ে|তে|য\u09BC|দের|রা)?(?:ও|ই)?';
+
+const escapeRegex = (s: string): string => s.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+/**
+ * লেখায় নিষিদ্ধ রূপ খোঁজা (লোকাল, কোনো API নয়)
+ * - ক্যানোনিকাল রূপে তুলনা; ব্র্যান্ডের বানান ধরতে বড়/ছোট হাতের অক্ষর আলাদা
+ * - current মূল লেখার অংশ (ডকুমেন্টে যে রূপে আছে), যাতে Word এ খুঁজে পাওয়া যায়
+ * - বিভক্তি থাকলে পছন্দের শব্দেও একই বিভক্তি যোগ হয়
+ */
+export const checkTerminology = (text: string, glossary: GlossaryEntry[]): TerminologyIssue[] => {
+  if (glossary.length === 0) return [];
+  const { text: source, toOriginal } = canonicalizeWithMap(text);
+  const wordIndex = createWordIndex(source);
+  const issues: TerminologyIssue[] = [];
+  const taken: Array<[number, number]> = [];
+
+  // লম্বা রূপ আগে, যাতে "মুঠো ফোন" এর ভেতরের "ফোন" আলাদা ধরা না পড়ে
+  const variants = glossary
+    .flatMap(entry => entry.variants.map(variant => ({ entry, variant: canonicalizeBangla(variant) })))
+    .sort((a, b) => b.variant.length - a.variant.length);
+
+  for (const { entry, variant } of variants) {
+    const pattern = new RegExp(`(?<![\\p{L}\\p{M}\\p{N}])${escapeRegex(variant)}(${SUFFIX})(?![\\p{L}\\p{M}\\p{N}])`, 'gu');
+    let m: RegExpExecArray | null;
+    while ((m = pattern.exec(source)) !== null) {
+      const start = m.index;
+      const end = start + m[0].length;
+      if (taken.some(([s, e]) => start < e && end > s)) continue;
+      taken.push([start, end]);
+      issues.push({
+        current: text.slice(toOriginal(start), toOriginal(end)),
+        suggestion: entry.term + m[1],
+        term: entry.term,
+        note: entry.note,
+        position: wordIndex(m.index)
+      });
+    }
+  }
+
+  return issues.sort((a, b) => a.position - b.position);
+};
+
+/**
+ * লেখায় (term বা variant হিসেবে) আছে এমন এন্ট্রি — প্রম্পট ছোট রাখতে
+ */
+export const glossaryEntriesIn = (text: string, glossary: GlossaryEntry[]): GlossaryEntry[] => {
+  const haystack = normalize(text);
+  return glossary.filter(e => [e.term, ...e.variants].some(w => haystack.includes(normalize(w))));
+};
+
+/**
+ * AI সাজেশন যদি নিষিদ্ধ রূপ আনে বা পছন্দের শব্দ বদলায় — গ্লসারির বিরোধী
+ * - বড়/ছোট হাতের অক্ষর আলাদা (ব্র্যান্ডের বানান)
+ */
+export const contradictsGlossary = (current: string, suggestion: string, glossary: GlossaryEntry[]): boolean => {
+  const before = canonicalizeBangla(current);
+  const after = canonicalizeBangla(suggestion);
+  const has = (text: string, word: string) => text.includes(canonicalizeBangla(word));
+  return glossary.some(e =>
+    e.variants.some(v => has(after, v) && !has(before, v)) ||
+    (has(before, e.term) && !has(after, e.term))
+  );
+};
+
+/**
+ * গ্লসারির বিরোধী সাজেশন বাদ (current → suggestion তালিকা)
+ */
+export const filterByGlossary = <T extends { current: string; suggestion: string }>(
+  items: T[],
+  glossary: GlossaryEntry[]
+): T[] => (glossary.length === 0 ? items : items.filter(i => !contradictsGlossary(i.current, i.suggestion, glossary)));
+
+/**
+ * একাধিক বিকল্পওয়ালা সাজেশন — বিরোধী বিকল্প বাদ, কোনো বিকল্প না থাকলে পুরো আইটেম বাদ
+ */
+export const filterAlternativesByGlossary = <T extends { suggestions: string[] }>(
+  items: T[],
+  original: (item: T) => string,
+  glossary: GlossaryEntry[]
+): T[] =>
+  glossary.length === 0
+    ? items
+    : items
+        .map(i => ({ ...i, suggestions: i.suggestions.filter(s => !contradictsGlossary(original(i), s, glossary)) }))
+        .filter(i => i.suggestions.length > 0);
@@ -0,0 +1,115 @@
+/* -------------------------------------------------------------------------- */
+/*                        SESSION HISTORY (PER DOCUMENT)                      */
+/* -------------------------------------------------------------------------- */
+
+import { HistoryEntry } from '../types';
+import { loadJson, saveJson } from './storage';
+
+const HISTORY_KEY = 'check_history';
+
+/** ডকুমেন্টের ভেতরে রাখা id — ফাইলের নাম বা লেখা বদলালেও একই ডকুমেন্ট চেনা যায় */
+const DOC_ID_SETTING = 'bhasha_mitra_doc_id';
+
+/** প্রতি ডকুমেন্টে ও মোট সর্বোচ্চ এন্ট্রি, এবং মোট আকার (JSON অক্ষর) — এর বেশি হলে পুরনোগুলো বাদ */
+export const MAX_ENTRIES_PER_DOC = 20;
+export const MAX_HISTORY_ENTRIES = 100;
+export const MAX_HISTORY_CHARS = 1_500_000;
+
+/** এই সেশনে তৈরি কিন্তু এখনো ডকুমেন্টে না লেখা id */
+let unsavedDocumentId: string | null = null;
+
+/**
+ * বর্তমান ডকুমেন্টের id — ডকুমেন্ট সেটিংসে থাকলে সেটি, না থাকলে এই সেশনের নতুন id
+ * - শুধু পড়া: ডকুমেন্টে লেখা হয় প্রথম হিস্ট্রি এন্ট্রি সংরক্ষণের সময় (persistDocumentId)
+ * - Office সেটিংস না পাওয়া গেলে (যেমন ব্রাউজারে ডেভ মোড) একটি সাধারণ id
+ */
+export const getDocumentId = (): string => {
+  try {
+    const existing = Office.context.document.settings.get(DOC_ID_SETTING);
+    if (typeof existing === 'string' && existing) return existing;
+
+    if (!unsavedDocumentId) {
+      unsavedDocumentId = `doc-${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`;
+    }
+    return unsavedDocumentId;
+  } catch (error) {
+    console.error('Document id error:', error);
+    return 'doc-default';
+  }
+};
+
+/**
+ * id টি ডকুমেন্ট সেটিংসে লেখা (আগে না থাকলে) — এতে ফাইলটি বদলায়, তাই শুধু হিস্ট্রি রাখার সময়
+ */
+const persistDocumentId = (id: string): void => {
+  if (id !== unsavedDocumentId) return;
+  try {
+    const settings = Office.context.document.settings;
+    if (!settings.get(DOC_ID_SETTING)) {
+      settings.set(DOC_ID_SETTING, id);
+      settings.saveAsync();
+    }
+    unsavedDocumentId = null;
+  } catch (error) {
+    console.error('Document id error:', error);
+  }
+};
+
+/**
+ * নতুন থেকে পুরনো ক্রমে
+ */
+export const loadHistory = (): HistoryEntry[] => {
+  const stored = loadJson<unknown>(HISTORY_KEY, []);
+  return Array.isArray(stored) ? (stored as HistoryEntry[]) : [];
+};
+
+/**
+ * সীমার মধ্যে রাখা — প্রতি ডকুমেন্টে ও মোট সংখ্যা, তারপর মোট আকার
+ */
+const trim = (entries: HistoryEntry[]): HistoryEntry[] => {
+  const perDoc = new Map<string, number>();
+  let result = entries
+    .filter(e => {
+      const n = (perDoc.get(e.docId) ?? 0) + 1;
+      perDoc.set(e.docId, n);
+      return n <= MAX_ENTRIES_PER_DOC;
+    })
+    .slice(0, MAX_HISTORY_ENTRIES);
+
+  while (result.length > 1 && JSON.stringify(result).length > MAX_HISTORY_CHARS) {
+    result = result.slice(0, -1);
+  }
+  return result;
+};
+
+/**
+ * নতুন এন্ট্রি সামনে যোগ ও সংরক্ষণ
+ * - ডকুমেন্টের id প্রথমবার এখানেই ডকুমেন্টে লেখা হয়
+ * - জায়গা শেষ হলে অর্ধেক পুরনো এন্ট্রি বাদ দিয়ে আবার চেষ্টা
+ */
+export const addHistoryEntry = (entry: HistoryEntry): HistoryEntry[] => {
+  persistDocumentId(entry.docId);
+  let next = trim([entry, ...loadHistory().filter(e => e.id !== entry.id)]);
+  while (!saveJson(HISTORY_KEY, next) && next.length > 1) {
+    next = next.slice(0, Math.ceil(next.length / 2));
+  }
+  return next;
+};
+
+export const removeHistoryEntry = (id: string): HistoryEntry[] => {
+  const next = loadHistory().filter(e => e.id !== id);
+  saveJson(HISTORY_KEY, next);
+  return next;
+};
+
+export const clearHistory = (): void => {
+  saveJson(HISTORY_KEY, []);
+};
+
+/**
+ * একটি ডকুমেন্টের এন্ট্রি, পুরনো থেকে নতুন (ট্রেন্ডের জন্য)
+ */
+export const historyForDocument = (entries: HistoryEntry[], docId: string): HistoryEntry[] =>
+  entries.filter(e => e.docId === docId).sort((a, b) => a.timestamp - b.timestamp);
+
+export const newHistoryId = (): string => `run-${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 6)}`;
@@ -0,0 +1,31 @@
+import { describe, it, expect } from 'vitest';
+import { splitIntoUnits } from './chunker';
+import { takeSnapshot, diffSnapshots, carryOver } from './incremental';
+
+const snapshot = (text: string) => takeSnapshot(splitIntoUnits(text), 'scope');
+
+describe('carryOver', () => {
+  const prev = snapshot('আমার বাড়ী অনেক দূরে\nসরকারী অফিস\nশেষ লাইন');
+  const next = snapshot('নতুন লাইন এখানে\nআমার বাড়ী অনেক দূরে\nসরকারি দপ্তর\nশেষ লাইন');
+  const diff = diffSnapshots(prev, next);
+  const wrong = (c: { wrong: string }) => c.wrong;
+
+  it('moves items of untouched paragraphs and drops those of changed ones', () => {
+    const items = [
+      { wrong: 'বাড়ী', position: 1 },
+      { wrong: 'সরকারী', position: 4 },
+      { wrong: 'লাইন', position: 7 }
+    ];
+    expect(carryOver(items, diff, wrong)).toEqual([
+      { wrong: 'বাড়ী', position: 4 },
+      { wrong: 'লাইন', position: 10 }
+    ]);
+  });
+
+  it('keeps items without a position unless their text is in a changed or removed paragraph', () => {
+    const items: Array<{ wrong: string; position?: number }> = [
+      { wrong: 'বাড়ী' }, { wrong: 'সরকারী' }, { wrong: 'দপ্তর' }, { wrong: 'দূরে' }
+    ];
+    expect(carryOver(items, diff, wrong)).toEqual([{ wrong: 'বাড়ী' }, { wrong: 'দূরে' }]);
+  });
+});
@@ -0,0 +1,231 @@
+/* -------------------------------------------------------------------------- */
+/*                        INCREMENTAL RE-CHECK                                */
+/* -------------------------------------------------------------------------- */
+
+import { TextChunk, countWords } from './chunker';
+import { hashString } from './cache';
+import { normalize } from './normalize';
+
+/**
+ * পরীক্ষার সময়ের একটি প্যারাগ্রাফ
+ * - key: টেক্সটের hash (whitespace উপেক্ষা করে)
+ * - wordOffset/wordCount: বিশ্লেষিত টেক্সটে শব্দের পরিসর
+ */
+interface ParagraphSnapshot {
+  key: string;
+  text: string;
+  wordOffset: number;
+  wordCount: number;
+  units: TextChunk[];
+}
+
+/**
+ * শেষ পরীক্ষার স্ন্যাপশট
+ * - scope: সেটিংসের স্বাক্ষর (doc type, টোন, রীতি, মডেল...) — বদলালে পুরো পরীক্ষা
+ */
+export interface CheckSnapshot {
+  scope: string;
+  paragraphs: ParagraphSnapshot[];
+}
+
+export interface SnapshotDiff {
+  /** নতুন বা বদলানো প্যারাগ্রাফের unit — শুধু এগুলো আবার বিশ্লেষণ হবে */
+  changedUnits: TextChunk[];
+  /** যেসব প্যারাগ্রাফের হাইলাইট মুছতে হবে (বদলানো নতুন + মুছে যাওয়া পুরনো) */
+  staleTexts: string[];
+  /** পুরনো position → নতুন position; প্যারাগ্রাফ বদলালে null */
+  remap: (position: number) => number | null;
+  /** নতুন position টি কি বদলানো প্যারাগ্রাফে? */
+  isChanged: (position: number) => boolean;
+}
+
+/**
+ * Group units into paragraph snapshots
+ * - Long paragraphs (split into several units) are one snapshot entry
+ */
+export const takeSnapshot = (units: TextChunk[], scope: string): CheckSnapshot => {
+  const paragraphs: ParagraphSnapshot[] = [];
+
+  units.forEach((unit, i) => {
+    const last = paragraphs[paragraphs.length - 1];
+    const sameParagraph = i > 0 && unit.paragraph !== undefined && unit.paragraph === units[i - 1].paragraph;
+    if (last && sameParagraph) {
+      last.text += unit.text;
+      last.wordCount += countWords(unit.text);
+      last.units.push(unit);
+      return;
+    }
+    paragraphs.push({
+      key: '',
+      text: unit.text,
+      wordOffset: unit.wordOffset,
+      wordCount: countWords(unit.text),
+      units: [unit]
+    });
+  });
+
+  for (const p of paragraphs) {
+    p.key = hashString(p.text.trim().replace(/\s+/g, ' '));
+  }
+
+  return { scope, paragraphs };
+};
+
+/**
+ * Find the paragraph containing a word position (binary search)
+ */
+const paragraphAt = (paragraphs: ParagraphSnapshot[], position: number): number => {
+  let lo = 0;
+  let hi = paragraphs.length - 1;
+  while (lo <= hi) {
+    const mid = (lo + hi) >> 1;
+    const p = paragraphs[mid];
+    if (position < p.wordOffset) hi = mid - 1;
+    else if (position >= p.wordOffset + p.wordCount) lo = mid + 1;
+    else return mid;
+  }
+  return -1;
+};
+
+/**
+ * Diff two snapshots paragraph by paragraph
+ * - Unchanged paragraphs are matched in document order (a paragraph moved
+ *   upward past others counts as changed)
+ */
+export const diffSnapshots = (prev: CheckSnapshot, next: CheckSnapshot): SnapshotDiff => {
+  // key → পুরনো index গুলো (ক্রমানুসারে)
+  const byKey = new Map<string, number[]>();
+  prev.paragraphs.forEach((p, i) => {
+    const list = byKey.get(p.key);
+    if (list) list.push(i);
+    else byKey.set(p.key, [i]);
+  });
+
+  const prevToNext = new Map<number, number>();
+  const changed = new Set<number>();
+  let lastMatched = -1;
+
+  next.paragraphs.forEach((p, i) => {
+    const match = byKey.get(p.key)?.find(index => index > lastMatched);
+    if (match === undefined) {
+      changed.add(i);
+      return;
+    }
+    prevToNext.set(match, i);
+    lastMatched = match;
+  });
+
+  const removed = prev.paragraphs.filter((_, i) => !prevToNext.has(i));
+
+  return {
+    changedUnits: next.paragraphs.filter((_, i) => changed.has(i)).flatMap(p => p.units),
+    staleTexts: [
+      ...next.paragraphs.filter((_, i) => changed.has(i)).map(p => p.text),
+      ...removed.map(p => p.text)
+    ],
+    remap: (position) => {
+      const from = paragraphAt(prev.paragraphs, position);
+      const to = prevToNext.get(from);
+      if (to === undefined) return null;
+      return position - prev.paragraphs[from].wordOffset + next.paragraphs[to].wordOffset;
+    },
+    isChanged: (position) => changed.has(paragraphAt(next.paragraphs, position))
+  };
+};
+
+/**
+ * টেক্সটটি কি এই প্যারাগ্রাফগুলোর কোনোটিতে আছে? (position ছাড়া আইটেমের জন্য)
+ */
+const inParagraphs = (paragraphs: string[], text: string): boolean => {
+  const needle = normalize(text);
+  return !!needle && paragraphs.some(p => normalize(p).includes(needle));
+};
+
+/**
+ * আগের ফলাফল থেকে অপরিবর্তিত প্যারাগ্রাফের আইটেমগুলো নতুন position সহ রাখা
+ * - position ছাড়া আইটেম থাকে, যদি তার টেক্সট কোনো বদলানো/মুছে যাওয়া প্যারাগ্রাফে না থাকে
+ */
+export const carryOver = <T extends { position?: number }>(
+  items: T[],
+  diff: Pick<SnapshotDiff, 'remap' | 'staleTexts'>,
+  textOf: (item: T) => string
+): T[] =>
+  items.flatMap(item => {
+    if (item.position === undefined || item.position === null) {
+      return inParagraphs(diff.staleTexts, textOf(item)) ? [] : [item];
+    }
+    const position = diff.remap(item.position);
+    return position === null ? [] : [{ ...item, position }];
+  });
+
+/**
+ * লাইভ পরীক্ষায় একটি প্যারাগ্রাফের বদল
+ * - start: প্যারাগ্রাফের প্রথম শব্দ; oldEnd: আগের শেষ (exclusive)
+ * - delta: শব্দ সংখ্যার পরিবর্তন — পরের সব position এতটা সরে
+ */
+export interface ParagraphEdit {
+  start: number;
+  oldEnd: number;
+  delta: number;
+  oldText: string;
+  text: string;
+}
+
+/**
+ * Record a live paragraph edit in the snapshot
+ * - The old paragraph is the one starting at the same word; none there means a new paragraph
+ * - Later paragraphs move by the word-count delta
+ * - The edited paragraph gets an empty key: live mode only checks spelling and punctuation,
+ *   so the next check still re-analyzes it
+ * - Without a snapshot the old length is unknown and taken to be unchanged
+ */
+export const applyParagraphEdit = (
+  snapshot: CheckSnapshot | null,
+  text: string,
+  start: number
+): { edit: ParagraphEdit; snapshot: CheckSnapshot | null } => {
+  const wordCount = countWords(text);
+  if (!snapshot) {
+    return { edit: { start, oldEnd: start + wordCount, delta: 0, oldText: '', text }, snapshot: null };
+  }
+
+  const paragraphs = snapshot.paragraphs;
+  const index = paragraphs.findIndex(p => p.wordOffset >= start);
+  const old = index !== -1 && paragraphs[index].wordOffset === start ? paragraphs[index] : null;
+  const delta = wordCount - (old?.wordCount ?? 0);
+  const before = index === -1 ? paragraphs : paragraphs.slice(0, index);
+  const after = index === -1 ? [] : paragraphs.slice(old ? index + 1 : index);
+
+  const edited: ParagraphSnapshot = { key: '', text, wordOffset: start, wordCount, units: [{ text, wordOffset: start }] };
+  const shifted = after.map(p => ({
+    ...p,
+    wordOffset: p.wordOffset + delta,
+    units: p.units.map(u => ({ ...u, wordOffset: u.wordOffset + delta }))
+  }));
+
+  return {
+    edit: { start, oldEnd: start + (old?.wordCount ?? 0), delta, oldText: old?.text ?? '', text },
+    snapshot: { scope: snapshot.scope, paragraphs: [...before, edited, ...shifted] }
+  };
+};
+
+/**
+ * Previous results after a paragraph edit
+ * - Items before the paragraph stay, items after it move by the delta
+ * - Items inside it (or without a position but whose text is in it) are dropped unless `keep` says so
+ */
+export const rebaseItems = <T extends { position?: number }>(
+  items: T[],
+  edit: ParagraphEdit,
+  textOf: (item: T) => string,
+  keep: (item: T) => boolean = () => false
+): T[] => {
+  return items.flatMap(item => {
+    if (item.position === undefined || item.position === null) {
+      return inParagraphs([edit.oldText, edit.text], textOf(item)) && !keep(item) ? [] : [item];
+    }
+    if (item.position < edit.start) return [item];
+    if (item.position >= edit.oldEnd) return [{ ...item, position: item.position + edit.delta }];
+    return item.position < edit.oldEnd + edit.delta && keep(item) ? [item] : [];
+  });
+};
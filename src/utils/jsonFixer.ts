@@ -2,31 +2,102 @@
 /*                        JSON PARSING & FIXING                               */
 /* -------------------------------------------------------------------------- */
 
+const tryParse = (text: string): unknown => {
+  try {
+    return JSON.parse(text);
+  } catch {
+    return undefined;
+  }
+};
+
+/**
+ * Closing characters needed for a JSON prefix
+ * - Tracks open strings, objects and arrays (escape-aware)
+ * - Also reports cut points (before a comma / after an opening bracket) outside strings
+ */
+const scanJson = (text: string): { closers: string; cuts: number[] } => {
+  const stack: string[] = [];
+  const cuts: number[] = [];
+  let inString = false;
+  let escaped = false;
+
+  for (let i = 0; i < text.length; i++) {
+    const ch = text[i];
+    if (inString) {
+      if (escaped) escaped = false;
+      else if (ch === '\\') escaped = true;
+      else if (ch === '"') inString = false;
+      continue;
+    }
+    if (ch === '"') inString = true;
+    else if (ch === '{') { stack.push('}'); cuts.push(i + 1); }
+    else if (ch === '[') { stack.push(']'); cuts.push(i + 1); }
+    else if (ch === '}' || ch === ']') stack.pop();
+    else if (ch === ',') cuts.push(i);
+  }
+
+  return { closers: (inString ? '"' : '') + stack.reverse().join(''), cuts };
+};
+
+/**
+ * Repair JSON that was cut off mid-stream (long inputs hit the output limit)
+ * - Closes the open string, arrays and objects
+ * - If the last value is incomplete, cuts back to the previous comma/bracket and retries
+ */
+export const repairTruncatedJson = (raw: string, maxAttempts: number = 50): unknown => {
+  const start = raw.indexOf('{');
+  if (start === -1) return null;
+
+  const text = raw.slice(start).replace(/[\s,:]+$/, '');
+  const { closers, cuts } = scanJson(text);
+
+  // খোলা string মানে শেষ মানটি অসম্পূর্ণ — সেটি রাখা হয় না
+  if (!closers.startsWith('"')) {
+    const direct = tryParse(text + closers);
+    if (direct !== undefined) return direct;
+  }
+
+  for (const cut of cuts.reverse().slice(0, maxAttempts)) {
+    const prefix = text.slice(0, cut);
+    const repaired = tryParse(prefix + scanJson(prefix).closers);
+    if (repaired !== undefined) return repaired;
+  }
+
+  return null;
+};
+
 /**
  * Parse potentially malformed JSON from AI response
  * - Tries direct JSON.parse first
+ * - Strips Markdown code fences
  * - Falls back to extracting JSON object from text
+ * - Finally repairs truncated JSON
  */
-export const parseAIResponse = (raw: string): any | null => {
+export const parseAIResponse = (raw: string): unknown => {
   if (!raw || !raw.trim()) return null;
 
   // Try direct parse first
-  try {
-    return JSON.parse(raw);
-  } catch {
-    // Try to extract JSON object from text
-    const match = raw.match(/\{[\s\S]*\}/);
-    if (match) {
-      try {
-        return JSON.parse(match[0]);
-      } catch (e) {
-        console.error('JSON parse error (inner):', e, match[0]);
-        return null;
-      }
-    }
-    console.error('JSON parse error (outer): raw =', raw);
-    return null;
+  const direct = tryParse(raw);
+  if (direct !== undefined) return direct;
+
+  const unfenced = raw.replace(/```(?:json)?/gi, '').trim();
+
+  // Try to extract JSON object from text
+  const match = unfenced.match(/\{[\s\S]*\}/);
+  if (match) {
+    const inner = tryParse(match[0]);
+    if (inner !== undefined) return inner;
   }
+
+  // Truncated output
+  const repaired = repairTruncatedJson(unfenced);
+  if (repaired !== null) {
+    console.warn('JSON was truncated and has been repaired.');
+    return repaired;
+  }
+
+  console.error('JSON parse error: raw =', raw);
+  return null;
 };
 
 /**
@@ -0,0 +1,106 @@
+/* -------------------------------------------------------------------------- */
+/*                        LIVE CHECK (AS YOU TYPE)                            */
+/* -------------------------------------------------------------------------- */
+
+import { getParagraphAtCursor } from './word';
+import { isAbortError } from './scheduler';
+
+export interface LiveParagraph {
+  text: string;
+  wordOffset: number;
+}
+
+export interface LiveCheckOptions {
+  /** শেষ পরিবর্তনের কতক্ষণ পর পরীক্ষা */
+  debounceMs?: number;
+  /** দুই লাইভ পরীক্ষার মাঝে ন্যূনতম বিরতি (রেট লিমিট বাঁচাতে) */
+  minIntervalMs?: number;
+  /** প্যারাগ্রাফ পরীক্ষা — কলার AI/লোকাল ইঞ্জিন চালায় ও প্যানেল আপডেট করে */
+  onParagraph: (paragraph: LiveParagraph) => Promise<void>;
+  /** true হলে এই মুহূর্তে পরীক্ষা নয় (যেমন পুরো পরীক্ষা চলছে) */
+  isBusy?: () => boolean;
+}
+
+export interface LiveChecker {
+  start: () => void;
+  stop: () => void;
+}
+
+/**
+ * Background checker driven by Word selection-change events
+ * - Typing moves the cursor, so selection changes cover edits as well
+ * - Debounced; only the paragraph under the cursor, and only if its text changed
+ * - One check in flight at a time, at most one per `minIntervalMs`
+ * - Paused while the task pane is hidden
+ */
+export const createLiveChecker = (options: LiveCheckOptions): LiveChecker => {
+  const { debounceMs = 1500, minIntervalMs = 4000, onParagraph, isBusy = () => false } = options;
+
+  let timer: ReturnType<typeof setTimeout> | null = null;
+  let running = false;
+  let inFlight = false;
+  let lastRunAt = 0;
+  let lastText = '';
+
+  const schedule = (wait: number = debounceMs) => {
+    if (!running) return;
+    if (timer) clearTimeout(timer);
+    timer = setTimeout(run, wait);
+  };
+
+  const run = async () => {
+    timer = null;
+    if (!running || document.visibilityState === 'hidden') return;
+
+    // আগেরটি চলছে বা বিরতি পূর্ণ হয়নি — পরে আবার
+    const wait = lastRunAt + minIntervalMs - Date.now();
+    if (inFlight || isBusy() || wait > 0) {
+      schedule(Math.max(wait, debounceMs));
+      return;
+    }
+
+    const paragraph = await getParagraphAtCursor();
+    if (!paragraph || !paragraph.text.trim() || paragraph.text === lastText) return;
+
+    inFlight = true;
+    lastRunAt = Date.now();
+    try {
+      await onParagraph(paragraph);
+      lastText = paragraph.text;
+    } catch (error) {
+      if (!isAbortError(error)) console.error('Live check error:', error);
+    } finally {
+      inFlight = false;
+    }
+  };
+
+  const onSelectionChanged = () => schedule();
+
+  const onVisibilityChange = () => {
+    if (document.visibilityState === 'hidden') {
+      if (timer) clearTimeout(timer);
+      timer = null;
+    } else {
+      schedule();
+    }
+  };
+
+  return {
+    start: () => {
+      if (running) return;
+      running = true;
+      lastText = '';
+      Office.context.document.addHandlerAsync(Office.EventType.DocumentSelectionChanged, onSelectionChanged);
+      document.addEventListener('visibilitychange', onVisibilityChange);
+      schedule();
+    },
+    stop: () => {
+      if (!running) return;
+      running = false;
+      if (timer) clearTimeout(timer);
+      timer = null;
+      Office.context.document.removeHandlerAsync(Office.EventType.DocumentSelectionChanged, { handler: onSelectionChanged });
+      document.removeEventListener('visibilitychange', onVisibilityChange);
+    }
+  };
+};
@@ -0,0 +1,89 @@
+import { describe, it, expect } from 'vitest';
+import { canonicalizeBangla, canonicalizeWithMap, searchVariants, normalize } from './normalize';
+
+// [নাম, এক রূপ, অন্য রূপ] — canonicalizeBangla এর পর দুটো একই হতে হবে
+const PAIRS: Array<[string, string, string]> = [
+  ['য় precomposed / nukta', 'ন\u09DFন', 'নয\u09BCন'],
+  ['ড় precomposed / nukta', 'বা\u09DCি', 'বাড\u09BCি'],
+  ['ঢ় precomposed / nukta', 'আষা\u09DD', 'আষাঢ\u09BC'],
+  ['ৎ / ত্ + ZWNJ', 'হঠা\u09CE', 'হঠাত্\u200C'],
+  ['ৎ / ত্ + ZWJ', 'বিদ্যু\u09CE', 'বিদ্যুত্\u200D'],
+  ['ো / ে + া', 'ক\u09CBন', 'ক\u09C7\u09BEন'],
+  ['ৌ / ে + ৗ', 'ক\u09CCশল', 'কে\u09D7শল'],
+  ['আ / অ + া', 'আমি', '\u0985ামি'],
+  ['ক্ষ / ক + ্ + ZWJ + ষ', 'পক্ষ', 'পক্\u200Dষ'],
+  ['zero-width space / soft hyphen', 'বাংলা', 'বাং\u200Bলা\u00AD']
+];
+
+describe('canonicalizeBangla', () => {
+  it.each(PAIRS)('%s', (_, a, b) => {
+    expect(a).not.toBe(b);
+    expect(canonicalizeBangla(a)).toBe(canonicalizeBangla(b));
+  });
+
+  it('is idempotent', () => {
+    for (const [, a, b] of PAIRS) {
+      expect(canonicalizeBangla(canonicalizeBangla(a))).toBe(canonicalizeBangla(a));
+      expect(canonicalizeBangla(canonicalizeBangla(b))).toBe(canonicalizeBangla(b));
+    }
+  });
+
+  it('keeps a genuine hasanta before other letters', () => {
+    expect(canonicalizeBangla('উত্তর')).toBe('উত্তর');
+    expect(canonicalizeBangla('ত্\u200C')).toBe('\u09CE');
+  });
+});
+
+describe('canonicalizeWithMap', () => {
+  it.each(PAIRS)('%s: same text as canonicalizeBangla', (_, a, b) => {
+    const text = `(${a}) ও ${b}।`;
+    expect(canonicalizeWithMap(text).text).toBe(canonicalizeBangla(text));
+  });
+
+  it('maps canonical matches back to the original slice', () => {
+    const original = 'আমার বাড\u09BCি আর হঠাত্\u200C মুঠো\u200B ফোন';
+    const { text, toOriginal } = canonicalizeWithMap(original);
+    for (const word of ['বাড\u09BCি', 'হঠা\u09CE', 'মুঠো ফোন']) {
+      const start = text.indexOf(canonicalizeBangla(word));
+      const slice = original.slice(toOriginal(start), toOriginal(start + canonicalizeBangla(word).length));
+      expect(canonicalizeBangla(slice)).toBe(canonicalizeBangla(word));
+      expect(original).toContain(slice);
+    }
+    expect(original.slice(toOriginal(text.indexOf('হঠা\u09CE')), toOriginal(text.indexOf('হঠা\u09CE') + 4)))
+      .toBe('হঠাত্\u200C');
+  });
+});
+
+describe('searchVariants', () => {
+  it('starts with the text as given', () => {
+    for (const [, a, b] of PAIRS) {
+      expect(searchVariants(a)[0]).toBe(a);
+      expect(searchVariants(b)[0]).toBe(b);
+    }
+  });
+
+  it.each(PAIRS)('%s: variants of either form share the canonical form', (_, a, b) => {
+    const canonical = canonicalizeBangla(a);
+    for (const variant of [...searchVariants(a), ...searchVariants(b)]) {
+      expect(canonicalizeBangla(variant)).toBe(canonical);
+    }
+  });
+
+  it('offers precomposed য়/ড়/ঢ় and ZWNJ khanda-ta for Word search', () => {
+    expect(searchVariants('নয\u09BCন')).toContain('ন\u09DFন');
+    expect(searchVariants('বাড\u09BCি')).toContain('বা\u09DCি');
+    expect(searchVariants('আষাঢ\u09BC')).toContain('আষা\u09DD');
+    expect(searchVariants('হঠা\u09CE')).toContain('হঠাত্\u200C');
+  });
+
+  it('has no duplicates', () => {
+    const variants = searchVariants('সাধারণ');
+    expect(new Set(variants).size).toBe(variants.length);
+  });
+});
+
+describe('normalize', () => {
+  it('collapses whitespace, lowercases and canonicalizes', () => {
+    expect(normalize('  Word\r\n  বাড়ি\t ')).toBe('word বাড়ি');
+  });
+});
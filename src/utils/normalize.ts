@@ -2,15 +2,94 @@
 /*                        TEXT NORMALIZATION                                  */
 /* -------------------------------------------------------------------------- */
 
+/**
+ * Canonical Bangla form for matching
+ * - NFC (ো = ে + া, ৌ = ে + ৗ are composed)
+ * - য় / ড় / ঢ় → base + nukta (NFC decomposes the precomposed letters)
+ * - ত্ + ZWJ/ZWNJ → ৎ (old khanda-ta encoding)
+ * - ZWJ, ZWNJ, zero-width space, soft hyphen and BOM removed
+ * - অ + া → আ (legacy typing)
+ *
+ * Tricky pairs that must compare equal after this (checked in normalize.test.ts):
+ *   য়  (U+09DF)          ↔  য + ়  (U+09AF U+09BC)
+ *   ড়  (U+09DC)          ↔  ড + ়  (U+09A1 U+09BC)
+ *   ঢ়  (U+09DD)          ↔  ঢ + ়  (U+09A2 U+09BC)
+ *   ৎ  (U+09CE)          ↔  ত + ্ + ZWNJ / ZWJ
+ *   ো  (U+09CB)          ↔  ে + া  (U+09C7 U+09BE)
+ *   ৌ  (U+09CC)          ↔  ে + ৗ  (U+09C7 U+09D7)
+ *   ক্ষ                   ↔  ক + ্ + ZWJ + ষ
+ *   আ  (U+0986)          ↔  অ + া  (U+0985 U+09BE)
+ */
+export const canonicalizeBangla = (str: string): string => {
+  if (!str) return '';
+  return str
+    .normalize('NFC')
+    .replace(/\u09A4\u09CD[\u200C\u200D]/g, '\u09CE')
+    .replace(/[\u200B-\u200D\u00AD\uFEFF]/g, '')
+    .replace(/\u0985\u09BE/g, '\u0986')
+    .normalize('NFC');
+};
+
+/**
+ * canonicalizeBangla with a way back to the original text
+ * - Canonicalizes letter-by-letter: each base character with its following marks / ZWJ / ZWNJ
+ *   (every rule above stays inside such a cluster, so the result equals canonicalizeBangla)
+ * - toOriginal(i): index in the original text for index `i` of the canonical text;
+ *   exact at cluster boundaries, which is where word matches start and end
+ */
+export const canonicalizeWithMap = (str: string): { text: string; toOriginal: (index: number) => number } => {
+  const starts: number[] = [];
+  const origins: number[] = [];
+  let text = '';
+  for (const m of str.matchAll(/[^\p{M}\p{Cf}]?[\p{M}\p{Cf}]*/gu)) {
+    if (!m[0]) continue;
+    starts.push(text.length);
+    origins.push(m.index ?? 0);
+    text += canonicalizeBangla(m[0]);
+  }
+
+  const toOriginal = (index: number): number => {
+    if (index >= text.length) return str.length;
+    let lo = 0;
+    let hi = starts.length - 1;
+    while (lo < hi) {
+      const mid = (lo + hi + 1) >> 1;
+      if (starts[mid] <= index) lo = mid;
+      else hi = mid - 1;
+    }
+    const next = origins[lo + 1] ?? str.length;
+    return Math.min(origins[lo] + index - starts[lo], next);
+  };
+
+  return { text, toOriginal };
+};
+
+/**
+ * Search variants of a text for Word's body.search
+ * - Word matches code points literally, so the document may hold either form
+ * - First entry is always the text as given
+ */
+export const searchVariants = (str: string): string[] => {
+  const canonical = canonicalizeBangla(str);
+  const precomposed = canonical
+    .replace(/\u09A1\u09BC/g, '\u09DC')
+    .replace(/\u09A2\u09BC/g, '\u09DD')
+    .replace(/\u09AF\u09BC/g, '\u09DF');
+  const zwnjKhandaTa = canonical.replace(/\u09CE/g, '\u09A4\u09CD\u200C');
+
+  return Array.from(new Set([str, canonical, precomposed, zwnjKhandaTa]));
+};
+
 /**
  * Normalize text for comparison
+ * - Bangla canonical form (see canonicalizeBangla)
  * - Trims whitespace
  * - Converts multiple spaces/newlines to single space
  * - Converts to lowercase
  */
 export const normalize = (str: string): string => {
   if (!str) return '';
-  return str
+  return canonicalizeBangla(str)
     .trim()
     .replace(/[\r\n]+/g, ' ')
     .replace(/\s+/g, ' ')
@@ -25,11 +104,4 @@ export const cleanWordText = (text: string): string => {
   return text
     .replace(/\r\n/g, '\n')
     .replace(/\r/g, '\n');
-};
-
-/**
- * Helper for Rate Limiting (Delay)
- */
-export const delay = (ms: number): Promise<void> => {
-  return new Promise(resolve => setTimeout(resolve, ms));
 };
\ No newline at end of file
@@ -0,0 +1,221 @@
+/* -------------------------------------------------------------------------- */
+/*                        NUMERAL / DATE / CURRENCY CHECKER                   */
+/* -------------------------------------------------------------------------- */
+
+import { NumeralIssue } from '../types';
+import { NumberConvention } from '../prompts/core';
+import { createWordIndex } from './position';
+
+const BN_DIGITS = '০১২৩৪৫৬৭৮৯';
+
+export const toBanglaDigits = (s: string): string => s.replace(/[0-9]/g, d => BN_DIGITS[Number(d)]);
+
+export const toLatinDigits = (s: string): string =>
+  s.replace(/[০-৯]/g, d => String(BN_DIGITS.indexOf(d)));
+
+const toDigits = (s: string, digits: NumberConvention['digits']): string =>
+  digits === 'bangla' ? toBanglaDigits(s) : toLatinDigits(s);
+
+/* ------------------------------ PATTERNS ---------------------------------- */
+
+const D = '[0-9০-৯]';
+
+/** প্রমিত মাসের নাম (index = মাস - 1) */
+const MONTHS = [
+  'জানুয়ারি', 'ফেব্রুয়ারি', 'মার্চ', 'এপ্রিল', 'মে', 'জুন',
+  'জুলাই', 'আগস্ট', 'সেপ্টেম্বর', 'অক্টোবর', 'নভেম্বর', 'ডিসেম্বর'
+];
+
+/** লেখায় পাওয়া রূপ → মাস (বিকল্প বানান ও ইংরেজি নাম সহ) */
+const MONTH_ALIASES: Record<string, number> = {
+  ...Object.fromEntries(MONTHS.map((m, i) => [m, i + 1])),
+  'জানুয়ারী': 1, 'ফেব্রুয়ারী': 2, 'আগষ্ট': 8,
+  january: 1, february: 2, march: 3, april: 4, may: 5, june: 6,
+  july: 7, august: 8, september: 9, october: 10, november: 11, december: 12
+};
+
+const MONTH_PATTERN = Object.keys(MONTH_ALIASES).sort((a, b) => b.length - a.length).join('|');
+
+const NUMERIC_DATE = new RegExp(`(?<!${D})(${D}{1,2})([/.\\-])(${D}{1,2})\\2(${D}{4}|${D}{2})(?!${D})`, 'g');
+const LONG_DATE = new RegExp(`(?<!${D})(${D}{1,2})(?:ই|লা|শে|রা|ঠা)?\\s+(${MONTH_PATTERN})\\s*,?\\s+(${D}{4})(?!${D})`, 'gi');
+
+const AMOUNT = `${D}[0-9০-৯,]*(?:\\.${D}+)?`;
+const CURRENCY = new RegExp(
+  `৳\\s?(${AMOUNT})|(?:Tk|TK|tk|BDT)\\.?\\s?(${AMOUNT})|(${AMOUNT})\\s?টাকা`,
+  'g'
+);
+
+/* ------------------------------ FORMATTERS -------------------------------- */
+
+const formatDate = (day: number, month: number, year: number, c: NumberConvention): string => {
+  if (c.date === 'long') return toDigits(`${day} ${MONTHS[month - 1]} ${year}`, c.digits);
+  const pad = (n: number) => String(n).padStart(2, '0');
+  return toDigits(`${pad(day)}/${pad(month)}/${year}`, c.digits);
+};
+
+const formatCurrency = (amount: string, c: NumberConvention): string => {
+  const value = toDigits(amount, c.digits);
+  if (c.currency === 'symbol') return `৳${value}`;
+  if (c.currency === 'tk') return `Tk ${value}`;
+  return `${value} টাকা`;
+};
+
+const DATE_LABEL: Record<NumberConvention['date'], string> = {
+  numeric: 'দিন/মাস/বছর',
+  long: 'দিন মাস বছর'
+};
+
+/* ------------------------------ DETECTION --------------------------------- */
+
+/**
+ * ডকুমেন্টে যে রীতি বেশি — doc type এ রীতি না থাকলে এটিই ব্যবহার হয়
+ */
+export const detectConvention = (text: string): NumberConvention => {
+  const bangla = (text.match(/[০-৯]/g) || []).length;
+  const latin = (text.match(/[0-9]/g) || []).length;
+  const numeric = (text.match(NUMERIC_DATE) || []).length;
+  const long = (text.match(LONG_DATE) || []).length;
+
+  const currencyVotes = { taka: 0, symbol: 0, tk: 0 };
+  for (const m of text.matchAll(CURRENCY)) {
+    if (m[1] !== undefined) currencyVotes.symbol++;
+    else if (m[2] !== undefined) currencyVotes.tk++;
+    else currencyVotes.taka++;
+  }
+  const currency = (Object.keys(currencyVotes) as NumberConvention['currency'][])
+    .reduce((best, k) => (currencyVotes[k] > currencyVotes[best] ? k : best), 'taka');
+
+  return {
+    digits: latin > bangla ? 'latin' : 'bangla',
+    date: numeric > long ? 'numeric' : 'long',
+    currency
+  };
+};
+
+/**
+ * সংখ্যা, তারিখ ও মুদ্রার অসঙ্গতি খোঁজা (রীতি অনুযায়ী)
+ * - তারিখ ও মুদ্রার ভেতরের অঙ্ক আলাদা করে ধরা হয় না
+ * - ইংরেজি অক্ষরসহ টোকেন (কোড, মডেল নম্বর, URL) বাদ
+ */
+export const checkNumerals = (text: string, convention: NumberConvention): NumeralIssue[] => {
+  const issues: NumeralIssue[] = [];
+  const covered: Array<[number, number]> = [];
+  const isCovered = (start: number, end: number) => covered.some(([s, e]) => start < e && s < end);
+  const wordIndex = createWordIndex(text);
+
+  const push = (kind: NumeralIssue['kind'], start: number, current: string, suggestion: string, reason: string) => {
+    covered.push([start, start + current.length]);
+    if (current !== suggestion) {
+      issues.push({ kind, current, suggestion, reason, position: wordIndex(start) });
+    }
+  };
+
+  // ১. তারিখ
+  for (const m of text.matchAll(LONG_DATE)) {
+    const month = MONTH_ALIASES[m[2].toLowerCase()];
+    const day = Number(toLatinDigits(m[1]));
+    if (!month || day < 1 || day > 31) continue;
+    const suggestion = formatDate(day, month, Number(toLatinDigits(m[3])), convention);
+    push('date', m.index ?? 0, m[0], suggestion, `তারিখের রীতি: ${DATE_LABEL[convention.date]}`);
+  }
+  for (const m of text.matchAll(NUMERIC_DATE)) {
+    const start = m.index ?? 0;
+    if (isCovered(start, start + m[0].length)) continue;
+    const day = Number(toLatinDigits(m[1]));
+    const month = Number(toLatinDigits(m[3]));
+    if (day < 1 || day > 31 || month < 1 || month > 12) continue;
+    const rawYear = toLatinDigits(m[4]);
+    const year = rawYear.length === 2 ? 2000 + Number(rawYear) : Number(rawYear);
+    const suggestion = formatDate(day, month, year, convention);
+    push('date', start, m[0], suggestion, `তারিখের রীতি: ${DATE_LABEL[convention.date]}`);
+  }
+
+  // ২. মুদ্রা
+  for (const m of text.matchAll(CURRENCY)) {
+    const start = m.index ?? 0;
+    if (isCovered(start, start + m[0].length)) continue;
+    const amount = m[1] ?? m[2] ?? m[3];
+    push('currency', start, m[0], formatCurrency(amount, convention), 'টাকার লেখা ডকুমেন্টজুড়ে একই রকম হওয়া উচিত');
+  }
+
+  // ৩. বাকি অঙ্ক
+  const wrongDigit = convention.digits === 'bangla' ? /[0-9]/ : /[০-৯]/;
+  for (const m of text.matchAll(/\S+/g)) {
+    const token = m[0];
+    const start = m.index ?? 0;
+    if (!wrongDigit.test(token) || /[A-Za-z]/.test(token) || isCovered(start, start + token.length)) continue;
+    push(
+      'digits',
+      start,
+      token,
+      toDigits(token, convention.digits),
+      convention.digits === 'bangla' ? 'বাংলা লেখায় বাংলা অঙ্ক (০-৯)' : 'এই ডকুমেন্টে ইংরেজি অঙ্ক (0-9)'
+    );
+  }
+
+  return issues.sort((a, b) => a.position - b.position);
+};
+
+/* ------------------------------ NUMBER TO WORDS --------------------------- */
+
+const UNDER_HUNDRED = [
+  'শূন্য', 'এক', 'দুই', 'তিন', 'চার', 'পাঁচ', 'ছয়', 'সাত', 'আট', 'নয়',
+  'দশ', 'এগারো', 'বারো', 'তেরো', 'চৌদ্দ', 'পনেরো', 'ষোলো', 'সতেরো', 'আঠারো', 'উনিশ',
+  'বিশ', 'একুশ', 'বাইশ', 'তেইশ', 'চব্বিশ', 'পঁচিশ', 'ছাব্বিশ', 'সাতাশ', 'আটাশ', 'ঊনত্রিশ',
+  'ত্রিশ', 'একত্রিশ', 'বত্রিশ', 'তেত্রিশ', 'চৌত্রিশ', 'পঁয়ত্রিশ', 'ছত্রিশ', 'সাঁইত্রিশ', 'আটত্রিশ', 'ঊনচল্লিশ',
+  'চল্লিশ', 'একচল্লিশ', 'বিয়াল্লিশ', 'তেতাল্লিশ', 'চুয়াল্লিশ', 'পঁয়তাল্লিশ', 'ছেচল্লিশ', 'সাতচল্লিশ', 'আটচল্লিশ', 'ঊনপঞ্চাশ',
+  'পঞ্চাশ', 'একান্ন', 'বায়ান্ন', 'তিপ্পান্ন', 'চুয়ান্ন', 'পঞ্চান্ন', 'ছাপ্পান্ন', 'সাতান্ন', 'আটান্ন', 'ঊনষাট',
+  'ষাট', 'একষট্টি', 'বাষট্টি', 'তেষট্টি', 'চৌষট্টি', 'পঁয়ষট্টি', 'ছেষট্টি', 'সাতষট্টি', 'আটষট্টি', 'ঊনসত্তর',
+  'সত্তর', 'একাত্তর', 'বাহাত্তর', 'তিয়াত্তর', 'চুয়াত্তর', 'পঁচাত্তর', 'ছিয়াত্তর', 'সাতাত্তর', 'আটাত্তর', 'ঊনআশি',
+  'আশি', 'একাশি', 'বিরাশি', 'তিরাশি', 'চুরাশি', 'পঁচাশি', 'ছিয়াশি', 'সাতাশি', 'আটাশি', 'ঊননব্বই',
+  'নব্বই', 'একানব্বই', 'বিরানব্বই', 'তিরানব্বই', 'চুরানব্বই', 'পঁচানব্বই', 'ছিয়ানব্বই', 'সাতানব্বই', 'আটানব্বই', 'নিরানব্বই'
+];
+
+/** কোটির নিচের অংশ (০ < n < ১,০০,০০,০০০) */
+const belowCrore = (n: number): string[] => {
+  const parts: string[] = [];
+  const lakh = Math.floor(n / 100000);
+  const thousand = Math.floor((n % 100000) / 1000);
+  const hundred = Math.floor((n % 1000) / 100);
+  const rest = n % 100;
+  if (lakh) parts.push(`${UNDER_HUNDRED[lakh]} লক্ষ`);
+  if (thousand) parts.push(`${UNDER_HUNDRED[thousand]} হাজার`);
+  if (hundred) parts.push(`${UNDER_HUNDRED[hundred]}শত`);
+  if (rest) parts.push(UNDER_HUNDRED[rest]);
+  return parts;
+};
+
+/**
+ * পূর্ণসংখ্যা → বাংলা কথায় (ভারতীয় পদ্ধতি: কোটি, লক্ষ, হাজার, শত)
+ * - কোটির বেশি হলে কোটির অংশও একইভাবে: "এক হাজার কোটি"
+ */
+export const numberToBanglaWords = (value: number): string => {
+  const n = Math.floor(Math.abs(value));
+  if (!Number.isSafeInteger(n)) return '';
+  if (n === 0) return UNDER_HUNDRED[0];
+
+  const words: string[] = [];
+  const crore = Math.floor(n / 10000000);
+  if (crore) words.push(`${numberToBanglaWords(crore)} কোটি`);
+  words.push(...belowCrore(n % 10000000));
+  return (value < 0 ? 'ঋণাত্মক ' : '') + words.join(' ');
+};
+
+/**
+ * টাকার অঙ্ক → চেক/দলিলের ভাষায় ("এক লক্ষ পঁচিশ হাজার টাকা পঞ্চাশ পয়সা মাত্র")
+ * - বাংলা বা ইংরেজি অঙ্ক, কমা সহ বা ছাড়া
+ * - অবৈধ হলে null
+ */
+export const amountToBanglaWords = (amount: string): string | null => {
+  const cleaned = toLatinDigits(amount).replace(/[,\s]/g, '').replace(/^(?:৳|Tk\.?|BDT)/i, '').replace(/(?:টাকা|\/-)$/, '');
+  const m = cleaned.match(/^(\d+)(?:\.(\d{1,2}))?$/);
+  if (!m) return null;
+
+  const taka = Number(m[1]);
+  if (!Number.isSafeInteger(taka)) return null;
+  const paisa = m[2] ? Number(m[2].padEnd(2, '0')) : 0;
+
+  const parts = [`${numberToBanglaWords(taka)} টাকা`];
+  if (paisa) parts.push(`${numberToBanglaWords(paisa)} পয়সা`);
+  return `${parts.join(' ')} মাত্র`;
+};
@@ -0,0 +1,312 @@
+/* -------------------------------------------------------------------------- */
+/*                        PHONETIC TRANSLITERATION (BANGLISH → BANGLA)        */
+/* -------------------------------------------------------------------------- */
+
+import { BanglishSpan } from '../types';
+import { AIConfig } from './providers';
+import { callAIJsonCached } from './analysis';
+import { mapWithConcurrency, CHUNK_CONCURRENCY } from './chunker';
+import { canonicalizeBangla } from './normalize';
+import { toBanglaDigits } from './numerals';
+import { validateTransliterationResponse } from './schema';
+import { buildTransliterationPrompt } from '../prompts/transliteration';
+
+const Y = 'য\u09BC'; // য়
+
+/* ------------------------------ AVRO RULES -------------------------------- */
+
+type Token =
+  | { kind: 'consonant'; roman: string; bangla: string }
+  | { kind: 'vowel'; roman: string; independent: string; kar: string }
+  | { kind: 'sign'; roman: string; bangla: string }
+  | { kind: 'special'; roman: string };
+
+/**
+ * Avro ফোনেটিক লেআউটের মতো — বড় হাতের O I U D N R S T Z G আলাদা অক্ষর
+ * - লম্বা রূপ আগে মেলে (kkh → ক্ষ, kh → খ, k → ক)
+ */
+const CONSONANTS: Record<string, string> = {
+  kkh: 'ক্ষ', kh: 'খ', k: 'ক', q: 'ক',
+  gg: 'জ্ঞ', gh: 'ঘ', g: 'গ', Ng: 'ঙ', NG: 'ঞ',
+  chh: 'ছ', ch: 'ছ', c: 'চ', jh: 'ঝ', j: 'জ', J: 'জ',
+  Th: 'ঠ', T: 'ট', Dh: 'ঢ', D: 'ড', N: 'ণ',
+  th: 'থ', t: 'ত', dh: 'ধ', d: 'দ', n: 'ন',
+  ph: 'ফ', p: 'প', f: 'ফ', bh: 'ভ', b: 'ব', v: 'ভ', m: 'ম',
+  z: 'য', r: 'র', l: 'ল',
+  Sh: 'ষ', sh: 'শ', S: 'শ', s: 'স', h: 'হ',
+  Rh: 'ঢ\u09BC', R: 'ড\u09BC',
+  't``': 'ৎ'
+};
+
+/** [স্বাধীন রূপ, কার] — ব্যঞ্জনের পরে কার, নইলে স্বাধীন স্বরবর্ণ; o এর কার নেই (অন্তর্নিহিত অ) */
+const VOWELS: Record<string, [string, string]> = {
+  rri: ['ঋ', 'ৃ'], OI: ['ঐ', 'ৈ'], OU: ['ঔ', 'ৌ'],
+  oo: ['উ', 'ু'], ee: ['ঈ', 'ী'],
+  o: ['অ', ''], O: ['ও', 'ো'], a: ['আ', 'া'],
+  i: ['ই', 'ি'], I: ['ঈ', 'ী'], u: ['উ', 'ু'], U: ['ঊ', 'ূ'], e: ['এ', 'ে']
+};
+
+const SIGNS: Record<string, string> = { ng: 'ং', '^': 'ঁ' };
+
+/** ব্যঞ্জনের পরে ফলা, নইলে নিজস্ব রূপ — y (্য / য়), w (্ব / ও), Z (্য), x (ক্স) */
+const SPECIALS = new Set(['y', 'w', 'Z', 'x']);
+
+const MAX_PATTERN = 3;
+
+/**
+ * যে দুই ব্যঞ্জন পরপর এলে হসন্ত দিয়ে যুক্তাক্ষর হয়
+ * - চ্যাটে লেখা ক্রিয়ার সাথে সংঘাত এড়াতে কিছু জোড় ইচ্ছাকৃতভাবে বাদ
+ *   (thakte → থাকতে, lagbe → লাগবে, ashbo → আসব, amra → আমরা)
+ */
+const CONJUNCTS = new Set(
+  (
+    'ক্ক ক্ট ক্র ক্ল ক্ষ গ্ধ গ্ন গ্র গ্ল ঘ্র ঙ্ক ঙ্খ ঙ্গ ঙ্ঘ চ্চ চ্ছ জ্জ জ্ঝ জ্ঞ ঞ্চ ঞ্ছ ঞ্জ ঞ্ঝ ' +
+    'ট্ট ড্ড ণ্ট ণ্ঠ ণ্ড ণ্ণ ত্ত ত্থ ত্র দ্দ দ্ধ দ্ভ দ্র ধ্র ন্ত ন্থ ন্দ ন্ধ ন্ন প্ত প্প প্র প্ল ' +
+    'ফ্র ফ্ল ব্দ ব্ধ ব্ব ব্র ব্ল ভ্র ম্প ম্ফ ম্ব ম্ভ ম্ম ল্ক ল্গ ল্ট ল্ড ল্প ল্ল শ্চ শ্ন শ্র শ্ল ' +
+    'ষ্ক ষ্ট ষ্ঠ ষ্ণ ষ্প ষ্ম স্ক স্ট স্ত স্থ স্ন স্প স্ফ স্ম স্র স্ল হ্ন হ্ম হ্র হ্ল'
+  ).split(' ')
+);
+
+/**
+ * Avro অটোকারেক্টের মতো — যে প্রচলিত শব্দ নিয়ম দিয়ে ঠিক আসে না (ভালো, জন্য, যা, একটা …)
+ */
+const AUTOCORRECT: Record<string, string> = {
+  bhalo: 'ভালো', valo: 'ভালো', acho: 'আছো', shob: 'সব', sob: 'সব', jonno: 'জন্য',
+  dhonnobad: 'ধন্যবাদ', dhonyobad: 'ধন্যবাদ', ja: 'যা', je: 'যে', jodi: 'যদি', jeno: 'যেন',
+  jabo: 'যাব', jai: 'যাই', jay: `যা${Y}`, jacchi: 'যাচ্ছি', jokhon: 'যখন', kothay: `কোথা${Y}`,
+  ha: 'হ্যাঁ', haa: 'হ্যাঁ', hae: 'হ্যাঁ', acha: 'আচ্ছা', accha: 'আচ্ছা', thik: 'ঠিক',
+  ekta: 'একটা', eta: 'এটা', oita: 'ওইটা', sheta: 'সেটা', seta: 'সেটা', shathe: 'সাথে',
+  she: 'সে', shei: 'সেই', sei: 'সেই', shomoy: `সম${Y}`, kharap: 'খারাপ', shudhu: 'শুধু',
+  bangali: 'বাঙালি', kivabe: 'কীভাবে', kibhabe: 'কীভাবে', ta: 'টা', ti: 'টি', gula: 'গুলা'
+};
+
+/**
+ * Avro এর case নিয়ম, তবে চ্যাটের লেখার জন্য শিথিল
+ * - বাক্যের শুরুর বড় হাতের অক্ষর (Tumi) বা পুরো বড় হাতের শব্দ (AMI) আলাদা অক্ষর নয়
+ */
+const fixCase = (word: string): string => {
+  if (/^[A-Z][a-z`^]*$/.test(word)) return word[0].toLowerCase() + word.slice(1);
+  if (/^[A-Z]{2,}$/.test(word)) return word.toLowerCase();
+  return word;
+};
+
+const tokenize = (word: string): Array<Token | string> => {
+  const tokens: Array<Token | string> = [];
+  let i = 0;
+  while (i < word.length) {
+    let matched = false;
+    for (let len = MAX_PATTERN; len > 0 && !matched; len--) {
+      const part = word.slice(i, i + len);
+      if (part.length < len) continue;
+      // ছোট হাতের বিকল্প — যে বড় হাতের অক্ষর আলাদা অক্ষর নয় (যেমন B, K)
+      for (const roman of [part, part.toLowerCase()]) {
+        if (CONSONANTS[roman]) tokens.push({ kind: 'consonant', roman, bangla: CONSONANTS[roman] });
+        else if (VOWELS[roman]) tokens.push({ kind: 'vowel', roman, independent: VOWELS[roman][0], kar: VOWELS[roman][1] });
+        else if (SIGNS[roman]) tokens.push({ kind: 'sign', roman, bangla: SIGNS[roman] });
+        else if (SPECIALS.has(roman)) tokens.push({ kind: 'special', roman });
+        else continue;
+        i += len;
+        matched = true;
+        break;
+      }
+    }
+    if (!matched) tokens.push(word[i++]);
+  }
+  return tokens;
+};
+
+/**
+ * একটি শব্দ — ব্যঞ্জনের পরে স্বর হলে কার, পরপর দুই ব্যঞ্জন যুক্তাক্ষর তালিকায় থাকলে হসন্ত
+ */
+const transliterateWord = (raw: string): string => {
+  const word = fixCase(raw);
+  if (AUTOCORRECT[word]) return AUTOCORRECT[word];
+
+  const tokens = tokenize(word);
+  let out = '';
+  let afterConsonant = false;
+  let last = '';
+
+  tokens.forEach((token, i) => {
+    if (typeof token === 'string') {
+      out += token;
+      afterConsonant = false;
+      return;
+    }
+    const next = tokens[i + 1];
+    switch (token.kind) {
+      case 'vowel':
+        out += afterConsonant ? token.kar : token.independent;
+        afterConsonant = false;
+        break;
+      case 'consonant': {
+        // শব্দের শেষে "-te" (করতে, থাকতে, জানতে) — চ্যাটে প্রায় সবসময় অসমাপিকা ক্রিয়া
+        const infinitive = token.roman === 't' && i === tokens.length - 2 && typeof next !== 'string' && next?.roman === 'e';
+        if (afterConsonant && !infinitive && CONJUNCTS.has(`${last}্${token.bangla}`)) out += '্';
+        out += token.bangla;
+        last = token.bangla;
+        afterConsonant = true;
+        break;
+      }
+      case 'sign':
+        out += token.bangla;
+        afterConsonant = false;
+        break;
+      case 'special':
+        if (token.roman === 'x') {
+          out += 'ক্স';
+          last = 'স';
+          afterConsonant = true;
+        } else if (afterConsonant) {
+          out += token.roman === 'w' ? '্ব' : '্য';
+          last = token.roman === 'w' ? 'ব' : 'য';
+        } else if (token.roman === 'w') {
+          // wa → ওয়া (Avro)
+          const vowelNext = typeof next !== 'string' && next?.kind === 'vowel';
+          out += vowelNext ? `ও${Y}` : 'ও';
+          afterConsonant = vowelNext;
+          last = Y;
+        } else {
+          out += token.roman === 'Z' ? 'য' : Y;
+          last = Y;
+          afterConsonant = true;
+        }
+        break;
+    }
+  });
+  return out;
+};
+
+/**
+ * রোমান হরফের লেখা বাংলায় (লোকাল, কোনো API নয়)
+ * - শব্দের বাইরের স্পেস ও বিরামচিহ্ন অক্ষত, শুধু একক "." → "।"
+ * - সংখ্যা বাংলা অঙ্কে
+ */
+export const transliterate = (text: string): string =>
+  canonicalizeBangla(
+    toBanglaDigits(
+      text
+        .replace(/(?<![.\d])\.(?![.\d])/g, '।')
+        .replace(/[A-Za-z`^]+/g, transliterateWord)
+    )
+  );
+
+/* ------------------------------ DETECTION --------------------------------- */
+
+/** চ্যাটে বহুল ব্যবহৃত বাংলিশ শব্দ — এগুলো থাকলে অংশটি বাংলা */
+const BANGLISH_WORDS = new Set([
+  ...Object.keys(AUTOCORRECT),
+  'ami', 'tumi', 'apni', 'se', 'amra', 'tomra', 'apnara', 'tara', 'ora', 'amar', 'tomar', 'apnar', 'tar',
+  'amader', 'tomader', 'ki', 'keno', 'kobe', 'kemon', 'koto', 'na', 'nai', 'nei', 'ache', 'achi', 'achen',
+  'chilo', 'chile', 'hobe', 'hoy', 'hoye', 'hoyeche', 'hocche', 'korbo', 'korchi', 'korlam', 'korte', 'kore',
+  'koren', 'korun', 'kori', 'bolo', 'bolchi', 'bollam', 'bolte', 'gelo', 'geche', 'tahole', 'kintu', 'ar',
+  'ekhon', 'tokhon', 'kal', 'aj', 'ajke', 'kalke', 'onek', 'khub', 'kaj', 'kotha', 'bhai', 'apu', 'dada',
+  'didi', 'bondhu', 'theke', 'diye', 'moto', 'sathe', 'somoy', 'bujhi', 'bujhte', 'parbo', 'pari', 'parina',
+  'lagbe', 'lage', 'dekho', 'dekhi', 'dekha', 'kichu', 'keu', 'kono', 'ekhane', 'okhane', 'kemne', 'naki'
+]);
+
+/** সাধারণ ইংরেজি শব্দ — এগুলো থাকলে অংশটি ইংরেজি হওয়ার সম্ভাবনা */
+const ENGLISH_WORDS = new Set([
+  'a', 'an', 'the', 'is', 'are', 'was', 'were', 'be', 'been', 'am', 'i', 'you', 'he', 'it', 'we', 'they',
+  'my', 'your', 'our', 'their', 'this', 'that', 'these', 'those', 'and', 'or', 'but', 'if', 'of', 'in',
+  'on', 'at', 'for', 'with', 'from', 'by', 'as', 'not', 'no', 'yes', 'do', 'does', 'did', 'have', 'has',
+  'had', 'will', 'would', 'can', 'could', 'should', 'may', 'might', 'please', 'thanks', 'hello', 'hi',
+  'ok', 'okay', 'dear', 'sir', 'madam', 'meeting', 'report', 'office', 'file', 'email', 'send', 'sent',
+  'today', 'tomorrow', 'time', 'team', 'project', 'update', 'what', 'when', 'where', 'who', 'how', 'all'
+]);
+
+/** বাংলা ক্রিয়া/বিভক্তির শেষাংশ বনাম ইংরেজি বানানের চিহ্ন — অচেনা শব্দের জন্য আধা পয়েন্ট */
+const BANGLA_ENDING = /(?:chi|che|chen|chilo|lam|len|bo|ben|te|tam|gulo|der)$/;
+const ENGLISH_SHAPE = /(?:tion|ing|ght|ous|ly|ed)$|^(?:wh|qu)|[^aeiou\s]{4}/;
+
+const scoreWord = (word: string): number => {
+  const w = word.toLowerCase();
+  if (BANGLISH_WORDS.has(w)) return 1;
+  if (ENGLISH_WORDS.has(w)) return -1;
+  if (ENGLISH_SHAPE.test(w)) return -0.5;
+  if (BANGLA_ENDING.test(w)) return 0.5;
+  return 0;
+};
+
+/** ইমেইল, URL, ফাইলের নাম বা সংক্ষেপ (PDF) এর অংশ — বাদ */
+const isExcluded = (text: string, start: number, end: number): boolean => {
+  const word = text.slice(start, end);
+  const before = text[start - 1] ?? '';
+  const after = text.slice(end, end + 2);
+  return /^[A-Z]{2,}$/.test(word) || /[@/\\_.\w]/.test(before) || /^(?:[@/\\_\w]|\.\w)/.test(after);
+};
+
+/** একই বাক্যে শুধু স্পেস, কমা বা উদ্ধৃতিচিহ্ন দিয়ে আলাদা শব্দ একই অংশে (। ? ! : এ অংশ শেষ) */
+const JOINER = /^[^\S\n]*[,;'"’-]*[^\S\n]*$/;
+
+/**
+ * লেখায় রোমান হরফে বাংলা অংশ খোঁজা
+ * - পাশাপাশি ল্যাটিন শব্দগুলো এক অংশ; বাংলিশ শব্দের পয়েন্ট ইংরেজির চেয়ে বেশি হলে বাংলা ধরা হয়
+ * - অন্তত একটি চেনা বাংলিশ শব্দ লাগবে, যাতে ইংরেজি নাম বা শব্দ বদলে না যায়
+ * - অংশের দুই প্রান্ত চেনা বা বাংলা-ধাঁচের শব্দে; ঠিক পরের "." ও অংশে (→ "।")
+ */
+export const detectBanglishSpans = (text: string): BanglishSpan[] => {
+  const words = Array.from(text.matchAll(/[A-Za-z]+(?:['’][A-Za-z]+)*/g))
+    .map(m => ({ word: m[0], start: m.index ?? 0, end: (m.index ?? 0) + m[0].length }))
+    .filter(w => !isExcluded(text, w.start, w.end));
+
+  const runs: Array<typeof words> = [];
+  words.forEach((w, i) => {
+    const prev = words[i - 1];
+    if (prev && JOINER.test(text.slice(prev.end, w.start))) runs[runs.length - 1].push(w);
+    else runs.push([w]);
+  });
+
+  return runs
+    .filter(run => {
+      const scores = run.map(w => scoreWord(w.word));
+      return scores.some(s => s === 1) && scores.reduce((a, b) => a + b, 0) > 0;
+    })
+    .map(run => {
+      // দুই প্রান্তের অবাংলিশ শব্দ (নাম, ইংরেজি) বাদ — ভেতরের ধার করা শব্দ থাকে
+      const banglish = run.filter(w => scoreWord(w.word) > 0);
+      const start = banglish[0].start;
+      let end = banglish[banglish.length - 1].end;
+      if (/^\.(?!\.)(?:\s|$)/.test(text.slice(end, end + 2))) end++;
+      const span = text.slice(start, end);
+      return { text: span, start, end, bangla: transliterate(span) };
+    });
+};
+
+/**
+ * অংশগুলো (পেছন থেকে) রূপান্তরিত লেখায় বদলে পুরো টেক্সট
+ */
+export const replaceSpans = (text: string, spans: BanglishSpan[]): string =>
+  [...spans]
+    .sort((a, b) => b.start - a.start)
+    .reduce((acc, s) => acc.slice(0, s.start) + s.bangla + acc.slice(s.end), text);
+
+/* ------------------------------ AI PASS ----------------------------------- */
+
+const AI_BATCH = 60;
+
+/**
+ * অস্পষ্ট শব্দের জন্য AI যাচাই (ঐচ্ছিক)
+ * - লোকাল রূপান্তর খসড়া হিসেবে যায়; উত্তর না এলে বা কোনো অংশ বাদ পড়লে লোকাল রূপ থাকে
+ */
+export const refineTransliteration = async (spans: BanglishSpan[], config: AIConfig): Promise<BanglishSpan[]> => {
+  const unique = Array.from(new Map(spans.map(s => [s.text, s.bangla])).entries())
+    .map(([roman, draft]) => ({ roman, draft }));
+  const batches: Array<typeof unique> = [];
+  for (let i = 0; i < unique.length; i += AI_BATCH) batches.push(unique.slice(i, i + AI_BATCH));
+
+  const results = await mapWithConcurrency(batches, CHUNK_CONCURRENCY, batch =>
+    callAIJsonCached(buildTransliterationPrompt(batch), {
+      config,
+      validate: validateTransliterationResponse,
+      temperature: 0.1
+    })
+  );
+
+  const refined = new Map<string, string>();
+  results.forEach(r => r?.transliterations.forEach(t => refined.set(t.roman.trim(), t.bangla)));
+  return spans.map(s => {
+    const bangla = refined.get(s.text.trim());
+    return bangla ? { ...s, bangla: canonicalizeBangla(bangla) } : s;
+  });
+};
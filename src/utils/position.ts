@@ -0,0 +1,95 @@
+/* -------------------------------------------------------------------------- */
+/*                        WORD POSITION RESOLVER                              */
+/* -------------------------------------------------------------------------- */
+
+import { canonicalizeBangla } from './normalize';
+
+// অক্ষর, কার/ফলা চিহ্ন বা সংখ্যা — এগুলো শব্দের অংশ
+const WORD_CHAR = /[\p{L}\p{M}\p{N}\u200C\u200D]/u;
+
+/**
+ * Word-index lookup for one text, precomputed once
+ * - Counts whitespace-separated words that start before `charIndex`
+ *   (same counting rule the prompts give to the model)
+ * - O(log n) per lookup — use this when resolving many positions in the same text
+ */
+export const createWordIndex = (text: string): ((charIndex: number) => number) => {
+  const starts: number[] = [];
+  for (let i = 0; i < text.length; i++) {
+    if (!/\s/.test(text[i]) && (i === 0 || /\s/.test(text[i - 1]))) starts.push(i);
+  }
+
+  return (charIndex: number) => {
+    // charIndex এর আগে শুরু হওয়া শব্দের সংখ্যা (binary search)
+    let lo = 0;
+    let hi = starts.length;
+    while (lo < hi) {
+      const mid = (lo + hi) >> 1;
+      if (starts[mid] < charIndex) lo = mid + 1;
+      else hi = mid;
+    }
+    // শেষ টোকেনটি যদি charIndex পর্যন্ত চলে আসে, সেটি একই শব্দের অংশ
+    const endsInsideWord = charIndex > 0 && !/\s/.test(text[charIndex - 1] ?? ' ');
+    return endsInsideWord ? lo - 1 : lo;
+  };
+};
+
+/**
+ * Single lookup — builds the index each call, so prefer `createWordIndex` in loops
+ */
+export const wordIndexAt = (text: string, charIndex: number): number => createWordIndex(text)(charIndex);
+
+/**
+ * Find the word index of every occurrence of `target` in `text`
+ * - Case-insensitive, like body.search with matchCase: false
+ * - Single words only match on word boundaries (matchWholeWord)
+ * - Both sides are compared in canonical Bangla form
+ */
+export const findOccurrenceWordIndices = (text: string, target: string): number[] => {
+  const needle = canonicalizeBangla(target).trim().toLowerCase();
+  if (!needle) return [];
+
+  const source = canonicalizeBangla(text);
+  const haystack = source.toLowerCase();
+  const wholeWord = !/\s/.test(needle);
+  const wordIndex = createWordIndex(source);
+  const indices: number[] = [];
+
+  let from = 0;
+  while (from <= haystack.length) {
+    const at = haystack.indexOf(needle, from);
+    if (at === -1) break;
+
+    const prev = at > 0 ? haystack[at - 1] : '';
+    const next = haystack[at + needle.length] ?? '';
+    const bounded = !wholeWord || (!WORD_CHAR.test(prev) && !WORD_CHAR.test(next));
+
+    if (bounded) indices.push(wordIndex(at));
+    from = at + needle.length;
+  }
+
+  return indices;
+};
+
+/**
+ * Pick which occurrence (0-based, in document order) the model meant
+ * - Exact index match wins
+ * - Otherwise the occurrence nearest to `position` (model is often off by a few words)
+ * - Returns -1 if the target does not occur in the text
+ */
+export const resolveOccurrence = (text: string, target: string, position?: number): number => {
+  const indices = findOccurrenceWordIndices(text, target);
+  if (indices.length === 0) return -1;
+  if (position === undefined || position === null || !Number.isFinite(position)) return 0;
+
+  let best = 0;
+  let bestDistance = Infinity;
+  indices.forEach((wordIndex, i) => {
+    const distance = Math.abs(wordIndex - position);
+    if (distance < bestDistance) {
+      best = i;
+      bestDistance = distance;
+    }
+  });
+  return best;
+};
@@ -0,0 +1,239 @@
+/* -------------------------------------------------------------------------- */
+/*                        AI PROVIDERS                                        */
+/* -------------------------------------------------------------------------- */
+
+import { extractTextFromGeminiResponse } from './jsonFixer';
+
+export type ProviderId = 'gemini' | 'openai' | 'ollama' | 'mock';
+
+/**
+ * প্রতিটি প্রোভাইডারের জন্য ইউজারের আলাদা সেটিংস
+ * - models: সেটিংসে দেখানো মডেল তালিকা (ইউজার নিজে বদলাতে পারে)
+ */
+export interface ProviderSettings {
+  baseUrl: string;
+  apiKey: string;
+  model: string;
+  models: string[];
+}
+
+export interface ProviderRequest {
+  url: string;
+  init: RequestInit;
+}
+
+/**
+ * প্রোভাইডার ইন্টারফেস
+ * - HTTP প্রোভাইডার: buildRequest + extractText
+ * - লোকাল প্রোভাইডার: respondLocally (নেটওয়ার্ক লাগে না)
+ */
+export interface AIProvider {
+  id: ProviderId;
+  label: string;
+  description: string;
+  requiresKey: boolean;
+  defaults: ProviderSettings;
+  buildRequest?: (prompt: string, settings: ProviderSettings, temperature: number) => ProviderRequest;
+  extractText?: (data: any) => string;
+  respondLocally?: (prompt: string) => string;
+}
+
+const trimSlash = (url: string): string => url.replace(/\/+$/, '');
+
+const jsonHeaders = (apiKey: string): Record<string, string> => {
+  const headers: Record<string, string> = { 'Content-Type': 'application/json' };
+  if (apiKey) headers['Authorization'] = `Bearer ${apiKey}`;
+  return headers;
+};
+
+/**
+ * Google Gemini (generateContent, JSON mode)
+ */
+const geminiProvider: AIProvider = {
+  id: 'gemini',
+  label: 'Google Gemini',
+  description: 'Google এর ক্লাউড মডেল (API Key প্রয়োজন)',
+  requiresKey: true,
+  defaults: {
+    baseUrl: 'https://generativelanguage.googleapis.com/v1beta',
+    apiKey: '',
+    model: 'gemini-2.5-flash',
+    models: ['gemini-2.5-flash', 'gemini-2.5-flash-lite', 'gemini-2.0-flash']
+  },
+  buildRequest: (prompt, settings, temperature) => ({
+    url: `${trimSlash(settings.baseUrl)}/models/${settings.model}:generateContent?key=${settings.apiKey}`,
+    init: {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({
+        contents: [{ parts: [{ text: prompt }] }],
+        generationConfig: {
+          responseMimeType: 'application/json', // Force JSON mode for speed
+          temperature
+        }
+      })
+    }
+  }),
+  extractText: extractTextFromGeminiResponse
+};
+
+/**
+ * OpenAI-compatible chat completions (OpenAI, Azure proxy, vLLM, LM Studio ইত্যাদি)
+ */
+const openAIProvider: AIProvider = {
+  id: 'openai',
+  label: 'OpenAI-compatible',
+  description: 'যেকোনো /chat/completions এন্ডপয়েন্ট (সেলফ-হোস্টেড সহ)',
+  requiresKey: false,
+  defaults: {
+    baseUrl: 'https://api.openai.com/v1',
+    apiKey: '',
+    model: 'gpt-4o-mini',
+    models: ['gpt-4o-mini', 'gpt-4o']
+  },
+  buildRequest: (prompt, settings, temperature) => ({
+    url: `${trimSlash(settings.baseUrl)}/chat/completions`,
+    init: {
+      method: 'POST',
+      headers: jsonHeaders(settings.apiKey),
+      body: JSON.stringify({
+        model: settings.model,
+        messages: [{ role: 'user', content: prompt }],
+        response_format: { type: 'json_object' },
+        temperature
+      })
+    }
+  }),
+  extractText: (data: any): string => {
+    const content = data?.choices?.[0]?.message?.content;
+    return typeof content === 'string' ? content.trim() : '';
+  }
+};
+
+/**
+ * Ollama (/api/chat, non-streaming, JSON format)
+ */
+const ollamaProvider: AIProvider = {
+  id: 'ollama',
+  label: 'Ollama (সেলফ-হোস্টেড)',
+  description: 'নিজের কম্পিউটার বা সার্ভারে চালানো মডেল — ডকুমেন্ট বাইরে যায় না',
+  requiresKey: false,
+  defaults: {
+    baseUrl: 'http://localhost:11434',
+    apiKey: '',
+    model: 'llama3.1',
+    models: ['llama3.1', 'qwen2.5', 'gemma2']
+  },
+  buildRequest: (prompt, settings, temperature) => ({
+    url: `${trimSlash(settings.baseUrl)}/api/chat`,
+    init: {
+      method: 'POST',
+      headers: jsonHeaders(settings.apiKey),
+      body: JSON.stringify({
+        model: settings.model,
+        messages: [{ role: 'user', content: prompt }],
+        format: 'json',
+        stream: false,
+        options: { temperature }
+      })
+    }
+  }),
+  extractText: (data: any): string => {
+    const content = data?.message?.content;
+    return typeof content === 'string' ? content.trim() : '';
+  }
+};
+
+/**
+ * Mock provider (অফলাইন) — প্রম্পটের আউটপুট কাঠামো দেখে খালি/নমুনা JSON ফেরত দেয়
+ */
+const mockProvider: AIProvider = {
+  id: 'mock',
+  label: 'Mock (অফলাইন)',
+  description: 'নেটওয়ার্ক ছাড়া UI পরীক্ষার জন্য নমুনা উত্তর',
+  requiresKey: false,
+  defaults: {
+    baseUrl: '',
+    apiKey: '',
+    model: 'mock',
+    models: ['mock']
+  },
+  respondLocally: (prompt: string): string => {
+    if (prompt.includes('"toneConversions"')) return JSON.stringify({ toneConversions: [] });
+    if (prompt.includes('"styleConversions"')) return JSON.stringify({ styleConversions: [] });
+    if (prompt.includes('"contentType"')) {
+      return JSON.stringify({
+        contentType: 'নমুনা',
+        description: 'Mock প্রোভাইডার থেকে নমুনা বিশ্লেষণ।',
+        missingElements: [],
+        suggestions: []
+      });
+    }
+    return JSON.stringify({
+      spellingErrors: [],
+      languageStyleMixing: { detected: false, corrections: [] },
+      punctuationIssues: [],
+      euphonyImprovements: []
+    });
+  }
+};
+
+export const PROVIDERS: Record<ProviderId, AIProvider> = {
+  gemini: geminiProvider,
+  openai: openAIProvider,
+  ollama: ollamaProvider,
+  mock: mockProvider
+};
+
+export const PROVIDER_IDS = Object.keys(PROVIDERS) as ProviderId[];
+
+/**
+ * AI কলের জন্য সক্রিয় প্রোভাইডার ও তার সেটিংস
+ */
+export interface AIConfig {
+  provider: ProviderId;
+  settings: ProviderSettings;
+}
+
+/* ------------------------------ PERSISTENCE ------------------------------- */
+
+const PROVIDER_KEY = 'ai_provider';
+const PROVIDER_SETTINGS_KEY = 'ai_provider_settings';
+
+export const loadProviderId = (): ProviderId => {
+  const stored = localStorage.getItem(PROVIDER_KEY) as ProviderId | null;
+  return stored && stored in PROVIDERS ? stored : 'gemini';
+};
+
+/**
+ * সব প্রোভাইডারের সেটিংস লোড করা
+ * - পুরনো gemini_api_key / gemini_model থাকলে Gemini এ বসানো হয়
+ */
+export const loadProviderSettings = (): Record<ProviderId, ProviderSettings> => {
+  let stored: Partial<Record<ProviderId, Partial<ProviderSettings>>> = {};
+  try {
+    stored = JSON.parse(localStorage.getItem(PROVIDER_SETTINGS_KEY) || '{}');
+  } catch {
+    stored = {};
+  }
+
+  const result = {} as Record<ProviderId, ProviderSettings>;
+  for (const id of PROVIDER_IDS) {
+    result[id] = { ...PROVIDERS[id].defaults, ...(stored[id] || {}) };
+  }
+
+  if (!stored.gemini) {
+    result.gemini.apiKey = localStorage.getItem('gemini_api_key') || '';
+    result.gemini.model = localStorage.getItem('gemini_model') || result.gemini.model;
+  }
+
+  return result;
+};
+
+export const saveProviderSettings = (
+  provider: ProviderId,
+  settings: Record<ProviderId, ProviderSettings>
+): void => {
+  localStorage.setItem(PROVIDER_KEY, provider);
+  localStorage.setItem(PROVIDER_SETTINGS_KEY, JSON.stringify(settings));
+};
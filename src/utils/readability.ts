@@ -0,0 +1,157 @@
+/* -------------------------------------------------------------------------- */
+/*                        READABILITY METRICS (LOCAL)                         */
+/* -------------------------------------------------------------------------- */
+
+import { ReadabilityMetrics, SentenceInfo } from '../types';
+import { canonicalizeBangla } from './normalize';
+import { createWordIndex } from './position';
+import { countWords } from './chunker';
+
+/** দীর্ঘতম কয়টি বাক্য দেখানো হবে */
+const LONGEST_COUNT = 3;
+
+/** শব্দবৈচিত্র্যের চলমান জানালা (MATTR) — লেখার দৈর্ঘ্যে স্কোর যেন না বদলায় */
+const DIVERSITY_WINDOW = 50;
+
+/**
+ * বাংলা শব্দে ইংরেজির চেয়ে স্বাভাবিকভাবেই বেশি অক্ষর (সিলেবল) থাকে;
+ * Flesch সূত্রে প্রতি শব্দের গড় থেকে এটুকু বাদ দিয়ে বাংলার উপযোগী করা
+ */
+const SYLLABLE_BASELINE = 1;
+
+const Y = 'য\u09BC'; // য় (canonical: য + nukta)
+
+/** কর্মবাচ্য: "করা হয়েছে", "দেখা যায়", "প্রকাশিত হইবে", "... কর্তৃক" */
+const PASSIVE = new RegExp(
+  `[\\u0980-\\u09FF]+(?:া|ানো|িত)\\s+(?:হ${Y}|হ${Y}ে\\S*|হবে|হচ্ছে|হত|হতো|হল|হলো|হইল|হইবে|হই${Y}া\\S*|হইতে\\S*|যা${Y}|যাবে|গেছে|গেল)(?![\\u0980-\\u09FF])|কর্তৃক`
+);
+
+/** যৌগিক ক্রিয়া: অসমাপিকা + সহায়ক ("করে ফেলা", "বলে দিল") বা বিশেষ্য + কর- ("ব্যবহার করা") */
+const COMPOUND_VERB = new RegExp(
+  `[\\u0980-\\u09FF]+(?:ে|ি${Y}া)\\s+(?:ফেল|দি|দে|নি|নে|উঠ|পড়|বস)[\\u0980-\\u09FF]*` +
+  `|[\\u0980-\\u09FF]{2,}\\s+কর[ািেলবতছ][\\u0980-\\u09FF]*`
+);
+
+const stripPunctuation = (word: string): string =>
+  word.replace(/^[^\p{L}\p{N}]+|[^\p{L}\p{N}\p{M}]+$/gu, '');
+
+/**
+ * আনুমানিক সিলেবল
+ * - বাংলা: হসন্ত ছাড়া প্রতিটি ব্যঞ্জন ও প্রতিটি স্বরবর্ণ একটি করে (যুক্তাক্ষর একটি)
+ * - ইংরেজি: স্বরবর্ণের গুচ্ছ
+ */
+export const countSyllables = (word: string): number => {
+  const w = canonicalizeBangla(word);
+  if (/[\u0980-\u09FF]/.test(w)) {
+    const vowels = (w.match(/[\u0985-\u0994]/g) || []).length;
+    const consonants = (w.match(/[\u0995-\u09B9\u09CE](?!\u09BC?\u09CD)/g) || []).length;
+    return Math.max(1, vowels + consonants);
+  }
+  return Math.max(1, (w.toLowerCase().match(/[aeiouy]+/g) || []).length);
+};
+
+/**
+ * বাক্যে ভাগ — দাঁড়ি, প্রশ্ন/বিস্ময়বোধক চিহ্ন, লাইনের শেষ বা স্পেসের আগের ফুলস্টপ
+ * - position: বাক্যের প্রথম শব্দের 0-based word index (হাইলাইটের জন্য)
+ */
+export const splitSentences = (text: string): SentenceInfo[] => {
+  const sentences: SentenceInfo[] = [];
+  const terminator = /[।॥?!]+|\.(?=\s|$)|\n/g;
+  const wordIndex = createWordIndex(text);
+  let start = 0;
+
+  const push = (end: number) => {
+    const raw = text.slice(start, end);
+    const lead = raw.length - raw.trimStart().length;
+    const body = raw.trim();
+    if (body && /[\p{L}\p{N}]/u.test(body)) {
+      sentences.push({ text: body, words: countWords(body), position: wordIndex(start + lead) });
+    }
+  };
+
+  let m: RegExpExecArray | null;
+  while ((m = terminator.exec(text)) !== null) {
+    push(m.index + m[0].length);
+    start = m.index + m[0].length;
+  }
+  push(text.length);
+  return sentences;
+};
+
+/**
+ * Moving-average type/token ratio over canonical words
+ */
+const lexicalDiversity = (words: string[]): number => {
+  if (words.length === 0) return 0;
+  if (words.length <= DIVERSITY_WINDOW) return new Set(words).size / words.length;
+
+  const counts = new Map<string, number>();
+  const add = (w: string, d: number) => {
+    const n = (counts.get(w) ?? 0) + d;
+    if (n === 0) counts.delete(w);
+    else counts.set(w, n);
+  };
+
+  words.slice(0, DIVERSITY_WINDOW).forEach(w => add(w, 1));
+  let total = counts.size;
+  for (let i = DIVERSITY_WINDOW; i < words.length; i++) {
+    add(words[i - DIVERSITY_WINDOW], -1);
+    add(words[i], 1);
+    total += counts.size;
+  }
+  return total / (words.length - DIVERSITY_WINDOW + 1) / DIVERSITY_WINDOW;
+};
+
+const round = (n: number, digits = 1): number => {
+  const f = 10 ** digits;
+  return Math.round(n * f) / f;
+};
+
+/**
+ * পুরো লেখার পাঠযোগ্যতা মেট্রিক্স (কোনো API কল নেই)
+ * - readabilityScore: Flesch Reading Ease এর বাংলা রূপ, ০ (কঠিন) – ১০০ (সহজ)
+ * - passiveShare / compoundVerbShare: এমন গঠনযুক্ত বাক্যের অনুপাত (০-১)
+ */
+export const computeReadability = (text: string): ReadabilityMetrics => {
+  const sentences = splitSentences(text);
+  const words = text.split(/\s+/).map(stripPunctuation).filter(Boolean);
+  const paragraphWords = text.split(/\r?\n|\r/).map(countWords).filter(n => n > 0);
+
+  const sentenceCount = sentences.length;
+  const wordCount = words.length;
+  const avgSentenceWords = sentenceCount > 0 ? wordCount / sentenceCount : 0;
+  const avgSyllables = wordCount > 0
+    ? words.reduce((sum, w) => sum + countSyllables(w), 0) / wordCount
+    : 0;
+
+  const score = 206.835 - 1.015 * avgSentenceWords - 84.6 * Math.max(0, avgSyllables - SYLLABLE_BASELINE);
+  const share = (pattern: RegExp) =>
+    sentenceCount > 0
+      ? sentences.filter(s => pattern.test(canonicalizeBangla(s.text))).length / sentenceCount
+      : 0;
+
+  return {
+    sentenceCount,
+    wordCount,
+    avgSentenceWords: round(avgSentenceWords),
+    longestSentences: [...sentences].sort((a, b) => b.words - a.words).slice(0, LONGEST_COUNT),
+    sentenceLengths: sentences.map(s => s.words),
+    paragraphWords,
+    lexicalDiversity: round(lexicalDiversity(words.map(w => canonicalizeBangla(w).toLowerCase())), 2),
+    avgSyllables: round(avgSyllables),
+    readabilityScore: wordCount > 0 ? Math.round(Math.min(100, Math.max(0, score))) : 0,
+    passiveShare: round(share(PASSIVE), 2),
+    compoundVerbShare: round(share(COMPOUND_VERB), 2)
+  };
+};
+
+/**
+ * স্কোরের বাংলা বর্ণনা
+ */
+export const readabilityLabel = (score: number): string => {
+  if (score >= 80) return 'খুব সহজ';
+  if (score >= 60) return 'সহজ';
+  if (score >= 40) return 'মাঝারি';
+  if (score >= 20) return 'কঠিন';
+  return 'খুব কঠিন';
+};
@@ -0,0 +1,252 @@
+/* -------------------------------------------------------------------------- */
+/*                        ANALYSIS REPORT (HTML / MARKDOWN / JSON)            */
+/* -------------------------------------------------------------------------- */
+
+import {
+  AnalysisReport,
+  Correction,
+  EuphonyImprovement,
+  FindingCategory,
+  NumeralIssue,
+  PunctuationIssue,
+  ReportFinding,
+  ReviewDecision,
+  StyleMixingCorrection,
+  StyleSuggestion,
+  TerminologyIssue,
+  ToneSuggestion
+} from '../types';
+import { canonicalizeBangla } from './normalize';
+import { splitSentences } from './readability';
+
+export const FINDING_LABELS: Record<FindingCategory, string> = {
+  spelling: 'বানান',
+  terminology: 'পরিভাষা',
+  tone: 'টোন',
+  style: 'ভাষারীতি',
+  mixing: 'সাধু-চলিত মিশ্রণ',
+  punctuation: 'বিরাম চিহ্ন',
+  euphony: 'শ্রুতিমধুরতা',
+  numerals: 'সংখ্যা ও তারিখ'
+};
+
+/**
+ * প্যানেলের সব ফলাফল তালিকা
+ */
+export interface FindingSources {
+  corrections: Correction[];
+  terminology: TerminologyIssue[];
+  tones: ToneSuggestion[];
+  styles: StyleSuggestion[];
+  mixing: StyleMixingCorrection[];
+  punctuation: PunctuationIssue[];
+  euphony: EuphonyImprovement[];
+  numerals: NumeralIssue[];
+}
+
+/* ------------------------------ COLLECTING -------------------------------- */
+
+/**
+ * শব্দের বাক্য — position থাকলে সেই শব্দের বাক্য, না থাকলে যে বাক্যে লেখাটি আছে
+ */
+const contextFinder = (text: string) => {
+  const sentences = splitSentences(text);
+  return (current: string, position?: number): string => {
+    if (position !== undefined) {
+      const found = [...sentences].reverse().find(s => s.position <= position);
+      if (found) return found.text;
+    }
+    const needle = canonicalizeBangla(current);
+    return sentences.find(s => canonicalizeBangla(s.text).includes(needle))?.text ?? '';
+  };
+};
+
+/**
+ * সব ক্যাটাগরির সাজেশন এক রূপে, ডকুমেন্টের ক্রমে
+ */
+export const collectFindings = (sources: FindingSources, text: string): ReportFinding[] => {
+  const contextOf = contextFinder(text);
+  const findings: ReportFinding[] = [];
+  const add = (category: FindingCategory, current: string, suggestion: string, explanation: string, position?: number) =>
+    findings.push({ category, current, suggestion, explanation, position, context: contextOf(current, position) });
+
+  sources.terminology.forEach(t => add('terminology', t.current, t.suggestion, t.note || `পরিভাষা: ${t.term}`, t.position));
+  sources.corrections.forEach(c => add(
+    'spelling',
+    c.wrong,
+    c.suggestions[0] ?? '',
+    c.suggestions.length > 1 ? `বিকল্প: ${c.suggestions.slice(1).join(', ')}` : 'বানান ভুল',
+    c.position
+  ));
+  sources.tones.forEach(t => add('tone', t.current, t.suggestion, t.reason, t.position));
+  sources.styles.forEach(s => add('style', s.current, s.suggestion, s.type, s.position));
+  sources.mixing.forEach(m => add('mixing', m.current, m.suggestion, m.type, m.position));
+  sources.punctuation.forEach(p => add('punctuation', p.currentSentence, p.correctedSentence, `${p.issue} — ${p.explanation}`, p.position));
+  sources.euphony.forEach(e => add('euphony', e.current, e.suggestions[0] ?? '', e.reason, e.position));
+  sources.numerals.forEach(n => add('numerals', n.current, n.suggestion, n.reason, n.position));
+
+  return findings.sort((a, b) => (a.position ?? Infinity) - (b.position ?? Infinity));
+};
+
+/**
+ * সাজেশনের উপর ইউজারের সিদ্ধান্ত
+ */
+export const toDecision = (finding: ReportFinding, status: ReviewDecision['status']): ReviewDecision => ({
+  ...finding,
+  status,
+  at: Date.now()
+});
+
+/* ------------------------------ RENDERING --------------------------------- */
+
+const formatDate = (ms: number): string => new Date(ms).toLocaleString('bn-BD');
+
+const percent = (n: number): string => `${Math.round(n * 100)}%`;
+
+/** [লেবেল, মান] — মেটাডেটা ও পরিসংখ্যান, দুই ফরম্যাটেই একই */
+const summaryRows = (report: AnalysisReport): Array<[string, string]> => {
+  const rows: Array<[string, string]> = [
+    ['তারিখ', formatDate(report.generatedAt)],
+    ['ডকুমেন্টের ধরন', report.docType],
+    ['টোন', report.tone || '—'],
+    ['ভাষারীতি', report.style || '—'],
+    ['মডেল', report.model ? `${report.provider} · ${report.model}` : 'লোকাল'],
+    ['শব্দ', String(report.stats.totalWords)],
+    ['বানান ভুল', String(report.stats.errorCount)],
+    ['শুদ্ধতা', `${report.stats.accuracy}%`]
+  ];
+  const r = report.readability;
+  if (r) {
+    rows.push(
+      ['বাক্য', String(r.sentenceCount)],
+      ['গড় বাক্য (শব্দ)', String(r.avgSentenceWords)],
+      ['পাঠযোগ্যতা স্কোর', String(r.readabilityScore)],
+      ['শব্দবৈচিত্র্য', percent(r.lexicalDiversity)],
+      ['কর্মবাচ্য', percent(r.passiveShare)]
+    );
+  }
+  return rows;
+};
+
+const groupByCategory = <T extends ReportFinding>(items: T[]): Array<[FindingCategory, T[]]> => {
+  const groups = new Map<FindingCategory, T[]>();
+  items.forEach(i => groups.set(i.category, [...(groups.get(i.category) ?? []), i]));
+  return Array.from(groups.entries());
+};
+
+/* Markdown */
+
+const mdEscape = (s: string): string => s.replace(/([\\`*_[\]|<>])/g, '\\$1').replace(/\s*\n\s*/g, ' ');
+
+const mdFinding = (f: ReportFinding): string => {
+  const lines = [`- **${mdEscape(f.current)}** → ${mdEscape(f.suggestion || '—')}${f.explanation ? ` — ${mdEscape(f.explanation)}` : ''}`];
+  if (f.context && f.context !== f.current) lines.push(`  > ${mdEscape(f.context)}`);
+  return lines.join('\n');
+};
+
+const mdFindingSection = (title: string, items: ReportFinding[]): string[] => {
+  if (items.length === 0) return [];
+  return [
+    `## ${title} (${items.length})`,
+    '',
+    ...groupByCategory(items).flatMap(([category, list]) => [`### ${FINDING_LABELS[category]}`, '', ...list.map(mdFinding), ''])
+  ];
+};
+
+export const buildReportMarkdown = (report: AnalysisReport): string => {
+  const content = report.contentAnalysis;
+  return [
+    '# ভাষা মিত্র — বিশ্লেষণ রিপোর্ট',
+    '',
+    '| বিষয় | মান |',
+    '| --- | --- |',
+    ...summaryRows(report).map(([k, v]) => `| ${k} | ${mdEscape(v)} |`),
+    '',
+    ...(content
+      ? [
+          '## কনটেন্ট বিশ্লেষণ',
+          '',
+          `**${mdEscape(content.contentType)}**${content.description ? ` — ${mdEscape(content.description)}` : ''}`,
+          '',
+          ...(content.missingElements ?? []).map(m => `- অনুপস্থিত: ${mdEscape(m)}`),
+          ...(content.suggestions ?? []).map(s => `- পরামর্শ: ${mdEscape(s)}`),
+          ''
+        ]
+      : []),
+    ...mdFindingSection('বাকি সাজেশন', report.findings),
+    ...mdFindingSection('গৃহীত', report.decisions.filter(d => d.status === 'accepted')),
+    ...mdFindingSection('বাতিল', report.decisions.filter(d => d.status === 'dismissed'))
+  ].join('\n').trimEnd() + '\n';
+};
+
+/* HTML */
+
+const esc = (s: string): string =>
+  s.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+
+const htmlFinding = (f: ReportFinding): string =>
+  `<li><b>${esc(f.current)}</b> → <span style="color:#166534">${esc(f.suggestion || '—')}</span>` +
+  (f.explanation ? ` <span style="color:#6b7280">— ${esc(f.explanation)}</span>` : '') +
+  (f.context && f.context !== f.current
+    ? `<br><i style="color:#6b7280">“${esc(f.context)}”</i>`
+    : '') +
+  '</li>';
+
+const htmlFindingSection = (title: string, items: ReportFinding[]): string => {
+  if (items.length === 0) return '';
+  return `<h2>${esc(title)} (${items.length})</h2>` +
+    groupByCategory(items)
+      .map(([category, list]) => `<h3>${FINDING_LABELS[category]}</h3><ul>${list.map(htmlFinding).join('')}</ul>`)
+      .join('');
+};
+
+/**
+ * রিপোর্টের মূল অংশ — শুধু সাধারণ ট্যাগ ও inline স্টাইল, তাই Word এ insertHtml দিয়েও বসানো যায়
+ */
+export const buildReportHtmlBody = (report: AnalysisReport): string => {
+  const content = report.contentAnalysis;
+  const rows = summaryRows(report)
+    .map(([k, v]) => `<tr><td style="padding:2px 12px 2px 0;color:#6b7280">${esc(k)}</td><td>${esc(v)}</td></tr>`)
+    .join('');
+  return [
+    '<h1>ভাষা মিত্র — বিশ্লেষণ রিপোর্ট</h1>',
+    `<table>${rows}</table>`,
+    content
+      ? `<h2>কনটেন্ট বিশ্লেষণ</h2><p><b>${esc(content.contentType)}</b>${content.description ? ` — ${esc(content.description)}` : ''}</p>` +
+        ((content.missingElements?.length || content.suggestions?.length)
+          ? `<ul>${(content.missingElements ?? []).map(m => `<li>অনুপস্থিত: ${esc(m)}</li>`).join('')}` +
+            `${(content.suggestions ?? []).map(s => `<li>পরামর্শ: ${esc(s)}</li>`).join('')}</ul>`
+          : '')
+      : '',
+    htmlFindingSection('বাকি সাজেশন', report.findings),
+    htmlFindingSection('গৃহীত', report.decisions.filter(d => d.status === 'accepted')),
+    htmlFindingSection('বাতিল', report.decisions.filter(d => d.status === 'dismissed'))
+  ].join('\n');
+};
+
+/**
+ * স্বয়ংসম্পূর্ণ HTML ফাইল (বাইরের কোনো রিসোর্স ছাড়া)
+ */
+export const buildReportHtml = (report: AnalysisReport): string => `<!DOCTYPE html>
+<html lang="bn">
+<head>
+<meta charset="utf-8">
+<title>ভাষা মিত্র — বিশ্লেষণ রিপোর্ট</title>
+<style>
+  body { font-family: 'Noto Sans Bengali', 'Nirmala UI', sans-serif; max-width: 820px; margin: 32px auto; padding: 0 16px; color: #111827; line-height: 1.6; }
+  h1 { font-size: 22px; border-bottom: 2px solid #667eea; padding-bottom: 6px; }
+  h2 { font-size: 17px; margin-top: 28px; }
+  h3 { font-size: 14px; color: #4b5563; }
+  li { margin-bottom: 8px; }
+</style>
+</head>
+<body>
+${buildReportHtmlBody(report)}
+</body>
+</html>
+`;
+
+/* JSON */
+
+export const buildReportJson = (report: AnalysisReport): string =>
+  JSON.stringify({ format: 'bhasha-mitra-report', version: 1, ...report }, null, 2);
@@ -0,0 +1,50 @@
+/* -------------------------------------------------------------------------- */
+/*                        FULL-TEXT REWRITE (TONE / STYLE)                    */
+/* -------------------------------------------------------------------------- */
+
+import { AIConfig } from './providers';
+import { callAIJsonCached } from './analysis';
+import { splitIntoUnits, mapWithConcurrency, MAX_CHUNK_CHARS, CHUNK_CONCURRENCY } from './chunker';
+import { validateRewriteResponse } from './schema';
+
+/**
+ * পাশাপাশি unit গুলো জুড়ে অনুরোধ-মাপের অংশ (মূল টেক্সট হুবহু, লাইন ব্রেক সহ)
+ */
+const contiguousChunks = (text: string): string[] => {
+  const chunks: string[] = [];
+  let current = '';
+  for (const unit of splitIntoUnits(text)) {
+    if (current && current.length + unit.text.length > MAX_CHUNK_CHARS) {
+      chunks.push(current);
+      current = '';
+    }
+    current += unit.text;
+  }
+  if (current) chunks.push(current);
+  return chunks;
+};
+
+/**
+ * পুরো টেক্সট রূপান্তর করে নতুন টেক্সট ফেরত
+ * - বড় টেক্সট প্যারাগ্রাফ সীমানায় ভাগ করে পাঠানো
+ * - প্রতিটি অংশের শুরু/শেষের স্পেস ও লাইন ব্রেক মূলের মতো রাখা
+ * - কোনো অংশের উত্তর না এলে সেই অংশ অপরিবর্তিত
+ */
+export const rewriteText = async (
+  text: string,
+  buildPrompt: (chunkText: string) => string,
+  config: AIConfig
+): Promise<string> => {
+  const rewritten = await mapWithConcurrency(contiguousChunks(text), CHUNK_CONCURRENCY, async (chunk) => {
+    const result = await callAIJsonCached(buildPrompt(chunk.trim()), {
+      config,
+      validate: validateRewriteResponse,
+      temperature: 0.2
+    });
+    if (!result) return chunk;
+    const lead = chunk.match(/^\s*/)?.[0] ?? '';
+    const trail = chunk.match(/\s*$/)?.[0] ?? '';
+    return lead + result.rewrittenText.trim() + trail;
+  });
+  return rewritten.join('');
+};
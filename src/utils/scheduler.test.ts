@@ -0,0 +1,180 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { createRequestScheduler, isAbortError, parseRetryAfter } from './scheduler';
+
+/** নকল fetch — প্রতিটি কল টেস্ট নিজে resolve করে; abort হলে AbortError */
+const fakeFetch = () => {
+  const calls: Array<{ url: string; signal: AbortSignal; resolve: (r: Response) => void }> = [];
+  const fetchImpl = (url: string | URL | Request, init?: RequestInit) =>
+    new Promise<Response>((resolve, reject) => {
+      const signal = init!.signal!;
+      calls.push({ url: String(url), signal, resolve });
+      signal.addEventListener('abort', () => reject(Object.assign(new Error('aborted'), { name: 'AbortError' })));
+    });
+  return { calls, fetchImpl: fetchImpl as typeof fetch };
+};
+
+const ok = () => new Response('{}', { status: 200 });
+
+// fake timer এর সাথে microtask ফ্লাশ
+const flush = () => vi.advanceTimersByTimeAsync(0);
+
+describe('createRequestScheduler', () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+  });
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('runs at most 2 requests at a time, in FIFO order', async () => {
+    const { calls, fetchImpl } = fakeFetch();
+    const scheduler = createRequestScheduler({ fetchImpl });
+
+    const results = ['a', 'b', 'c', 'd', 'e'].map(url => scheduler.fetch(url));
+    await flush();
+    expect(calls.map(c => c.url)).toEqual(['a', 'b']);
+    expect(scheduler.pending()).toBe(5);
+
+    calls[1].resolve(ok());
+    await flush();
+    expect(calls.map(c => c.url)).toEqual(['a', 'b', 'c']);
+
+    calls[0].resolve(ok());
+    await flush();
+    expect(calls.map(c => c.url)).toEqual(['a', 'b', 'c', 'd']);
+
+    calls[2].resolve(ok());
+    calls[3].resolve(ok());
+    await flush();
+    calls[4].resolve(ok());
+    await Promise.all(results);
+    expect(calls.map(c => c.url)).toEqual(['a', 'b', 'c', 'd', 'e']);
+    expect(scheduler.pending()).toBe(0);
+  });
+
+  it('retries 5xx with backoff and drains the discarded body', async () => {
+    const { calls, fetchImpl } = fakeFetch();
+    const scheduler = createRequestScheduler({ fetchImpl, baseDelayMs: 1000, random: () => 1 });
+
+    const result = scheduler.fetch('x');
+    await flush();
+    const failed = new Response('busy', { status: 503 });
+    const cancel = vi.spyOn(failed.body!, 'cancel');
+    calls[0].resolve(failed);
+
+    await vi.advanceTimersByTimeAsync(999);
+    expect(cancel).toHaveBeenCalled();
+    expect(calls).toHaveLength(1);
+
+    await vi.advanceTimersByTimeAsync(1);
+    expect(calls).toHaveLength(2);
+
+    // দ্বিতীয় ব্যর্থতায় দ্বিগুণ অপেক্ষা
+    calls[1].resolve(new Response('', { status: 500 }));
+    await vi.advanceTimersByTimeAsync(1999);
+    expect(calls).toHaveLength(2);
+    await vi.advanceTimersByTimeAsync(1);
+    expect(calls).toHaveLength(3);
+
+    calls[2].resolve(ok());
+    expect((await result).status).toBe(200);
+  });
+
+  it('returns the last response once retries are used up', async () => {
+    const { calls, fetchImpl } = fakeFetch();
+    const scheduler = createRequestScheduler({ fetchImpl, maxRetries: 1, random: () => 0 });
+
+    const result = scheduler.fetch('x');
+    await flush();
+    calls[0].resolve(new Response('', { status: 500 }));
+    await flush();
+    calls[1].resolve(new Response('', { status: 502 }));
+    expect((await result).status).toBe(502);
+    expect(calls).toHaveLength(2);
+  });
+
+  it('does not retry other 4xx', async () => {
+    const { calls, fetchImpl } = fakeFetch();
+    const scheduler = createRequestScheduler({ fetchImpl });
+
+    const result = scheduler.fetch('x');
+    await flush();
+    calls[0].resolve(new Response('', { status: 401 }));
+    expect((await result).status).toBe(401);
+    expect(calls).toHaveLength(1);
+  });
+
+  it('pauses the whole queue for Retry-After on 429', async () => {
+    const { calls, fetchImpl } = fakeFetch();
+    const scheduler = createRequestScheduler({ fetchImpl, now: () => Date.now() });
+
+    const first = scheduler.fetch('a');
+    await flush();
+    calls[0].resolve(new Response('', { status: 429, headers: { 'Retry-After': '2' } }));
+    await flush();
+
+    // দ্বিতীয় রিকোয়েস্টও বিরতি শেষ হওয়া পর্যন্ত অপেক্ষা করে
+    const second = scheduler.fetch('b');
+    await vi.advanceTimersByTimeAsync(1999);
+    expect(calls).toHaveLength(1);
+
+    await vi.advanceTimersByTimeAsync(1);
+    expect(calls.map(c => c.url).sort()).toEqual(['a', 'a', 'b']);
+
+    calls[1].resolve(ok());
+    calls[2].resolve(ok());
+    expect((await first).status).toBe(200);
+    expect((await second).status).toBe(200);
+  });
+
+  it('cancelAll aborts in-flight and queued requests', async () => {
+    const { calls, fetchImpl } = fakeFetch();
+    const scheduler = createRequestScheduler({ fetchImpl, concurrency: 1 });
+
+    const inFlight = scheduler.fetch('a');
+    const queued = scheduler.fetch('b');
+    const outcomes = Promise.allSettled([inFlight, queued]);
+    await flush();
+    expect(calls).toHaveLength(1);
+
+    scheduler.cancelAll();
+    const [a, b] = await outcomes;
+    expect(calls[0].signal.aborted).toBe(true);
+    expect(a.status === 'rejected' && isAbortError(a.reason)).toBe(true);
+    expect(b.status === 'rejected' && isAbortError(b.reason)).toBe(true);
+    expect(calls).toHaveLength(1);
+    expect(scheduler.pending()).toBe(0);
+
+    // বাতিলের পর নতুন রিকোয়েস্ট স্বাভাবিকভাবে চলে
+    const next = scheduler.fetch('c');
+    await flush();
+    calls[1].resolve(ok());
+    expect((await next).status).toBe(200);
+  });
+
+  it('cancelAll also stops a request waiting out a backoff', async () => {
+    const { calls, fetchImpl } = fakeFetch();
+    const scheduler = createRequestScheduler({ fetchImpl, random: () => 1 });
+
+    const result = scheduler.fetch('a');
+    const outcome = result.catch(err => err);
+    await flush();
+    calls[0].resolve(new Response('', { status: 500 }));
+    await flush();
+
+    scheduler.cancelAll();
+    expect(isAbortError(await outcome)).toBe(true);
+    await vi.advanceTimersByTimeAsync(60000);
+    expect(calls).toHaveLength(1);
+  });
+});
+
+describe('parseRetryAfter', () => {
+  it('reads seconds and HTTP dates', () => {
+    const now = Date.parse('2024-01-01T00:00:00Z');
+    expect(parseRetryAfter('3', now)).toBe(3000);
+    expect(parseRetryAfter('Mon, 01 Jan 2024 00:00:05 GMT', now)).toBe(5000);
+    expect(parseRetryAfter(null, now)).toBeNull();
+    expect(parseRetryAfter('soon', now)).toBeNull();
+  });
+});
@@ -0,0 +1,169 @@
+/* -------------------------------------------------------------------------- */
+/*                        REQUEST SCHEDULER                                   */
+/* -------------------------------------------------------------------------- */
+
+export interface SchedulerOptions {
+  /** একসাথে সর্বোচ্চ কয়টি রিকোয়েস্ট চলবে */
+  concurrency?: number;
+  /** 429 / 5xx / নেটওয়ার্ক ত্রুটিতে সর্বোচ্চ কতবার আবার চেষ্টা */
+  maxRetries?: number;
+  baseDelayMs?: number;
+  maxDelayMs?: number;
+  /** টেস্টে নকল fetch / ঘড়ি (scheduler.test.ts) */
+  fetchImpl?: typeof fetch;
+  random?: () => number;
+  now?: () => number;
+}
+
+export interface RequestScheduler {
+  /** কিউতে রেখে fetch — retry শেষে শেষ Response ফেরত দেয় */
+  fetch: (url: string, init?: RequestInit) => Promise<Response>;
+  /** চলমান ও অপেক্ষমাণ সব রিকোয়েস্ট বাতিল */
+  cancelAll: () => void;
+  /** চলমান + অপেক্ষমাণ রিকোয়েস্ট সংখ্যা */
+  pending: () => number;
+}
+
+const abortError = (): Error => {
+  const err = new Error('Request cancelled');
+  err.name = 'AbortError';
+  return err;
+};
+
+export const isAbortError = (err: unknown): boolean =>
+  err instanceof Error && err.name === 'AbortError';
+
+/**
+ * Abortable delay (সংকেত এলে AbortError দিয়ে reject)
+ */
+export const delay = (ms: number, signal?: AbortSignal): Promise<void> => {
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) return reject(abortError());
+    const timer = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort);
+      resolve();
+    }, ms);
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(abortError());
+    };
+    signal?.addEventListener('abort', onAbort, { once: true });
+  });
+};
+
+const isRetryableStatus = (status: number): boolean => status === 429 || status >= 500;
+
+/**
+ * Retry-After হেডার (সেকেন্ড বা HTTP তারিখ) → মিলিসেকেন্ড
+ */
+export const parseRetryAfter = (value: string | null, now: number): number | null => {
+  if (!value) return null;
+  const seconds = Number(value);
+  if (Number.isFinite(seconds)) return Math.max(0, seconds * 1000);
+  const date = Date.parse(value);
+  return Number.isNaN(date) ? null : Math.max(0, date - now);
+};
+
+/**
+ * Shared request scheduler
+ * - Concurrency cap with a FIFO queue
+ * - Exponential backoff with full jitter on 429 / 5xx / network errors
+ * - Retry-After is honoured and pauses the whole queue (rate limit is per key)
+ * - cancelAll() aborts in-flight requests and rejects queued ones
+ */
+export const createRequestScheduler = (options: SchedulerOptions = {}): RequestScheduler => {
+  const {
+    concurrency = 2,
+    maxRetries = 3,
+    baseDelayMs = 1000,
+    maxDelayMs = 30000,
+    random = Math.random,
+    now = Date.now
+  } = options;
+  const doFetch = options.fetchImpl ?? ((url: string, init?: RequestInit) => fetch(url, init));
+
+  let controller = new AbortController();
+  let active = 0;
+  let pausedUntil = 0;
+  const queue: Array<() => void> = [];
+
+  const backoff = (attempt: number): number =>
+    Math.floor(random() * Math.min(maxDelayMs, baseDelayMs * 2 ** attempt));
+
+  const acquire = (signal: AbortSignal): Promise<void> => {
+    if (active < concurrency) {
+      active++;
+      return Promise.resolve();
+    }
+    return new Promise((resolve, reject) => {
+      const entry = () => {
+        signal.removeEventListener('abort', onAbort);
+        active++;
+        resolve();
+      };
+      const onAbort = () => {
+        const i = queue.indexOf(entry);
+        if (i !== -1) queue.splice(i, 1);
+        reject(abortError());
+      };
+      queue.push(entry);
+      signal.addEventListener('abort', onAbort, { once: true });
+    });
+  };
+
+  const release = () => {
+    active--;
+    const next = queue.shift();
+    if (next) next();
+  };
+
+  const run = async (url: string, init: RequestInit | undefined, signal: AbortSignal): Promise<Response> => {
+    for (let attempt = 0; ; attempt++) {
+      const wait = pausedUntil - now();
+      if (wait > 0) await delay(wait, signal);
+
+      let response: Response;
+      try {
+        response = await doFetch(url, { ...init, signal });
+      } catch (err) {
+        if (signal.aborted || isAbortError(err)) throw abortError();
+        if (attempt >= maxRetries) throw err;
+        await delay(backoff(attempt), signal);
+        continue;
+      }
+
+      if (!isRetryableStatus(response.status) || attempt >= maxRetries) return response;
+
+      // আবার চেষ্টা হবে — এই উত্তরের body আর পড়া হবে না, সংযোগ ছেড়ে দেওয়া
+      response.body?.cancel().catch(() => undefined);
+
+      const retryAfter = parseRetryAfter(response.headers.get('Retry-After'), now());
+      const waitMs = retryAfter ?? backoff(attempt);
+      if (response.status === 429) pausedUntil = Math.max(pausedUntil, now() + waitMs);
+      await delay(waitMs, signal);
+    }
+  };
+
+  return {
+    fetch: async (url, init) => {
+      const { signal } = controller;
+      await acquire(signal);
+      try {
+        return await run(url, init, signal);
+      } finally {
+        release();
+      }
+    },
+    cancelAll: () => {
+      controller.abort();
+      controller = new AbortController();
+      pausedUntil = 0;
+    },
+    pending: () => active + queue.length
+  };
+};
+
+/**
+ * অ্যাপ জুড়ে একটিই scheduler — সব AI কল এখান দিয়ে যায়
+ */
+export const apiScheduler = createRequestScheduler();
@@ -0,0 +1,202 @@
+/* -------------------------------------------------------------------------- */
+/*                        AI RESPONSE SCHEMAS                                 */
+/* -------------------------------------------------------------------------- */
+
+import {
+  Correction,
+  ToneSuggestion,
+  StyleSuggestion,
+  StyleMixing,
+  StyleMixingCorrection,
+  PunctuationIssue,
+  EuphonyImprovement,
+  ContentAnalysis,
+  MainCheckResponse,
+  ToneCheckResponse,
+  StyleCheckResponse,
+  RewriteResponse,
+  TransliterationResponse
+} from '../types';
+
+/**
+ * একটি আইটেম বাদ দেওয়ার কারণ লগ করা
+ */
+const drop = (schema: string, reason: string, item: unknown): null => {
+  console.warn(`[schema:${schema}] dropped item — ${reason}`, item);
+  return null;
+};
+
+/* ------------------------------ COERCERS ---------------------------------- */
+/* ইমপোর্ট করা JSON (ডক টাইপ, গ্লসারি) যাচাইয়েও ব্যবহৃত                        */
+
+export const isObject = (v: unknown): v is Record<string, unknown> =>
+  typeof v === 'object' && v !== null && !Array.isArray(v);
+
+/** string/number → trimmed string, অন্য কিছু → undefined */
+export const asString = (v: unknown): string | undefined => {
+  if (typeof v === 'string') return v.trim() || undefined;
+  if (typeof v === 'number' && Number.isFinite(v)) return String(v);
+  return undefined;
+};
+
+/** array → string array, একক string → [string] */
+const asStringArray = (v: unknown): string[] => {
+  if (Array.isArray(v)) return v.map(asString).filter((s): s is string => !!s);
+  const single = asString(v);
+  return single ? [single] : [];
+};
+
+/** "12" / 12.0 → 12; না থাকলে বা অবৈধ হলে undefined (কলার টেক্সট দিয়ে খুঁজবে) */
+const asPosition = (v: unknown): number | undefined => {
+  const n = typeof v === 'string' ? parseInt(v, 10) : v;
+  return typeof n === 'number' && Number.isFinite(n) && n >= 0 ? Math.floor(n) : undefined;
+};
+
+/** অবজেক্ট হলে তার একটি ফিল্ড, নাহলে undefined */
+export const field = (raw: unknown, key: string): unknown => (isObject(raw) ? raw[key] : undefined);
+
+const asBoolean = (v: unknown): boolean =>
+  v === true || (typeof v === 'string' && ['true', 'yes', 'হ্যাঁ'].includes(v.trim().toLowerCase()));
+
+/** array এর প্রতিটি আইটেম যাচাই, অবৈধগুলো বাদ */
+const listOf = <T>(schema: string, v: unknown, item: (raw: unknown) => T | null): T[] => {
+  if (v === undefined || v === null) return [];
+  if (!Array.isArray(v)) {
+    drop(schema, 'expected an array', v);
+    return [];
+  }
+  return v.map(item).filter((x): x is T => x !== null);
+};
+
+/* ------------------------------ ITEMS ------------------------------------- */
+
+const correction = (raw: unknown): Correction | null => {
+  if (!isObject(raw)) return drop('spellingErrors', 'not an object', raw);
+  const wrong = asString(raw.wrong);
+  if (!wrong) return drop('spellingErrors', 'missing "wrong"', raw);
+  const suggestions = asStringArray(raw.suggestions ?? raw.suggestion).filter(s => s !== wrong);
+  if (suggestions.length === 0) return drop('spellingErrors', 'no usable suggestions', raw);
+  return { wrong, suggestions, position: asPosition(raw.position) };
+};
+
+const punctuationIssue = (raw: unknown): PunctuationIssue | null => {
+  if (!isObject(raw)) return drop('punctuationIssues', 'not an object', raw);
+  const currentSentence = asString(raw.currentSentence);
+  const correctedSentence = asString(raw.correctedSentence);
+  if (!currentSentence || !correctedSentence) {
+    return drop('punctuationIssues', 'missing current/corrected sentence', raw);
+  }
+  if (currentSentence === correctedSentence) return drop('punctuationIssues', 'no change', raw);
+  return {
+    issue: asString(raw.issue) ?? '',
+    currentSentence,
+    correctedSentence,
+    explanation: asString(raw.explanation) ?? '',
+    position: asPosition(raw.position)
+  };
+};
+
+const euphonyImprovement = (raw: unknown): EuphonyImprovement | null => {
+  if (!isObject(raw)) return drop('euphonyImprovements', 'not an object', raw);
+  const current = asString(raw.current);
+  if (!current) return drop('euphonyImprovements', 'missing "current"', raw);
+  const suggestions = asStringArray(raw.suggestions ?? raw.suggestion).filter(s => s !== current);
+  if (suggestions.length === 0) return drop('euphonyImprovements', 'no usable suggestions', raw);
+  return { current, suggestions, reason: asString(raw.reason) ?? '', position: asPosition(raw.position) };
+};
+
+/** current + suggestion জোড়া (টোন/রীতি/মিশ্রণ সব একই কাঠামো) */
+const conversion = (schema: string, raw: unknown): { current: string; suggestion: string; position?: number } | null => {
+  if (!isObject(raw)) return drop(schema, 'not an object', raw);
+  const current = asString(raw.current);
+  const suggestion = asString(raw.suggestion) ?? asStringArray(raw.suggestions)[0];
+  if (!current || !suggestion) return drop(schema, 'missing current/suggestion', raw);
+  if (current === suggestion) return drop(schema, 'no change', raw);
+  return { current, suggestion, position: asPosition(raw.position) };
+};
+
+const styleMixingCorrection = (raw: unknown): StyleMixingCorrection | null => {
+  const base = conversion('languageStyleMixing.corrections', raw);
+  return base && { ...base, type: asString(field(raw, 'type')) ?? '' };
+};
+
+const styleMixing = (raw: unknown): StyleMixing | null => {
+  if (raw === undefined || raw === null) return null;
+  if (!isObject(raw)) return drop('languageStyleMixing', 'not an object', raw);
+  const corrections = listOf('languageStyleMixing.corrections', raw.corrections, styleMixingCorrection);
+  return {
+    detected: asBoolean(raw.detected) || corrections.length > 0,
+    recommendedStyle: asString(raw.recommendedStyle),
+    reason: asString(raw.reason),
+    corrections
+  };
+};
+
+/* ------------------------------ RESPONSES --------------------------------- */
+
+/**
+ * মেইন চেক রেসপন্স যাচাই — অবৈধ হলে null
+ */
+export const validateMainResponse = (data: unknown): MainCheckResponse | null => {
+  if (!isObject(data)) return drop('main', 'response is not an object', data);
+  return {
+    spellingErrors: listOf('spellingErrors', data.spellingErrors, correction),
+    languageStyleMixing: styleMixing(data.languageStyleMixing),
+    punctuationIssues: listOf('punctuationIssues', data.punctuationIssues, punctuationIssue),
+    euphonyImprovements: listOf('euphonyImprovements', data.euphonyImprovements, euphonyImprovement)
+  };
+};
+
+export const validateToneResponse = (data: unknown): ToneCheckResponse | null => {
+  if (!isObject(data)) return drop('tone', 'response is not an object', data);
+  return {
+    toneConversions: listOf('toneConversions', data.toneConversions, (raw): ToneSuggestion | null => {
+      const base = conversion('toneConversions', raw);
+      return base && { ...base, reason: asString(field(raw, 'reason')) ?? '' };
+    })
+  };
+};
+
+export const validateStyleResponse = (data: unknown): StyleCheckResponse | null => {
+  if (!isObject(data)) return drop('style', 'response is not an object', data);
+  return {
+    styleConversions: listOf('styleConversions', data.styleConversions, (raw): StyleSuggestion | null => {
+      const base = conversion('styleConversions', raw);
+      return base && { ...base, type: asString(field(raw, 'type')) ?? '' };
+    })
+  };
+};
+
+export const validateRewriteResponse = (data: unknown): RewriteResponse | null => {
+  if (!isObject(data)) return drop('rewrite', 'response is not an object', data);
+  // trim না করে — লাইন ব্রেক ও স্পেস অপরিবর্তিত থাকুক
+  if (typeof data.rewrittenText !== 'string' || !data.rewrittenText.trim()) {
+    return drop('rewrite', 'missing "rewrittenText"', data);
+  }
+  return { rewrittenText: data.rewrittenText };
+};
+
+export const validateTransliterationResponse = (data: unknown): TransliterationResponse | null => {
+  if (!isObject(data)) return drop('transliteration', 'response is not an object', data);
+  return {
+    transliterations: listOf('transliterations', data.transliterations, raw => {
+      if (!isObject(raw)) return drop('transliterations', 'not an object', raw);
+      const roman = asString(raw.roman);
+      const bangla = asString(raw.bangla);
+      if (!roman || !bangla) return drop('transliterations', 'missing roman/bangla', raw);
+      return { roman, bangla };
+    })
+  };
+};
+
+export const validateContentAnalysis = (data: unknown): ContentAnalysis | null => {
+  if (!isObject(data)) return drop('content', 'response is not an object', data);
+  const contentType = asString(data.contentType);
+  if (!contentType) return drop('content', 'missing "contentType"', data);
+  return {
+    contentType,
+    description: asString(data.description),
+    missingElements: asStringArray(data.missingElements),
+    suggestions: asStringArray(data.suggestions)
+  };
+};
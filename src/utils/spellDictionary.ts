@@ -0,0 +1,102 @@
+/* -------------------------------------------------------------------------- */
+/*                        COMMON MISSPELLINGS                                 */
+/* -------------------------------------------------------------------------- */
+
+/**
+ * প্রচলিত ভুল বানান → প্রমিত বানান (বাংলা একাডেমি প্রমিত বানানরীতি অনুযায়ী)
+ * - Key: ভুল রূপ (হুবহু), Value: এক বা একাধিক শুদ্ধ রূপ
+ */
+export const COMMON_MISSPELLINGS: Record<string, string[]> = {
+  // ই/ঈ-কার (অতৎসম ও বিদেশি শব্দে ই-কার)
+  'ইংরেজী': ['ইংরেজি'],
+  'সরকারী': ['সরকারি'],
+  'দরকারী': ['দরকারি'],
+  'তৈরী': ['তৈরি'],
+  'বাড়ী': ['বাড়ি'],
+  'গাড়ী': ['গাড়ি'],
+  'পাখী': ['পাখি'],
+  'হাতী': ['হাতি'],
+  'খুশী': ['খুশি'],
+  'দেশী': ['দেশি'],
+  'বিদেশী': ['বিদেশি'],
+  'কাহিনী': ['কাহিনি'],
+  'আমদানী': ['আমদানি'],
+  'রপ্তানী': ['রপ্তানি'],
+  'চাকুরী': ['চাকরি'],
+  'চাকরী': ['চাকরি'],
+  'জানুয়ারী': ['জানুয়ারি'],
+  'ফেব্রুয়ারী': ['ফেব্রুয়ারি'],
+  'শ্রেণী': ['শ্রেণি'],
+  'শ্রেনী': ['শ্রেণি'],
+  'নীচে': ['নিচে'],
+  'নিরব': ['নীরব'],
+  'সমিচীন': ['সমীচীন'],
+  'শারিরীক': ['শারীরিক'],
+  'শারীরীক': ['শারীরিক'],
+  'বাল্মিকী': ['বাল্মীকি'],
+  'মন্ত্রীসভা': ['মন্ত্রিসভা'],
+  'প্রাণীবিদ্যা': ['প্রাণিবিদ্যা'],
+  'শ্রেণীকক্ষ': ['শ্রেণিকক্ষ'],
+  'প্রতিযোগীতা': ['প্রতিযোগিতা'],
+  'সহযোগীতা': ['সহযোগিতা'],
+  'বুদ্ধিজীবি': ['বুদ্ধিজীবী'],
+  'শ্রমজীবি': ['শ্রমজীবী'],
+
+  // উ/ঊ-কার
+  'কৌতুহল': ['কৌতূহল'],
+  'মুহুর্ত': ['মুহূর্ত'],
+  'মূহুর্ত': ['মুহূর্ত'],
+  'মূহূর্ত': ['মুহূর্ত'],
+  'ভুমিকা': ['ভূমিকা'],
+  'ভূল': ['ভুল'],
+  'অন্তর্ভূক্ত': ['অন্তর্ভুক্ত'],
+  'বিদ্যূৎ': ['বিদ্যুৎ'],
+  'সুশ্রুষা': ['শুশ্রূষা'],
+
+  // যুক্তাক্ষর
+  'আকাংখা': ['আকাঙ্ক্ষা'],
+  'আকাঙ্খা': ['আকাঙ্ক্ষা'],
+  'উজ্জল': ['উজ্জ্বল'],
+  'উচ্ছাস': ['উচ্ছ্বাস'],
+  'দ্বন্ধ': ['দ্বন্দ্ব'],
+  'দন্দ': ['দ্বন্দ্ব'],
+  'প্রতিদ্বন্দী': ['প্রতিদ্বন্দ্বী'],
+  'সুক্ষ': ['সূক্ষ্ম'],
+  'সূক্ষ': ['সূক্ষ্ম'],
+  'স্বত্ত্বেও': ['সত্ত্বেও'],
+  'সত্বেও': ['সত্ত্বেও'],
+  'মহত্ব': ['মহত্ত্ব'],
+  'তত্ব': ['তত্ত্ব'],
+  'উদ্যেশ্য': ['উদ্দেশ্য'],
+  'মুখস্ত': ['মুখস্থ'],
+
+  // ষ/স, ণ/ন
+  'পুরষ্কার': ['পুরস্কার'],
+  'পরিস্কার': ['পরিষ্কার'],
+  'নমষ্কার': ['নমস্কার'],
+  'লক্ষ্যনীয়': ['লক্ষণীয়'],
+  'লক্ষনীয়': ['লক্ষণীয়'],
+  'অপরাহ্ন': ['অপরাহ্ণ'],
+  'পূর্বাহ্ন': ['পূর্বাহ্ণ'],
+
+  // অ/আ, য-ফলা
+  'অত্যান্ত': ['অত্যন্ত'],
+  'ব্যাবহার': ['ব্যবহার'],
+  'ব্যাক্তি': ['ব্যক্তি'],
+  'ব্যাক্তিগত': ['ব্যক্তিগত'],
+  'দূরাবস্থা': ['দুরবস্থা'],
+  'দুরাবস্থা': ['দুরবস্থা'],
+  'ভৌগলিক': ['ভৌগোলিক'],
+  'স্বরস্বতী': ['সরস্বতী'],
+  'আর্শীবাদ': ['আশীর্বাদ'],
+  'আশির্বাদ': ['আশীর্বাদ'],
+
+  // অপপ্রয়োগ (বাহুল্য)
+  'সুস্বাগতম': ['স্বাগতম'],
+  'উপরোক্ত': ['উপর্যুক্ত', 'উপরিউক্ত'],
+  'দারিদ্রতা': ['দারিদ্র্য'],
+  'সৌজন্যতা': ['সৌজন্য'],
+  'উৎকর্ষতা': ['উৎকর্ষ'],
+  'আবশ্যকীয়': ['আবশ্যক'],
+  'ইতিপূর্বে': ['ইতঃপূর্বে']
+};
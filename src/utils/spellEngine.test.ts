@@ -0,0 +1,90 @@
+import { describe, it, expect } from 'vitest';
+import { SPELL_RULES, checkWord, runLocalSpellCheck, mergeCorrections } from './spellEngine';
+import { COMMON_MISSPELLINGS } from './spellDictionary';
+import { canonicalizeBangla } from './normalize';
+
+const canon = (list: string[] | null) => list?.map(canonicalizeBangla) ?? null;
+
+describe('SPELL_RULES', () => {
+  // [নিয়ম, ভুল, শুদ্ধ] — ডিকশনারিতে নেই এমন শব্দ, যাতে শুধু নিয়মটিই কাজ করে
+  const cases: Array<[string, string, string]> = [
+    ['ref-no-double', 'সূর্য্য', 'সূর্য'],
+    ['ref-no-double', 'ধর্ম্ম', 'ধর্ম'],
+    ['ii-before-tva', 'দায়ীত্ব', 'দায়িত্ব'],
+    ['jogi-ta', 'উপযোগীতা', 'উপযোগিতা'],
+    ['jibi-suffix', 'কৃষিজীবি', 'কৃষিজীবী'],
+    ['double-kar', 'কাাজ', 'কাজ'],
+    ['double-hasanta', 'বস্্তু', 'বস্তু']
+  ];
+
+  it.each(cases)('%s: %s → %s', (id, wrong, right) => {
+    const rule = SPELL_RULES.find(r => r.id === id)!;
+    const word = canonicalizeBangla(wrong);
+    expect(rule.test.test(word)).toBe(true);
+    expect(rule.fix(word)).toBe(canonicalizeBangla(right));
+    expect(canon(checkWord(wrong))).toEqual([canonicalizeBangla(right)]);
+  });
+
+  it('leaves correct words alone', () => {
+    for (const word of ['কার্য', 'দায়িত্ব', 'প্রতিযোগিতা', 'শ্রমজীবী', 'বাংলাদেশ', 'আমি', 'ভালো']) {
+      expect(checkWord(word)).toBeNull();
+    }
+  });
+});
+
+describe('COMMON_MISSPELLINGS', () => {
+  it.each(Object.entries(COMMON_MISSPELLINGS))('%s → %s', (wrong, fixes) => {
+    expect(checkWord(wrong)).toEqual(fixes);
+  });
+
+  it('never flags its own corrections', () => {
+    const flagged = Object.values(COMMON_MISSPELLINGS).flat().filter(fix => checkWord(fix) !== null);
+    expect(flagged).toEqual([]);
+  });
+
+  it('matches keys in any য়/ড় encoding', () => {
+    expect(checkWord('বাড়ী')).toEqual(['বাড়ি']);
+    expect(checkWord('বা\u09A1\u09BCী')).toEqual(['বাড়ি']);
+  });
+});
+
+describe('runLocalSpellCheck', () => {
+  it('reports whitespace word positions and strips edge punctuation', () => {
+    const result = runLocalSpellCheck('আমার "বাড়ী" অনেক দূরে, সরকারী\nঅফিসের পাশে।');
+    expect(result).toEqual([
+      { wrong: 'বাড়ী', suggestions: ['বাড়ি'], position: 1 },
+      { wrong: 'সরকারী', suggestions: ['সরকারি'], position: 4 }
+    ]);
+  });
+
+  it('skips non-Bangla tokens', () => {
+    expect(runLocalSpellCheck('English text 123 সরকারি')).toEqual([]);
+  });
+});
+
+describe('mergeCorrections', () => {
+  it('merges the same word at nearby positions, local suggestions first', () => {
+    const merged = mergeCorrections(
+      [{ wrong: 'উপরোক্ত', suggestions: ['উপর্যুক্ত'], position: 5 }],
+      [{ wrong: 'উপরোক্ত', suggestions: ['উপর্যুক্ত', 'উপরিউক্ত'], position: 7 }]
+    );
+    expect(merged).toEqual([{ wrong: 'উপরোক্ত', suggestions: ['উপর্যুক্ত', 'উপরিউক্ত'], position: 5 }]);
+  });
+
+  it('keeps the same word far apart as separate items, sorted by position', () => {
+    const merged = mergeCorrections(
+      [{ wrong: 'তৈরী', suggestions: ['তৈরি'], position: 20 }],
+      [
+        { wrong: 'তৈরী', suggestions: ['তৈরি'], position: 2 },
+        { wrong: 'অত্যান্ত', suggestions: ['অত্যন্ত'], position: 10 }
+      ]
+    );
+    expect(merged.map(c => [c.wrong, c.position])).toEqual([['তৈরী', 2], ['অত্যান্ত', 10], ['তৈরী', 20]]);
+  });
+
+  it('does not mutate the local list', () => {
+    const local = [{ wrong: 'ভূল', suggestions: ['ভুল'], position: 0 }];
+    mergeCorrections(local, [{ wrong: 'ভূল', suggestions: ['ভুল', 'ভুলে'], position: 0 }]);
+    expect(local[0].suggestions).toEqual(['ভুল']);
+  });
+});
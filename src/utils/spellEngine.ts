@@ -0,0 +1,142 @@
+/* -------------------------------------------------------------------------- */
+/*                        OFFLINE SPELLING ENGINE                             */
+/* -------------------------------------------------------------------------- */
+
+import { Correction } from '../types';
+import { normalize, canonicalizeBangla } from './normalize';
+import { COMMON_MISSPELLINGS } from './spellDictionary';
+
+/**
+ * একটি বানান নিয়ম
+ * - test: শব্দটি নিয়মের আওতায় পড়ে কিনা
+ * - fix: প্রমিত রূপ
+ */
+interface SpellRule {
+  id: string;
+  test: RegExp;
+  fix: (word: string) => string;
+}
+
+/**
+ * বাংলা একাডেমি প্রমিত বানানরীতি থেকে নেওয়া নিয়ম
+ * (শুধু নিশ্চিত ক্ষেত্র — সন্দেহজনক শব্দ AI এর জন্য রেখে দেওয়া হয়)
+ */
+export const SPELL_RULES: SpellRule[] = [
+  {
+    // রেফের পর ব্যঞ্জনের দ্বিত্ব হবে না: কার্য্য → কার্য, ধর্ম্ম → ধর্ম
+    id: 'ref-no-double',
+    test: /র্([ক-হ])্\1/,
+    fix: w => w.replace(/র্([ক-হ])্\1/g, 'র্$1')
+  },
+  {
+    // ঈ-কারান্ত শব্দের সঙ্গে -ত্ব যুক্ত হলে ই-কার: দায়ীত্ব → দায়িত্ব
+    id: 'ii-before-tva',
+    test: /.+ীত্ব$/,
+    fix: w => w.replace(/ীত্ব$/, 'িত্ব')
+  },
+  {
+    // -যোগী + -তা → -যোগিতা
+    id: 'jogi-ta',
+    test: /যোগীতা$/,
+    fix: w => w.replace(/যোগীতা$/, 'যোগিতা')
+  },
+  {
+    // -জীবী (জীবিকা নির্বাহকারী) অর্থে ঈ-কার: শ্রমজীবি → শ্রমজীবী
+    id: 'jibi-suffix',
+    test: /.+জীবি$/,
+    fix: w => w.replace(/জীবি$/, 'জীবী')
+  },
+  {
+    // টাইপো: একই কার-চিহ্ন পরপর দুবার
+    id: 'double-kar',
+    test: /([া-ৌ])\1/,
+    fix: w => w.replace(/([া-ৌ])\1+/g, '$1')
+  },
+  {
+    // টাইপো: পরপর দুটি হসন্ত
+    id: 'double-hasanta',
+    test: /্্/,
+    fix: w => w.replace(/্{2,}/g, '্')
+  }
+];
+
+// শব্দের শুরু/শেষের বিরামচিহ্ন ও উদ্ধৃতি বাদ দেওয়ার জন্য
+const EDGE_PUNCTUATION = /^[^\p{L}\p{M}\p{N}]+|[^\p{L}\p{M}\p{N}]+$/gu;
+
+// ডিকশনারির key গুলো ক্যানোনিকাল রূপে (য়/ড়/ঢ় যেকোনো এনকোডিং মিলবে)
+const CANONICAL_MISSPELLINGS: Record<string, string[]> = Object.fromEntries(
+  Object.entries(COMMON_MISSPELLINGS).map(([wrong, fixes]) => [canonicalizeBangla(wrong), fixes])
+);
+
+// শুধু বাংলা লিপির শব্দ পরীক্ষা করা হয়
+const BANGLA_WORD = /^[\u0980-\u09FF\u200C\u200D]+$/;
+
+/**
+ * একটি শব্দ যাচাই — ডিকশনারি আগে, তারপর নিয়ম
+ * - ভুল না হলে null
+ */
+export const checkWord = (word: string): string[] | null => {
+  if (!BANGLA_WORD.test(word)) return null;
+
+  const canonical = canonicalizeBangla(word);
+  const known = CANONICAL_MISSPELLINGS[canonical];
+  if (known) return known;
+
+  let fixed = canonical;
+  for (const rule of SPELL_RULES) {
+    if (rule.test.test(fixed)) fixed = rule.fix(fixed);
+  }
+  if (fixed !== canonical) return [CANONICAL_MISSPELLINGS[fixed]?.[0] ?? fixed];
+
+  return null;
+};
+
+/**
+ * পুরো টেক্সট লোকালি পরীক্ষা করা
+ * - position: whitespace দিয়ে ভাগ করা 0-based শব্দ index (AI এর মতোই)
+ */
+export const runLocalSpellCheck = (text: string): Correction[] => {
+  const corrections: Correction[] = [];
+  const tokens = text.match(/\S+/g) || [];
+
+  tokens.forEach((token, position) => {
+    const word = token.replace(EDGE_PUNCTUATION, '');
+    if (!word) return;
+
+    const suggestions = checkWord(word);
+    if (suggestions) corrections.push({ wrong: word, suggestions, position });
+  });
+
+  return corrections;
+};
+
+/**
+ * লোকাল ও AI ফলাফল একত্র করা (ডুপ্লিকেট ছাড়া)
+ * - একই শব্দ কাছাকাছি position এ থাকলে একটিই রাখা হয়, সাজেশন একত্র হয়
+ * - লোকাল ফলাফল আগে (নিশ্চিত), AI এর বাড়তি সাজেশন পরে
+ */
+export const mergeCorrections = (
+  local: Correction[],
+  ai: Correction[],
+  tolerance: number = 3
+): Correction[] => {
+  const merged: Correction[] = local.map(c => ({ ...c, suggestions: [...c.suggestions] }));
+
+  for (const item of ai) {
+    const key = normalize(item.wrong);
+    const existing = merged.find(m =>
+      normalize(m.wrong) === key &&
+      Math.abs((m.position ?? 0) - (item.position ?? 0)) <= tolerance
+    );
+
+    if (existing) {
+      for (const s of item.suggestions || []) {
+        if (!existing.suggestions.some(e => normalize(e) === normalize(s))) existing.suggestions.push(s);
+      }
+    } else {
+      merged.push(item);
+    }
+  }
+
+  return merged.sort((a, b) => (a.position ?? 0) - (b.position ?? 0));
+};
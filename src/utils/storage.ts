@@ -0,0 +1,30 @@
+/* -------------------------------------------------------------------------- */
+/*                        LOCAL STORAGE HELPERS                               */
+/* -------------------------------------------------------------------------- */
+
+/**
+ * localStorage থেকে JSON পড়া — না থাকলে বা নষ্ট হলে fallback
+ */
+export const loadJson = <T>(key: string, fallback: T): T => {
+  try {
+    const raw = localStorage.getItem(key);
+    return raw ? (JSON.parse(raw) as T) : fallback;
+  } catch (error) {
+    console.error(`Storage read error (${key}):`, error);
+    return fallback;
+  }
+};
+
+/**
+ * localStorage এ JSON লেখা
+ * - জায়গা শেষ হলে (QuotaExceededError) false ফেরত দেয়
+ */
+export const saveJson = (key: string, value: unknown): boolean => {
+  try {
+    localStorage.setItem(key, JSON.stringify(value));
+    return true;
+  } catch (error) {
+    console.error(`Storage write error (${key}):`, error);
+    return false;
+  }
+};
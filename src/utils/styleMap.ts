@@ -0,0 +1,131 @@
+/* -------------------------------------------------------------------------- */
+/*                        SADHU / CHOLITO PARAGRAPH MAP (LOCAL)               */
+/* -------------------------------------------------------------------------- */
+
+import { ParagraphStyle, StyleMapEntry } from '../types';
+import { canonicalizeBangla } from './normalize';
+
+/**
+ * সাধু ↔ চলিত জোড়া — সর্বনাম ও বহুল ব্যবহৃত ক্রিয়া
+ * - শ্রেণীকরণ ও লোকাল রূপান্তর দুটোতেই ব্যবহৃত
+ */
+const PAIRS: Array<[string, string]> = [
+  // সর্বনাম
+  ['তাহার', 'তার'], ['তাহারা', 'তারা'], ['তাহাদের', 'তাদের'], ['তাহাকে', 'তাকে'], ['তাহা', 'তা'],
+  ['তাহাতে', 'তাতে'], ['যাহা', 'যা'], ['যাহার', 'যার'], ['যাহারা', 'যারা'], ['যাহাদের', 'যাদের'],
+  ['যাহাকে', 'যাকে'], ['যাহাতে', 'যাতে'], ['ইহা', 'এটা'], ['ইহার', 'এর'], ['ইহারা', 'এরা'],
+  ['ইহাদের', 'এদের'], ['ইহাকে', 'একে'], ['ইহাতে', 'এতে'], ['উহা', 'ওটা'], ['উহার', 'ওর'],
+  ['উহারা', 'ওরা'], ['উহাদের', 'ওদের'], ['কাহার', 'কার'], ['কাহাকে', 'কাকে'], ['কাহারা', 'কারা'],
+  // ক্রিয়া
+  ['করিতেছি', 'করছি'], ['করিতেছে', 'করছে'], ['করিতেছেন', 'করছেন'], ['করিয়াছি', 'করেছি'],
+  ['করিয়াছে', 'করেছে'], ['করিয়াছেন', 'করেছেন'], ['করিলাম', 'করলাম'], ['করিল', 'করল'],
+  ['করিলেন', 'করলেন'], ['করিব', 'করব'], ['করিবে', 'করবে'], ['করিবেন', 'করবেন'], ['করিয়া', 'করে'],
+  ['করিতে', 'করতে'], ['বলিলাম', 'বললাম'], ['বলিল', 'বলল'], ['বলিলেন', 'বললেন'], ['বলিয়া', 'বলে'],
+  ['বলিতে', 'বলতে'], ['দেখিলাম', 'দেখলাম'], ['দেখিল', 'দেখল'], ['দেখিয়া', 'দেখে'], ['দেখিতে', 'দেখতে'],
+  ['হইয়াছে', 'হয়েছে'], ['হইয়াছিল', 'হয়েছিল'], ['হইতেছে', 'হচ্ছে'], ['হইল', 'হল'], ['হইবে', 'হবে'],
+  ['হইয়া', 'হয়ে'], ['হইতে', 'হতে'], ['যাইতেছি', 'যাচ্ছি'], ['যাইতেছে', 'যাচ্ছে'], ['যাইব', 'যাব'],
+  ['যাইবে', 'যাবে'], ['যাইয়া', 'গিয়ে'], ['গিয়াছে', 'গেছে'], ['গিয়াছিল', 'গিয়েছিল'], ['খাইয়া', 'খেয়ে'],
+  ['খাইতে', 'খেতে'], ['দিয়াছে', 'দিয়েছে'], ['দিয়া', 'দিয়ে'], ['লইয়া', 'নিয়ে'],
+  ['আসিয়া', 'এসে'], ['আসিল', 'এল'], ['আসিবে', 'আসবে'], ['পারিব', 'পারব'], ['পারিবে', 'পারবে'],
+  ['থাকিবে', 'থাকবে'], ['থাকিয়া', 'থেকে'], ['রহিয়াছে', 'রয়েছে']
+].map(([s, c]) => [canonicalizeBangla(s), canonicalizeBangla(c)] as [string, string]);
+
+/** "তারা" (নক্ষত্র) ও "যারা" দুই রীতিতেই দেখা যায় — শ্রেণীকরণে গণনা নয় */
+const AMBIGUOUS = new Set(['তারা', 'যারা']);
+
+const SADHU_WORDS = new Set(PAIRS.map(([s]) => s));
+const CHOLITO_WORDS = new Set(PAIRS.map(([, c]) => c).filter(c => !AMBIGUOUS.has(c)));
+
+const Y = 'য\u09BC'; // য় (canonical: য + nukta)
+const C = '[\\u0995-\\u09B9]'; // ব্যঞ্জনবর্ণ
+
+/**
+ * জোড়ায় না থাকা ক্রিয়ার রূপ — শুধু যে প্রত্যয়গুলো অন্য রীতিতে বা বিশেষ্যে প্রায় আসে না
+ * - সাধু: করিতেছে, পড়িয়াছিল, করিলাম (চলিতের "ছিলাম" বাদ), হইয়া, যাইতে …
+ * - চলিত: পড়ছে (ছ এর আগে ব্যঞ্জন — "আছে", "কাছে" বাদ), পড়েছে, পড়লাম
+ */
+const SADHU_VERB = new RegExp(
+  `(?:িতেছ|ি${Y}াছ)(?:ি|ে|েন|িল|িলাম|িলেন|িলে)?$|(?!ছ)${C}িল(?:াম|েন)$|ই(?:${Y}া|তে|ল|লাম|লেন|ব|বে|বেন)$`
+);
+const CHOLITO_VERB = new RegExp(
+  `${C}ছ(?:ি|ে|েন|িল|িলাম|িলেন)$|েছ(?:ি|ে|েন|িল|িলাম|িলেন)$|${C}(?:লাম|লেন)$|চ্ছ(?:ি|ে|েন|িল)$`
+);
+
+const tokens = (text: string): string[] =>
+  canonicalizeBangla(text)
+    .split(/\s+/)
+    .map(w => w.replace(/^[^\u0980-\u09FF]+|[^\u0980-\u09FF]+$/g, ''))
+    .filter(Boolean);
+
+/**
+ * একটি প্যারাগ্রাফে সাধু ও চলিত চিহ্নের সংখ্যা
+ */
+export const countStyleMarkers = (text: string): { sadhu: number; cholito: number } => {
+  let sadhu = 0;
+  let cholito = 0;
+  for (const w of tokens(text)) {
+    if (SADHU_WORDS.has(w) || SADHU_VERB.test(w)) sadhu++;
+    else if (CHOLITO_WORDS.has(w) || CHOLITO_VERB.test(w)) cholito++;
+  }
+  return { sadhu, cholito };
+};
+
+/** সংখ্যালঘু রীতির অনুপাত এর কম হলে (যেমন একটি ভুল শব্দ) প্যারাগ্রাফ মিশ্র নয়, তবু গণনায় থাকে */
+const MIXED_SHARE = 0.15;
+
+const labelOf = (sadhu: number, cholito: number): ParagraphStyle => {
+  if (sadhu === 0 && cholito === 0) return 'neutral';
+  if (sadhu > 0 && cholito > 0 && Math.min(sadhu, cholito) / (sadhu + cholito) >= MIXED_SHARE) return 'mixed';
+  return sadhu > cholito ? 'sadhu' : 'cholito';
+};
+
+const PREVIEW_CHARS = 60;
+
+/**
+ * ডকুমেন্টের প্রতিটি প্যারাগ্রাফের রীতি
+ * - index: Word এর body.paragraphs এ অবস্থান (ফাঁকা প্যারাগ্রাফ বাদ, তবে index ঠিক থাকে)
+ */
+export const classifyParagraphs = (paragraphs: string[]): StyleMapEntry[] =>
+  paragraphs
+    .map((text, index) => ({ text: text.trim(), index }))
+    .filter(p => p.text)
+    .map(({ text, index }) => {
+      const { sadhu, cholito } = countStyleMarkers(text);
+      return {
+        index,
+        text,
+        preview: text.length > PREVIEW_CHARS ? `${text.slice(0, PREVIEW_CHARS)}…` : text,
+        sadhu,
+        cholito,
+        label: labelOf(sadhu, cholito)
+      };
+    });
+
+/**
+ * পুরো ডকুমেন্টের প্রধান রীতি (চিহ্নের মোট সংখ্যা দিয়ে) — কোনো চিহ্ন না থাকলে null
+ */
+export const dominantStyle = (entries: StyleMapEntry[]): 'sadhu' | 'cholito' | null => {
+  const sadhu = entries.reduce((n, e) => n + e.sadhu, 0);
+  const cholito = entries.reduce((n, e) => n + e.cholito, 0);
+  if (sadhu === 0 && cholito === 0) return null;
+  return sadhu > cholito ? 'sadhu' : 'cholito';
+};
+
+/**
+ * রীতির মিশ্রণ আছে কি না — মিশ্র প্যারাগ্রাফ, অথবা ভিন্ন রীতির প্যারাগ্রাফ
+ */
+export const hasStyleMixing = (entries: StyleMapEntry[]): boolean =>
+  entries.some(e => e.label === 'mixed') ||
+  (entries.some(e => e.label === 'sadhu') && entries.some(e => e.label === 'cholito'));
+
+const SADHU_TO_CHOLITO = new Map(PAIRS);
+const CHOLITO_TO_SADHU = new Map(PAIRS.map(([s, c]) => [c, s]));
+
+/**
+ * লোকাল রূপান্তর (AI ছাড়া) — শুধু তালিকার সর্বনাম ও ক্রিয়া
+ * - বাকি লেখা, বিরামচিহ্ন ও স্পেস অক্ষত
+ */
+export const convertStyleLocally = (text: string, target: 'sadhu' | 'cholito'): string => {
+  const table = target === 'cholito' ? SADHU_TO_CHOLITO : CHOLITO_TO_SADHU;
+  return text.replace(/[\u0980-\u09FF\u200C\u200D]+/g, word => table.get(canonicalizeBangla(word)) ?? word);
+};
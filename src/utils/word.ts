@@ -1,5 +1,16 @@
 // src/utils/word.ts
 
+import { resolveOccurrence, findOccurrenceWordIndices, wordIndexAt } from './position';
+import { searchVariants, normalize } from './normalize';
+import { countWords } from './chunker';
+import { isBijoyFont, bijoyToUnicode, unicodeToBijoy, BIJOY_FONT } from './bijoy';
+
+/**
+ * শেষ বিশ্লেষিত টেক্সট বডির কত নম্বর শব্দ থেকে শুরু হয়েছে
+ * (সিলেকশন বিশ্লেষণ করলে AI এর position সিলেকশন-ভিত্তিক হয়)
+ */
+let analysisWordOffset = 0;
+
 /**
  * Word ডকুমেন্ট থেকে টেক্সট পড়ার ফাংশন
  */
@@ -7,17 +18,20 @@ export const getTextFromWord = async (): Promise<string> => {
   try {
     return await Word.run(async (context) => {
       const selection = context.document.getSelection();
+      const body = context.document.body;
+      // সিলেকশনের আগের অংশ — একই টেক্সট আগেও থাকলে indexOf ভুল জায়গা দিত
+      const before = body.getRange('Start').expandTo(selection.getRange('Start'));
       selection.load('text');
+      body.load('text');
+      before.load('text');
       await context.sync();
 
       if (selection.text && selection.text.trim().length > 0) {
+        analysisWordOffset = wordIndexAt(before.text, before.text.length);
         return selection.text.replace(/\r\n/g, '\n').replace(/\r/g, '\n');
       }
 
-      const body = context.document.body;
-      body.load('text');
-      await context.sync();
-      
+      analysisWordOffset = 0;
       return body.text.replace(/\r\n/g, '\n').replace(/\r/g, '\n');
     });
   } catch (error) {
@@ -26,6 +40,53 @@ export const getTextFromWord = async (): Promise<string> => {
   }
 };
 
+/**
+ * বডিতে টেক্সট খোঁজা — না পেলে বাংলা ইউনিকোডের বিকল্প রূপ দিয়ে আবার খোঁজা
+ * (য়/ড়/ঢ়, ৎ ইত্যাদি ডকুমেন্টে যেকোনো রূপে থাকতে পারে)
+ * - matched: যে রূপটি পাওয়া গেছে — occurrence গণনা এটি দিয়েই
+ */
+const searchInBody = async (
+  context: Word.RequestContext,
+  body: Word.Body,
+  text: string
+): Promise<{ results: Word.RangeCollection; matched: string }> => {
+  const options = { matchCase: false, matchWholeWord: !/\s/.test(text) };
+  let matched = text;
+  let results = body.search(text, options);
+  results.load('items');
+  await context.sync();
+
+  for (const variant of searchVariants(text).slice(1)) {
+    if (results.items.length > 0) break;
+    matched = variant;
+    results = body.search(variant, options);
+    results.load('items');
+    await context.sync();
+  }
+
+  return { results, matched };
+};
+
+/**
+ * AI এর দেওয়া position অনুযায়ী সার্চ রেজাল্ট থেকে সঠিক রেঞ্জ বাছাই
+ * - position না থাকলে বা টেক্সট না মিললে null (কলার ঠিক করবে কী করবে)
+ * - Word এর ফলাফল সংখ্যা আর আমাদের গণনা না মিললে শেষ রেঞ্জে ক্ল্যাম্প করা হয়
+ */
+const pickRangeForPosition = (
+  results: Word.RangeCollection,
+  bodyText: string,
+  text: string,
+  position?: number
+): Word.Range | null => {
+  if (results.items.length === 0) return null;
+  if (position === undefined || position === null) return null;
+
+  const occurrence = resolveOccurrence(bodyText, text, position + analysisWordOffset);
+  if (occurrence === -1) return null;
+
+  return results.items[Math.min(occurrence, results.items.length - 1)];
+};
+
 /**
  * একাধিক শব্দ একসাথে হাইলাইট করা (Fixed for Build Error)
  */
@@ -37,6 +98,7 @@ export const highlightMultipleInWord = async (
   try {
     await Word.run(async (context) => {
       const body = context.document.body;
+      body.load('text');
       
       // Removed unused arrays here to fix build error
 
@@ -44,14 +106,14 @@ export const highlightMultipleInWord = async (
         const cleanText = item.text.trim();
         if (!cleanText) continue;
 
-        const results = body.search(cleanText, {
-          matchCase: false,
-          matchWholeWord: !/\s/.test(cleanText)
-        });
-        results.load('items');
-        
-        await context.sync(); 
+        const { results, matched } = await searchInBody(context, body, cleanText);
         
+        const target = pickRangeForPosition(results, body.text, matched, item.position);
+        if (target) {
+          target.font.highlightColor = item.color;
+          continue;
+        }
+
         for (let i = 0; i < results.items.length; i++) {
           results.items[i].font.highlightColor = item.color;
         }
@@ -70,7 +132,7 @@ export const highlightMultipleInWord = async (
 export const highlightInWord = async (
   text: string,
   color: string,
-  _position?: number
+  position?: number
 ): Promise<void> => {
   const cleanText = text.trim();
   if (!cleanText) return;
@@ -78,15 +140,16 @@ export const highlightInWord = async (
   try {
     await Word.run(async (context) => {
       const body = context.document.body;
-      const results = body.search(cleanText, {
-        matchCase: false,
-        matchWholeWord: !/\s/.test(cleanText)
-      });
-      results.load('items');
-      await context.sync();
+      body.load('text');
+      const { results, matched } = await searchInBody(context, body, cleanText);
 
-      for (let i = 0; i < results.items.length; i++) {
-        results.items[i].font.highlightColor = color;
+      const target = pickRangeForPosition(results, body.text, matched, position);
+      if (target) {
+        target.font.highlightColor = color;
+      } else {
+        for (let i = 0; i < results.items.length; i++) {
+          results.items[i].font.highlightColor = color;
+        }
       }
       await context.sync();
     });
@@ -95,13 +158,132 @@ export const highlightInWord = async (
   }
 };
 
+/**
+ * সাজেশনের রেঞ্জ সিলেক্ট করা — Word নিজেই সেখানে স্ক্রল করে
+ * - position দিয়ে সঠিক occurrence; না পেলে false
+ */
+export const selectInWord = async (text: string, position?: number): Promise<boolean> => {
+  const cleanText = text.trim();
+  if (!cleanText) return false;
+
+  try {
+    return await Word.run(async (context) => {
+      const body = context.document.body;
+      body.load('text');
+      const { results, matched } = await searchInBody(context, body, cleanText);
+
+      const target = pickRangeForPosition(results, body.text, matched, position) ?? results.items[0];
+      if (!target) return false;
+      target.select();
+      await context.sync();
+      return true;
+    });
+  } catch (error) {
+    console.error('Select error:', error);
+    return false;
+  }
+};
+
+/**
+ * কার্সার যে শব্দে আছে তার index — শেষ বিশ্লেষিত টেক্সটের সাপেক্ষে (সাজেশনের position এর মতো)
+ */
+export const getCursorWordIndex = async (): Promise<number | null> => {
+  try {
+    return await Word.run(async (context) => {
+      const before = context.document.body.getRange('Start').expandTo(context.document.getSelection().getRange('Start'));
+      before.load('text');
+      await context.sync();
+      return wordIndexAt(before.text, before.text.length) - analysisWordOffset;
+    });
+  } catch (error) {
+    console.error('Error reading cursor:', error);
+    return null;
+  }
+};
+
+/**
+ * সাজেশন প্রয়োগের ধরন
+ * - replace: সরাসরি প্রতিস্থাপন
+ * - track: Track Changes চালু করে প্রতিস্থাপন (রিভিশন হিসেবে থাকবে)
+ * - comment: টেক্সট না বদলে রেঞ্জে মন্তব্য যোগ
+ */
+export type ApplyMode = 'replace' | 'track' | 'comment';
+
+export interface ApplyOptions {
+  mode?: ApplyMode;
+  /** মন্তব্যে দেখানোর জন্য কারণ/ব্যাখ্যা */
+  note?: string;
+}
+
+/**
+ * Track Changes ও মন্তব্য WordApi 1.4 এ — না থাকলে সরাসরি প্রতিস্থাপন
+ */
+export const isApplyModeSupported = (mode: ApplyMode): boolean =>
+  mode === 'replace' || Office.context.requirements.isSetSupported('WordApi', '1.4');
+
+const effectiveMode = (mode: ApplyMode = 'replace'): ApplyMode => (isApplyModeSupported(mode) ? mode : 'replace');
+
+/**
+ * একটি রেঞ্জে সাজেশন প্রয়োগ (sync কলার করবে — track মোডে commitEdits দিয়ে)
+ * - comment মোডে যোগ করা মন্তব্যটি ফেরত দেয় (undo তে মোছার জন্য)
+ */
+const applyToRange = (
+  target: Word.Range,
+  newText: string,
+  { mode, note }: ApplyOptions
+): Word.Comment | null => {
+  const active = effectiveMode(mode);
+  if (active === 'comment') {
+    const lines = [`প্রস্তাবিত: ${newText}`];
+    if (note) lines.push(note);
+    return target.insertComment(lines.join('\n'));
+  }
+
+  if (active === 'track') {
+    // হাইলাইট আগে মুছে ফেলা, যাতে রিভিশনে শুধু টেক্সট পরিবর্তন থাকে
+    target.font.highlightColor = 'None';
+    target.insertText(newText, Word.InsertLocation.replace);
+    return null;
+  }
+
+  target.insertText(newText, Word.InsertLocation.replace);
+  target.font.highlightColor = '#FFFFFF'; 
+  return null;
+};
+
+/**
+ * applyToRange এর পরিবর্তনগুলো sync করা
+ * - track মোডে শুধু এই সময়টুকু Track Changes চালু, পরে ইউজারের আগের মোড ফেরত
+ */
+const commitEdits = async (context: Word.RequestContext, mode: ApplyMode | undefined, apply: () => void): Promise<void> => {
+  if (effectiveMode(mode) !== 'track') {
+    apply();
+    await context.sync();
+    return;
+  }
+
+  const doc = context.document;
+  doc.load('changeTrackingMode');
+  await context.sync();
+  const previous = doc.changeTrackingMode;
+  doc.changeTrackingMode = Word.ChangeTrackingMode.trackAll;
+  try {
+    apply();
+    await context.sync();
+  } finally {
+    doc.changeTrackingMode = previous;
+    await context.sync();
+  }
+};
+
 /**
  * Word ডকুমেন্টে টেক্সট প্রতিস্থাপন
  */
 export const replaceInWord = async (
   oldText: string,
   newText: string,
-  _position?: number
+  position?: number,
+  options: ApplyOptions = {}
 ): Promise<boolean> => {
   const cleanOldText = oldText.trim();
   if (!cleanOldText) return false;
@@ -109,17 +291,12 @@ export const replaceInWord = async (
   try {
     return await Word.run(async (context) => {
       const body = context.document.body;
-      const results = body.search(cleanOldText, {
-        matchCase: false,
-        matchWholeWord: !/\s/.test(cleanOldText)
-      });
-      results.load('items');
-      await context.sync();
+      body.load('text');
+      const { results, matched } = await searchInBody(context, body, cleanOldText);
 
       if (results.items.length > 0) {
-        results.items[0].insertText(newText, Word.InsertLocation.replace);
-        results.items[0].font.highlightColor = '#FFFFFF'; 
-        await context.sync();
+        const target = pickRangeForPosition(results, body.text, matched, position) ?? results.items[0];
+        await commitEdits(context, options.mode, () => applyToRange(target, newText, options));
         return true;
       }
       return false;
@@ -143,3 +320,498 @@ export const clearHighlights = async (): Promise<void> => {
     console.error('Clear highlights error:', error);
   }
 };
+
+/**
+ * নির্দিষ্ট প্যারাগ্রাফগুলোর হাইলাইট মুছে ফেলা (বাকিগুলো যেমন আছে থাকবে)
+ * - সিলেকশনের আংশিক প্যারাগ্রাফ হলে যে প্যারাগ্রাফের শুরু/শেষে টেক্সটটি আছে সেটি
+ */
+export const clearHighlightsInParagraphs = async (texts: string[]): Promise<void> => {
+  const squash = (t: string) => t.replace(/\s+/g, ' ').trim();
+  const targets = texts.map(squash).filter(Boolean);
+  if (targets.length === 0) return;
+
+  try {
+    await Word.run(async (context) => {
+      const paragraphs = context.document.body.paragraphs;
+      paragraphs.load('items/text');
+      await context.sync();
+
+      for (const paragraph of paragraphs.items) {
+        const text = squash(paragraph.text);
+        if (text && targets.some(t => text.startsWith(t) || text.endsWith(t))) {
+          paragraph.font.highlightColor = 'None';
+        }
+      }
+      await context.sync();
+    });
+  } catch (error) {
+    console.error('Clear paragraph highlights error:', error);
+  }
+};
+
+/**
+ * কার্সারের প্যারাগ্রাফ পড়া (লাইভ পরীক্ষার জন্য)
+ * - wordOffset শেষ বিশ্লেষিত টেক্সটের সাপেক্ষে, যাতে বিদ্যমান ফলাফলের position এর সাথে মেলে
+ */
+export const getParagraphAtCursor = async (): Promise<{ text: string; wordOffset: number } | null> => {
+  try {
+    return await Word.run(async (context) => {
+      const paragraph = context.document.getSelection().paragraphs.getFirst();
+      const before = context.document.body.getRange('Start').expandTo(paragraph.getRange('Start'));
+      paragraph.load('text');
+      before.load('text');
+      await context.sync();
+
+      const wordsBefore = before.text.trim() ? before.text.trim().split(/\s+/).length : 0;
+      return {
+        text: paragraph.text.replace(/\r\n/g, '\n').replace(/\r/g, '\n'),
+        wordOffset: wordsBefore - analysisWordOffset
+      };
+    });
+  } catch (error) {
+    console.error('Error reading paragraph:', error);
+    return null;
+  }
+};
+
+/**
+ * শুধু সিলেক্ট করা টেক্সট (না থাকলে খালি)
+ */
+export const getSelectedText = async (): Promise<string> => {
+  try {
+    return await Word.run(async (context) => {
+      const selection = context.document.getSelection();
+      selection.load('text');
+      await context.sync();
+      return (selection.text || '').replace(/\r\n/g, '\n').replace(/\r/g, '\n');
+    });
+  } catch (error) {
+    console.error('Error reading selection:', error);
+    return '';
+  }
+};
+
+/**
+ * রিরাইটের গৃহীত hunk গুলো সিলেকশনে লেখা
+ * - প্রতিটি hunk সিলেকশনের ভেতরে খুঁজে আলাদাভাবে প্রতিস্থাপন (বাকি ফরম্যাটিং অক্ষত)
+ * - কোনো hunk খুঁজে না পেলে পুরো সিলেকশন fullText দিয়ে প্রতিস্থাপন
+ * - সিলেকশন মূল টেক্সটের সাথে না মিললে false
+ */
+export const applyHunksToSelection = async (
+  original: string,
+  hunks: Array<{ before: string; after: string; offset: number }>,
+  fullText: string,
+  options: ApplyOptions = {}
+): Promise<boolean> => {
+  const squash = (t: string) => t.replace(/\s+/g, ' ').trim();
+
+  try {
+    return await Word.run(async (context) => {
+      const selection = context.document.getSelection();
+      selection.load('text');
+      await context.sync();
+
+      if (squash(selection.text || '') !== squash(original)) return false;
+
+      // Word এর search সর্বোচ্চ 255 অক্ষর, লাইন ব্রেক খোঁজা যায় না
+      const searchable = hunks.every(h => h.before.trim() && h.before.length <= 255 && !h.before.includes('\n'));
+      const located = searchable
+        ? hunks.map(h => {
+            let occurrence = 0;
+            for (let i = original.indexOf(h.before); i !== -1 && i < h.offset; i = original.indexOf(h.before, i + 1)) {
+              occurrence++;
+            }
+            const results = selection.search(h.before, { matchCase: true });
+            results.load('items');
+            return { hunk: h, results, occurrence };
+          })
+        : [];
+      if (searchable) await context.sync();
+
+      await commitEdits(context, options.mode, () => {
+        if (searchable && located.every(l => l.results.items.length > l.occurrence)) {
+          // শেষ থেকে শুরুতে, যাতে আগের রেঞ্জ প্রভাবিত না হয়
+          for (const { hunk, results, occurrence } of [...located].reverse()) {
+            applyToRange(results.items[occurrence], hunk.after, options);
+          }
+        } else {
+          applyToRange(selection, fullText, options);
+        }
+      });
+      return true;
+    });
+  } catch (error) {
+    console.error('Rewrite apply error:', error);
+    return false;
+  }
+};
+
+/**
+ * একসাথে প্রয়োগের জন্য একটি পরিবর্তন (position বিশ্লেষিত টেক্সটের সাপেক্ষে)
+ */
+export interface BulkEdit {
+  oldText: string;
+  newText: string;
+  position?: number;
+  note?: string;
+}
+
+/**
+ * একটি ব্যাচ ফেরত আনার উপায় (প্রয়োগের মোড অনুযায়ী)
+ * - edits: replace মোড — উল্টো edit গুলো আবার প্রয়োগ
+ * - reject: track মোড — নতুন রিভিশন না বানিয়ে এই edit গুলোর Track Changes বাতিল
+ *   (oldText = বসানো টেক্সট, newText = মূল টেক্সট, position নতুন টেক্সটে)
+ * - comments: comment মোড — যোগ করা মন্তব্যগুলো মুছে ফেলা
+ */
+export type BulkUndo =
+  | { kind: 'edits'; edits: BulkEdit[] }
+  | { kind: 'reject'; edits: BulkEdit[] }
+  | { kind: 'comments'; ids: string[] };
+
+export interface BulkResult {
+  /** কোন edit গুলো প্রয়োগ হয়েছে (ইনপুটের index) */
+  applied: number[];
+  /** ফেরত আনার তথ্য — track মোডে WordApi 1.6 না থাকলে null */
+  undo: BulkUndo | null;
+}
+
+interface LocatedEdit {
+  index: number;
+  range: Word.Range;
+  start: number;
+  words: number;
+}
+
+/**
+ * Find the document range of each edit in one batch of searches
+ * - Search variants are tried in turn for the edits not found yet
+ * - The occurrence nearest the edit's position is picked
+ * - An edit overlapping an earlier one (in list order) is skipped
+ */
+const locateEdits = async (context: Word.RequestContext, edits: BulkEdit[]): Promise<LocatedEdit[]> => {
+  const body = context.document.body;
+  body.load('text');
+
+  // ১. রেঞ্জ খোঁজা — প্রতিটি ধাপে এখনো না পাওয়াগুলোর পরের বিকল্প রূপ
+  const texts = edits.map(e => e.oldText.trim());
+  const variants = texts.map(t => (t ? searchVariants(t) : []));
+  const found: Array<Word.RangeCollection | null> = edits.map(() => null);
+  const matched = [...texts];
+  let pending = texts.map((_, i) => i).filter(i => texts[i]);
+
+  for (let v = 0; pending.length > 0; v++) {
+    const batch = pending
+      .filter(i => v < variants[i].length)
+      .map(i => {
+        const results = body.search(variants[i][v], { matchCase: false, matchWholeWord: !/\s/.test(texts[i]) });
+        results.load('items');
+        return { i, v, results };
+      });
+    if (batch.length === 0) break;
+    await context.sync();
+
+    pending = [];
+    for (const { i, v, results } of batch) {
+      if (results.items.length > 0) {
+        found[i] = results;
+        matched[i] = variants[i][v];
+      } else pending.push(i);
+    }
+  }
+
+  // ২. সঠিক occurrence ও শব্দ-পরিসর; ওভারল্যাপ বাদ
+  const targets: LocatedEdit[] = [];
+  edits.forEach((edit, index) => {
+    const results = found[index];
+    if (!results) return;
+
+    const text = matched[index];
+    const resolved = edit.position === undefined || edit.position === null
+      ? 0
+      : resolveOccurrence(body.text, text, edit.position + analysisWordOffset);
+    const occurrence = Math.min(Math.max(resolved, 0), results.items.length - 1);
+    const start = findOccurrenceWordIndices(body.text, text)[occurrence] ?? (edit.position ?? 0) + analysisWordOffset;
+    const words = Math.max(countWords(text), 1);
+
+    const overlaps = targets.some(t => start < t.start + t.words && t.start < start + words);
+    if (!overlaps) targets.push({ index, range: results.items[occurrence], start, words });
+  });
+
+  return targets;
+};
+
+/**
+ * Track Changes খুঁজে বাতিল করা যায় WordApi 1.6 থেকে
+ */
+const canRejectTrackedChanges = (): boolean =>
+  Office.context.requirements.isSetSupported('WordApi', '1.6');
+
+/**
+ * অনেকগুলো পরিবর্তন এক Word.run এ
+ * - প্রথমে সব রেঞ্জ খুঁজে নেওয়া (সার্চ একসাথে, বিকল্প রূপ পরের ধাপে)
+ * - একই জায়গায় বা একটির ভেতরে আরেকটি পড়লে আগেরটি (তালিকার ক্রমে) রাখা হয়
+ * - ডকুমেন্টের শেষ থেকে শুরুর দিকে প্রতিস্থাপন, যাতে আগের edit পরের লক্ষ্য না সরায়
+ */
+export const applyBulkEdits = async (
+  edits: BulkEdit[],
+  options: ApplyOptions = {}
+): Promise<BulkResult | null> => {
+  const mode = effectiveMode(options.mode);
+  try {
+    return await Word.run(async (context) => {
+      const targets = await locateEdits(context, edits);
+
+      // ৩. শেষ থেকে প্রয়োগ
+      const ordered = [...targets].sort((a, b) => b.start - a.start);
+      const comments: Word.Comment[] = [];
+      await commitEdits(context, mode, () => {
+        for (const t of ordered) {
+          const edit = edits[t.index];
+          const comment = applyToRange(t.range, edit.newText, { mode, note: edit.note ?? options.note });
+          if (comment) comments.push(comment.load('id'));
+        }
+      });
+      const applied = targets.map(t => t.index);
+
+      // ৪. undo — comment মোডে মন্তব্যের id
+      if (mode === 'comment') return { applied, undo: { kind: 'comments', ids: comments.map(c => c.id) } };
+      if (mode === 'track' && !canRejectTrackedChanges()) return { applied, undo: null };
+
+      // নতুন টেক্সটে প্রতিটি পরিবর্তনের position (আগের পরিবর্তনে শব্দসংখ্যা বদলালে সরে যায়)
+      const inverse: BulkEdit[] = [];
+      let shift = 0;
+      for (const t of ordered.reverse()) {
+        const edit = edits[t.index];
+        inverse.push({ oldText: edit.newText, newText: edit.oldText.trim(), position: t.start + shift - analysisWordOffset });
+        shift += countWords(edit.newText) - t.words;
+      }
+      return { applied, undo: { kind: mode === 'track' ? 'reject' : 'edits', edits: inverse } };
+    });
+  } catch (error) {
+    console.error('Bulk apply error:', error);
+    return null;
+  }
+};
+
+/**
+ * applyBulkEdits এর একটি ব্যাচ ফেরত আনা
+ * - ফেরত দেয় কয়টি পরিবর্তন ফেরানো গেল (ডকুমেন্ট বদলে গেলে কম বা 0)
+ * - reject: প্রতিটি edit এর প্যারাগ্রাফে বসানো টেক্সটের সংযোজন ও মূল টেক্সটের মোছা রিভিশন বাতিল
+ *   (একটি রিভিশন একবারই — বাতিল হলে তবেই গোনা)
+ */
+export const undoBulkEdits = async (undo: BulkUndo): Promise<number | null> => {
+  if (undo.kind === 'edits') {
+    const result = await applyBulkEdits(undo.edits, { mode: 'replace' });
+    return result ? result.applied.length : null;
+  }
+
+  try {
+    return await Word.run(async (context) => {
+      if (undo.kind === 'comments') {
+        const comments = context.document.body.getComments();
+        comments.load('items/id');
+        await context.sync();
+
+        const mine = comments.items.filter(c => undo.ids.includes(c.id));
+        mine.forEach(c => c.delete());
+        await context.sync();
+        return mine.length;
+      }
+
+      const targets = await locateEdits(context, undo.edits);
+      const body = context.document.body;
+      const located = [...targets].sort((a, b) => a.start - b.start).map(t => {
+        const paragraph = t.range.paragraphs.getFirst();
+        const before = body.getRange('Start').expandTo(paragraph.getRange('Start'));
+        const changes = paragraph.getTrackedChanges();
+        before.load('text');
+        changes.load('items/type,items/text');
+        return { edit: undo.edits[t.index], before, changes };
+      });
+      await context.sync();
+
+      // একই প্যারাগ্রাফে একই শব্দ দুবার বদলালে প্রতিটি edit আলাদা রিভিশন পায় (ডকুমেন্টের ক্রমে)
+      const paragraphs = new Map<number, { changes: Word.TrackedChangeCollection; used: Set<number> }>();
+      let rejected = 0;
+      for (const { edit, before, changes } of located) {
+        const key = wordIndexAt(before.text, before.text.length);
+        const paragraph = paragraphs.get(key) ?? { changes, used: new Set<number>() };
+        paragraphs.set(key, paragraph);
+
+        const take = (type: string, text: string): boolean => {
+          const index = paragraph.changes.items.findIndex((c, i) =>
+            !paragraph.used.has(i) && c.type === type && normalize(c.text) === normalize(text));
+          if (index === -1) return false;
+          paragraph.used.add(index);
+          paragraph.changes.items[index].reject();
+          return true;
+        };
+        const inserted = take('Added', edit.oldText);
+        const deleted = take('Deleted', edit.newText);
+        if (inserted || deleted) rejected++;
+      }
+      await context.sync();
+      return rejected;
+    });
+  } catch (error) {
+    console.error('Undo error:', error);
+    return null;
+  }
+};
+
+/**
+ * সিলেকশনের ঠিক পরে টেক্সট যোগ (যেমন অঙ্কের পরে কথায় লেখা)
+ */
+export const insertAfterSelection = async (text: string): Promise<boolean> => {
+  try {
+    return await Word.run(async (context) => {
+      context.document.getSelection().insertText(text, Word.InsertLocation.after);
+      await context.sync();
+      return true;
+    });
+  } catch (error) {
+    console.error('Insert error:', error);
+    return false;
+  }
+};
+
+/**
+ * ডকুমেন্টের শেষে HTML বসানো (যেমন বিশ্লেষণ রিপোর্ট) — আগে একটি পেজ ব্রেক
+ */
+export const insertHtmlAtEnd = async (html: string): Promise<boolean> => {
+  try {
+    return await Word.run(async (context) => {
+      const body = context.document.body;
+      body.insertBreak(Word.BreakType.page, Word.InsertLocation.end);
+      body.insertHtml(html, Word.InsertLocation.end);
+      await context.sync();
+      return true;
+    });
+  } catch (error) {
+    console.error('Insert error:', error);
+    return false;
+  }
+};
+
+/**
+ * পুরো ডকুমেন্টের প্যারাগ্রাফগুলোর টেক্সট (ফাঁকা সহ, যাতে index = body.paragraphs এর অবস্থান)
+ */
+export const getDocumentParagraphs = async (): Promise<string[]> => {
+  try {
+    return await Word.run(async (context) => {
+      const paragraphs = context.document.body.paragraphs;
+      paragraphs.load('items/text');
+      await context.sync();
+      return paragraphs.items.map(p => p.text);
+    });
+  } catch (error) {
+    console.error('Error reading paragraphs:', error);
+    return [];
+  }
+};
+
+/**
+ * index এর প্যারাগ্রাফ সিলেক্ট করে স্ক্রল — প্যারাগ্রাফের টেক্সট ফেরত (না পেলে null)
+ * - expectedText দিলে মিলিয়ে দেখা হয়, ডকুমেন্ট বদলে গেলে null
+ */
+export const selectParagraph = async (index: number, expectedText?: string): Promise<string | null> => {
+  try {
+    return await Word.run(async (context) => {
+      const paragraphs = context.document.body.paragraphs;
+      paragraphs.load('items/text');
+      await context.sync();
+
+      const paragraph = paragraphs.items[index];
+      if (!paragraph) return null;
+      if (expectedText !== undefined && normalize(paragraph.text) !== normalize(expectedText)) return null;
+
+      paragraph.select();
+      await context.sync();
+      return paragraph.text.replace(/\r\n/g, '\n').replace(/\r/g, '\n');
+    });
+  } catch (error) {
+    console.error('Error selecting paragraph:', error);
+    return null;
+  }
+};
+
+/**
+ * শব্দে ভাগ করা রেঞ্জ (শেষের স্পেস সহ) — প্যারাগ্রাফ চিহ্ন বাদ
+ */
+const wordRanges = (range: Word.Range): Word.RangeCollection => {
+  const words = range.getTextRanges([' ', '\t'], false);
+  words.load('items/text,items/font/name');
+  return words;
+};
+
+/**
+ * বিজয় ফন্টের লেখা ইউনিকোডে (পুরো ডকুমেন্ট)
+ * - প্রতিটি শব্দের ফন্টের নাম দেখে বিজয় পরিবার খোঁজা
+ * - একই রেঞ্জে insertText, তাই বোল্ড/সাইজ/রং অক্ষত — শুধু ফন্ট বদলায়
+ * - একটি শব্দে একাধিক ফন্ট থাকলে Word নাম দেয় না, সেগুলো বাদ
+ * - রূপান্তরিত শব্দের সংখ্যা, ত্রুটিতে null
+ */
+export const convertBijoyRuns = async (unicodeFont: string): Promise<number | null> => {
+  try {
+    return await Word.run(async (context) => {
+      const paragraphs = context.document.body.paragraphs;
+      paragraphs.load('items');
+      await context.sync();
+
+      const collections = paragraphs.items.map(p => wordRanges(p.getRange('Content')));
+      await context.sync();
+
+      let count = 0;
+      for (const words of collections) {
+        for (const word of words.items) {
+          if (!word.text.trim() || !isBijoyFont(word.font.name)) continue;
+          const inserted = word.insertText(bijoyToUnicode(word.text), Word.InsertLocation.replace);
+          inserted.font.name = unicodeFont;
+          count++;
+        }
+      }
+      await context.sync();
+      return count;
+    });
+  } catch (error) {
+    console.error('Bijoy conversion error:', error);
+    return null;
+  }
+};
+
+/**
+ * সিলেকশনের ইউনিকোড বাংলা বিজয়ে (SutonnyMJ) — প্রিন্টারের জন্য
+ * - শুধু বাংলা লিপির শব্দ; ইংরেজি ও অঙ্ক আগের ফন্টেই থাকে
+ */
+export const convertSelectionToBijoy = async (): Promise<number | null> => {
+  try {
+    return await Word.run(async (context) => {
+      const selection = context.document.getSelection();
+      const paragraphs = selection.paragraphs;
+      paragraphs.load('items');
+      await context.sync();
+
+      const parts = paragraphs.items.map(p => p.getRange('Content').intersectWithOrNullObject(selection));
+      parts.forEach(part => part.load('isNullObject'));
+      await context.sync();
+
+      const collections = parts.filter(part => !part.isNullObject).map(wordRanges);
+      await context.sync();
+
+      let count = 0;
+      for (const words of collections) {
+        for (const word of words.items) {
+          if (!/[\u0980-\u09FF]/.test(word.text)) continue;
+          const inserted = word.insertText(unicodeToBijoy(word.text), Word.InsertLocation.replace);
+          inserted.font.name = BIJOY_FONT;
+          count++;
+        }
+      }
+      await context.sync();
+      return count;
+    });
+  } catch (error) {
+    console.error('Bijoy conversion error:', error);
+    return null;
+  }
+};